@@ -4,15 +4,15 @@ import numpy as np
 import librosa
 from typing import Dict, Any
 import io
-from models.emotion_detector import EmotionDetector
-from models.pitch_detector import PitchDetector
+from utils.emotion_detector import EmotionDetector
+from utils.pitch_detector import PitchDetector
 
 app = FastAPI()
 
 # Enable CORS
 app.add_middleware(
     CORSMiddleware,
-    allow_origins=["http://localhost:5173"],  # React dev server
+    allow_origins=["http://localhost:5173", "http://localhost:3000"],  # React and Next.js dev servers
     allow_credentials=True,
     allow_methods=["*"],
     allow_headers=["*"],
@@ -35,17 +35,15 @@ async def analyze_audio(file: UploadFile = File(...)) -> Dict[str, Any]:
         # Load audio using librosa
         y, sr = librosa.load(audio_data, sr=None)
         
-        # Extract features
-        mfccs = librosa.feature.mfcc(y=y, sr=sr)
-        chroma = librosa.feature.chroma_stft(y=y, sr=sr)
+        # Estimate tempo
         tempo, _ = librosa.beat.beat_track(y=y, sr=sr)
         
-        # Detect emotion
-        emotion = emotion_detector.predict_emotion(y, sr)
-        
         # Detect pitch
         pitch_data = pitch_detector.detect_pitch(y, sr)
         
+        # Detect emotion, with the same model file and labels as the frontend
+        emotion = emotion_detector.predict_emotion(y, sr, float(tempo), pitch_data["data"], pitch_data["confidence"])
+        
         # Recommend raaga based on emotion and pitch
         raaga = recommend_raaga(emotion["label"], pitch_data["most_common_note"])
         
@@ -69,14 +67,14 @@ def recommend_raaga(emotion: str, note: str) -> str:
     """
     # Mapping of emotions to raagas
     emotion_to_raaga = {
-        "happy": "Bhairavi",
-        "sad": "Darbari",
-        "calm": "Yaman",
-        "angry": "Todi",
-        "fear": "Malkauns",
-        "surprise": "Bageshri",
-        "disgust": "Asavari",
-        "neutral": "Bilawal"
+        "Joyful": "Bhairavi",
+        "Melancholic": "Darbari",
+        "Peaceful": "Yaman",
+        "Energetic": "Hamsadhwani",
+        "Nostalgic": "Pilu",
+        "Playful": "Bageshri",
+        "Tender": "Khamaj",
+        "Dramatic": "Todi"
     }
     
     # Default to Bhairavi if emotion not found
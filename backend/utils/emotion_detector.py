@@ -1,73 +1,226 @@
-import tensorflow as tf
-import numpy as np
+import json
+import os
+from pathlib import Path
+from typing import Any, Dict, List
+
 import librosa
-from typing import Dict, Any
+import numpy as np
+
+# The classifier file is shared with the frontend (frontend/src/utils/emotionModel.ts),
+# which measures tempo, onsets and mode with its own detectors, so the two can
+# disagree on a take. The weights are fitted on synthetic examples from
+# frontend/scripts/emotion-prototypes.json; rebuild them with
+# frontend/scripts/train-emotion-model.mjs.
+DEFAULT_MODEL_PATH = Path(__file__).resolve().parents[2] / "frontend" / "src" / "models" / "emotionModel.json"
+
+# Spectrogram settings, as in frontend/src/utils/audioUtils.ts
+SPECTROGRAM_SAMPLE_RATE = 11025
+SPECTROGRAM_FFT_SIZE = 1024
+SPECTROGRAM_HOP_SIZE = 256
+
+MEL_BANDS = 40
+MFCC_COUNT = 13
+SILENT_FRAME_DB = -60
+MEL_FLOOR_DB = -100
+
+# Loudness windows and the level below which a window counts as silent
+ENVELOPE_SECONDS = 0.1
+SILENCE_DB = -60
+
+# CREPE frames below this confidence are treated as unvoiced
+VOICED_CONFIDENCE = 0.5
+MIN_MODE_FRAMES = 50
+
+# Krumhansl-Kessler key profiles, from the tonic upwards
+MAJOR_PROFILE = np.array([6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88])
+MINOR_PROFILE = np.array([6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17])
+
+
+def _to_dbfs(values: np.ndarray) -> np.ndarray:
+    with np.errstate(divide="ignore"):
+        return np.maximum(-100.0, 20 * np.log10(values))
+
+
+def _downsample(samples: np.ndarray, sr: int, target_sr: int):
+    """
+    Reduce the sample rate by an integer factor, averaging each block of samples.
+    """
+    factor = max(1, int(sr // target_sr))
+    if factor == 1:
+        return samples, sr
+    length = len(samples) // factor
+    return samples[: length * factor].reshape(length, factor).mean(axis=1), sr / factor
+
+
+def _spectrogram(samples: np.ndarray, sr: int):
+    """
+    Levels in dBFS per frame and bin, Hann-windowed and scaled so a full-scale sine reads about 0 dB.
+    """
+    samples, rate = _downsample(samples, sr, SPECTROGRAM_SAMPLE_RATE)
+    size = SPECTROGRAM_FFT_SIZE
+    if len(samples) < size:
+        return np.zeros((0, size // 2)), rate / size
+    window = np.hanning(size)
+    scale = 2 / window.sum()
+    starts = range(0, len(samples) - size + 1, SPECTROGRAM_HOP_SIZE)
+    frames = np.stack([samples[start:start + size] * window for start in starts])
+    magnitudes = np.abs(np.fft.rfft(frames, axis=1))[:, : size // 2] * scale
+    return _to_dbfs(magnitudes), rate / size
+
+
+def _mel_filterbank(bin_count: int, bin_hz: float) -> np.ndarray:
+    """
+    Triangular mel filters (HTK spacing, peak 1) over the bins of a spectrum.
+    """
+    top_mel = 2595 * np.log10(1 + bin_count * bin_hz / 700)
+    edges = 700 * (10 ** (top_mel * np.arange(MEL_BANDS + 2) / (MEL_BANDS + 1) / 2595) - 1)
+    hz = np.arange(bin_count) * bin_hz
+    filters = np.zeros((MEL_BANDS, bin_count))
+    for band in range(MEL_BANDS):
+        low, centre, high = edges[band], edges[band + 1], edges[band + 2]
+        rising = (hz >= low) & (hz <= centre)
+        falling = (hz > centre) & (hz < high)
+        filters[band, rising] = (hz[rising] - low) / (centre - low)
+        filters[band, falling] = (high - hz[falling]) / (high - centre)
+    return filters
+
+
+def _measure_timbre(samples: np.ndarray, sr: int):
+    """
+    Mean MFCCs and spectral centroid over the non-silent frames.
+    """
+    levels, bin_hz = _spectrogram(samples, sr)
+    levels = levels[levels.max(axis=1) >= SILENT_FRAME_DB] if len(levels) else levels
+    if len(levels) == 0:
+        return np.zeros(MFCC_COUNT), 0.0
+
+    magnitudes = 10 ** (levels / 20)
+    hz = np.arange(levels.shape[1]) * bin_hz
+    totals = magnitudes.sum(axis=1)
+    centroids = np.where(totals > 0, (magnitudes * hz).sum(axis=1) / np.maximum(totals, 1e-12), 0)
+
+    mel_power = (10 ** (levels / 10)) @ _mel_filterbank(levels.shape[1], bin_hz).T
+    with np.errstate(divide="ignore"):
+        log_mel = np.maximum(MEL_FLOOR_DB, 10 * np.log10(mel_power))
+
+    # Orthonormal DCT-II of the log mel energies
+    n = np.arange(MFCC_COUNT)[:, None]
+    m = np.arange(MEL_BANDS)[None, :]
+    dct = np.cos(np.pi * n * (m + 0.5) / MEL_BANDS) * np.sqrt(np.where(n == 0, 1, 2) / MEL_BANDS)
+    mfcc = log_mel @ dct.T
+    return mfcc.mean(axis=0), float(centroids.mean())
+
+
+def _measure_mode(frequencies: List[float], confidences: List[float]) -> float:
+    """
+    Best major key-profile fit minus best minor fit of the pitch-class histogram.
+    """
+    f0 = np.asarray(frequencies, dtype=float)
+    voiced = f0 > 0
+    if len(confidences) == len(f0):
+        voiced &= np.asarray(confidences, dtype=float) >= VOICED_CONFIDENCE
+    midi = 69 + 12 * np.log2(f0[voiced])
+    if len(midi) < MIN_MODE_FRAMES:
+        return 0.0
+
+    # Tuning offset as the circular mean of the fractional semitones
+    offset = np.arctan2(np.sin(2 * np.pi * midi).sum(), np.cos(2 * np.pi * midi).sum()) / (2 * np.pi)
+    classes = np.mod(np.round(midi - offset).astype(int), 12)
+    histogram = np.bincount(classes, minlength=12).astype(float)
+    if histogram.std() == 0:
+        return 0.0
+
+    major = max(np.corrcoef(np.roll(histogram, -key), MAJOR_PROFILE)[0, 1] for key in range(12))
+    minor = max(np.corrcoef(np.roll(histogram, -key), MINOR_PROFILE)[0, 1] for key in range(12))
+    return float(major - minor)
+
+
+def _measure_dynamics(samples: np.ndarray, sr: int):
+    """
+    Average loudness and dynamic range of the non-silent windows, in dB.
+    """
+    size = max(1, int(sr * ENVELOPE_SECONDS))
+    levels = np.array([
+        _to_dbfs(np.sqrt(np.mean(samples[i:i + size] ** 2))) for i in range(0, len(samples), size)
+    ])
+    active = np.sort(levels[levels > SILENCE_DB])
+    if len(active) == 0:
+        return -100.0, 0.0
+    # The 10th percentile keeps a few near-silent windows from swamping the range
+    return float(active.mean()), float(active[-1] - active[int(len(active) * 0.1)])
+
 
 class EmotionDetector:
-    def __init__(self):
-        # Load the pre-trained model
-        self.model = self._load_model()
-        self.emotion_labels = ['angry', 'calm', 'disgust', 'fear', 'happy', 'neutral', 'sad', 'surprise']
-        
-    def _load_model(self) -> tf.keras.Model:
-        """
-        Load the pre-trained emotion detection model.
-        For now, we'll use a placeholder model structure.
-        """
-        model = tf.keras.Sequential([
-            tf.keras.layers.Conv2D(32, (3, 3), activation='relu', input_shape=(128, 128, 1)),
-            tf.keras.layers.MaxPooling2D((2, 2)),
-            tf.keras.layers.Conv2D(64, (3, 3), activation='relu'),
-            tf.keras.layers.MaxPooling2D((2, 2)),
-            tf.keras.layers.Conv2D(64, (3, 3), activation='relu'),
-            tf.keras.layers.Flatten(),
-            tf.keras.layers.Dense(64, activation='relu'),
-            tf.keras.layers.Dense(8, activation='softmax')
-        ])
-        
-        # TODO: Load actual weights from a trained model
-        return model
-    
-    def extract_features(self, audio_data: np.ndarray, sr: int) -> np.ndarray:
+    def __init__(self, model_path: str = ""):
+        path = Path(model_path or os.environ.get("EMOTION_MODEL_PATH", DEFAULT_MODEL_PATH))
+        with open(path, encoding="utf-8") as f:
+            model = json.load(f)
+
+        self.emotion_labels: List[str] = model["labels"]
+        self.feature_names: List[str] = model["features"]
+        self.mean = np.array(model["mean"])
+        self.scale = np.array(model["scale"])
+        self.weights = np.array(model["weights"])
+        self.bias = np.array(model["bias"])
+        self.temperature = float(model["temperature"])
+
+    def extract_features(
+        self,
+        audio_data: np.ndarray,
+        sr: int,
+        tempo: float,
+        pitch: List[float],
+        pitch_confidence: List[float],
+    ) -> Dict[str, float]:
         """
-        Extract MFCC features from audio data.
+        Measure the features the classifier works from.
         """
-        # Extract MFCC features
-        mfccs = librosa.feature.mfcc(y=audio_data, sr=sr, n_mfcc=40)
-        
-        # Normalize the features
-        mfccs = (mfccs - np.mean(mfccs)) / np.std(mfccs)
-        
-        # Reshape for the model input
-        mfccs = np.expand_dims(mfccs, axis=-1)
-        mfccs = np.expand_dims(mfccs, axis=0)
-        
-        return mfccs
-    
-    def predict_emotion(self, audio_data: np.ndarray, sr: int) -> Dict[str, Any]:
+        samples = np.asarray(audio_data, dtype=float)
+        duration = len(samples) / sr if sr else 0
+        mfcc, centroid = _measure_timbre(samples, sr)
+        onsets = librosa.onset.onset_detect(y=audio_data, sr=sr, units="time")
+        loudness, dynamic_range = _measure_dynamics(samples, sr)
+
+        features = {f"mfcc{i + 1}": float(value) for i, value in enumerate(mfcc)}
+        features.update({
+            "spectralCentroid": centroid,
+            "tempo": float(tempo),
+            "onsetRate": len(onsets) / duration if duration > 0 else 0.0,
+            "mode": _measure_mode(pitch, pitch_confidence),
+            "loudness": loudness,
+            "dynamicRange": dynamic_range,
+        })
+        return features
+
+    def predict_emotion(
+        self,
+        audio_data: np.ndarray,
+        sr: int,
+        tempo: float,
+        pitch: List[float],
+        pitch_confidence: List[float],
+    ) -> Dict[str, Any]:
         """
-        Predict the emotion from audio data.
+        Predict the emotion from audio data, with a confidence for every label.
         """
         try:
-            # Extract features
-            features = self.extract_features(audio_data, sr)
-            
-            # Make prediction
-            predictions = self.model.predict(features)
-            
-            # Get the predicted emotion and confidence
-            emotion_idx = np.argmax(predictions[0])
-            emotion = self.emotion_labels[emotion_idx]
-            confidence = float(predictions[0][emotion_idx])
-            
+            features = self.extract_features(audio_data, sr, tempo, pitch, pitch_confidence)
+            inputs = (np.array([features.get(name, 0.0) for name in self.feature_names]) - self.mean) / self.scale
+
+            logits = (self.weights @ inputs + self.bias) / self.temperature
+            probabilities = np.exp(logits - logits.max())
+            probabilities /= probabilities.sum()
+
+            best = int(np.argmax(probabilities))
             return {
-                "label": emotion,
-                "confidence": confidence
+                "label": self.emotion_labels[best],
+                "confidence": float(probabilities[best]),
+                "scores": {label: float(p) for label, p in zip(self.emotion_labels, probabilities)},
             }
-            
+
         except Exception as e:
             print(f"Error in emotion prediction: {str(e)}")
             return {
                 "label": "unknown",
                 "confidence": 0.0
-            } 
\ No newline at end of file
+            }
@@ -0,0 +1,95 @@
+// scripts/stub-analysis-server.mjs
+/**
+ * Stand-in for the FastAPI analysis service (backend/main.py)
+ * Answers POST /analyze with a fixed response in the service's format, so the
+ * HTTP analysis provider can be tried without Python, TensorFlow or CREPE.
+ * The uploaded audio is not analyzed.
+ *
+ *   node scripts/stub-analysis-server.mjs   (or: yarn stub-server)
+ *
+ * Listens on port 8000 like the real service; set PORT to change it.
+ */
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8000;
+
+// Sa of the canned phrase, and its swaras as semitones above Sa
+const TONIC_HZ = 220;
+const PHRASE = [0, 2, 4, 6, 7, 9, 11, 12, 11, 9, 7, 6, 4, 2, 0];
+const FRAMES_PER_NOTE = 40; // 0.4 s per note at CREPE's 10 ms step
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const noteName = (hz) => {
+  const midi = Math.round(69 + 12 * Math.log2(hz / 440));
+  return `${NOTE_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`;
+};
+
+// A Yaman-like phrase up and down the scale, with a little silence between notes
+const buildPitch = () => {
+  const data = [];
+  const labels = [];
+  PHRASE.forEach((semitones) => {
+    const hz = TONIC_HZ * Math.pow(2, semitones / 12);
+    for (let i = 0; i < FRAMES_PER_NOTE; i++) {
+      const voiced = i < FRAMES_PER_NOTE - 5;
+      data.push(voiced ? Math.round(hz * 100) / 100 : 0);
+      labels.push(voiced ? noteName(hz) : 'silence');
+    }
+  });
+  return { data, labels };
+};
+
+const CANNED_RESPONSE = {
+  emotion: {
+    label: 'Peaceful',
+    confidence: 0.62,
+    scores: {
+      Joyful: 0.04, Melancholic: 0.08, Peaceful: 0.62, Energetic: 0.01,
+      Nostalgic: 0.09, Playful: 0.02, Tender: 0.13, Dramatic: 0.01,
+    },
+  },
+  pitch: buildPitch(),
+  tempo: 96,
+  raaga: 'Yaman',
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': '*',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  if (req.method !== 'POST' || req.url !== '/analyze') {
+    send(res, 404, { detail: 'Not Found' });
+    return;
+  }
+
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    // Like the real service, failures come back as { "error": "..." }
+    const body = Buffer.concat(chunks).toString('latin1');
+    if (!/name="file"/.test(body)) {
+      send(res, 200, { error: 'No audio file was uploaded in the "file" field.' });
+      return;
+    }
+
+    console.log(`Analyzed ${chunks.reduce((n, c) => n + c.length, 0)} bytes (stub response)`);
+    send(res, 200, CANNED_RESPONSE);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Stub analysis service listening on http://localhost:${PORT}/analyze`);
+});
@@ -0,0 +1,185 @@
+// scripts/train-emotion-model.mjs
+/**
+ * Builds the emotion classifier in src/models/emotionModel.json
+ * Fits a softmax (multinomial logistic) regression on standardized features,
+ * then calibrates its confidences with a temperature chosen to minimise the
+ * log loss on a held-out fifth of the examples.
+ *
+ * The examples are drawn from the per-emotion feature profiles in
+ * emotion-prototypes.json. Labelled recordings can be added with a JSON file
+ * of [{ "label": "Joyful", "features": { "tempo": 118, ... } }, ...], with the
+ * features measured as in src/utils/emotionModel.ts:
+ *
+ *   node scripts/train-emotion-model.mjs [labelled.json]   (or: yarn train-emotion-model)
+ *
+ * The result is deterministic for the same inputs.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const PROTOTYPES_PATH = join(ROOT, 'scripts', 'emotion-prototypes.json');
+const MODEL_PATH = join(ROOT, 'src', 'models', 'emotionModel.json');
+
+const MODEL_VERSION = 1;
+
+// Gradient descent settings
+const ITERATIONS = 2000;
+const LEARNING_RATE = 0.5;
+const L2_PENALTY = 0.001;
+
+// Share of the examples kept back for calibration and the accuracy report
+const HELD_OUT_SHARE = 0.2;
+
+// Temperatures tried during calibration
+const MIN_TEMPERATURE = 0.25;
+const MAX_TEMPERATURE = 5;
+const TEMPERATURE_STEP = 0.05;
+
+// Small seeded generator (mulberry32), so the model is reproducible
+const createRandom = (seed) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const random = createRandom(20240601);
+
+const gaussian = () => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+const prototypes = JSON.parse(readFileSync(PROTOTYPES_PATH, 'utf8'));
+const { features } = prototypes;
+const labels = Object.keys(prototypes.profiles);
+
+// Examples drawn from the prototype profiles
+const examples = [];
+for (const [labelIndex, label] of labels.entries()) {
+  const profile = { ...prototypes.shared, ...prototypes.profiles[label] };
+  for (let n = 0; n < prototypes.samplesPerLabel; n++) {
+    examples.push({
+      label: labelIndex,
+      values: features.map((name) => {
+        if (!profile[name]) throw new Error(`No profile for feature ${name} of ${label}`);
+        const [mean, sd] = profile[name];
+        return mean + sd * gaussian();
+      }),
+    });
+  }
+}
+
+// Labelled recordings, when given
+const labelledPath = process.argv[2];
+if (labelledPath) {
+  const recordings = JSON.parse(readFileSync(labelledPath, 'utf8'));
+  for (const recording of recordings) {
+    const labelIndex = labels.indexOf(recording.label);
+    if (labelIndex < 0) throw new Error(`Unknown label "${recording.label}"; expected one of ${labels.join(', ')}`);
+    examples.push({
+      label: labelIndex,
+      values: features.map((name) => {
+        const value = recording.features[name];
+        if (typeof value !== 'number') throw new Error(`Recording labelled ${recording.label} has no ${name}`);
+        return value;
+      }),
+    });
+  }
+  console.log(`Added ${recordings.length} labelled recordings from ${labelledPath}`);
+}
+
+// Shuffle, then hold out a share for calibration
+for (let i = examples.length - 1; i > 0; i--) {
+  const j = Math.floor(random() * (i + 1));
+  [examples[i], examples[j]] = [examples[j], examples[i]];
+}
+const heldOutCount = Math.round(examples.length * HELD_OUT_SHARE);
+const heldOut = examples.slice(0, heldOutCount);
+const training = examples.slice(heldOutCount);
+
+// Standardize with the training examples' statistics
+const mean = features.map((_, f) => training.reduce((acc, e) => acc + e.values[f], 0) / training.length);
+const scale = features.map((_, f) => Math.sqrt(
+  training.reduce((acc, e) => acc + (e.values[f] - mean[f]) ** 2, 0) / training.length
+) || 1);
+const standardize = (values) => values.map((value, f) => (value - mean[f]) / scale[f]);
+const trainingInputs = training.map((e) => standardize(e.values));
+const heldOutInputs = heldOut.map((e) => standardize(e.values));
+
+const weights = labels.map(() => new Array(features.length).fill(0));
+const bias = new Array(labels.length).fill(0);
+
+const probabilities = (inputs, temperature = 1) => {
+  const logits = weights.map((row, k) => row.reduce((acc, w, f) => acc + w * inputs[f], bias[k]) / temperature);
+  const top = Math.max(...logits);
+  const exponentials = logits.map((logit) => Math.exp(logit - top));
+  const total = exponentials.reduce((acc, x) => acc + x, 0);
+  return exponentials.map((x) => x / total);
+};
+
+// Full-batch gradient descent on the cross-entropy with an L2 penalty
+for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+  const weightGradient = labels.map(() => new Array(features.length).fill(0));
+  const biasGradient = new Array(labels.length).fill(0);
+
+  training.forEach((example, n) => {
+    const inputs = trainingInputs[n];
+    probabilities(inputs).forEach((p, k) => {
+      const error = p - (k === example.label ? 1 : 0);
+      biasGradient[k] += error;
+      for (let f = 0; f < features.length; f++) weightGradient[k][f] += error * inputs[f];
+    });
+  });
+
+  for (let k = 0; k < labels.length; k++) {
+    bias[k] -= (LEARNING_RATE * biasGradient[k]) / training.length;
+    for (let f = 0; f < features.length; f++) {
+      weights[k][f] -= LEARNING_RATE * (weightGradient[k][f] / training.length + L2_PENALTY * weights[k][f]);
+    }
+  }
+}
+
+// Calibrate on the held-out examples
+const logLoss = (temperature) => heldOut.reduce(
+  (acc, example, n) => acc - Math.log(Math.max(1e-12, probabilities(heldOutInputs[n], temperature)[example.label])),
+  0
+) / heldOut.length;
+
+let temperature = 1;
+let bestLoss = logLoss(1);
+for (let t = MIN_TEMPERATURE; t <= MAX_TEMPERATURE + 1e-9; t += TEMPERATURE_STEP) {
+  const loss = logLoss(t);
+  if (loss < bestLoss) {
+    bestLoss = loss;
+    temperature = t;
+  }
+}
+
+const correct = heldOut.filter((example, n) => {
+  const p = probabilities(heldOutInputs[n], temperature);
+  return p.indexOf(Math.max(...p)) === example.label;
+}).length;
+console.log(`Held-out accuracy ${((100 * correct) / heldOut.length).toFixed(1)}% of ${heldOut.length}, ` +
+  `log loss ${bestLoss.toFixed(3)} at temperature ${temperature.toFixed(2)}`);
+
+const round = (value, digits = 4) => Number(value.toFixed(digits));
+const model = {
+  version: MODEL_VERSION,
+  labels,
+  features,
+  mean: mean.map((value) => round(value)),
+  scale: scale.map((value) => round(value)),
+  weights: weights.map((row) => row.map((value) => round(value))),
+  bias: bias.map((value) => round(value)),
+  temperature: round(temperature, 2),
+};
+
+// One line per flat array keeps the file readable in diffs
+const json = JSON.stringify(model, null, 2)
+  .replace(/\[\s+((?:[-\d.e+]+|"[^"]*")(?:,\s+(?:[-\d.e+]+|"[^"]*"))*)\s+\]/g, (_, body) => `[${body.split(/,\s+/).join(', ')}]`);
+writeFileSync(MODEL_PATH, `${json}\n`);
+console.log(`Wrote ${MODEL_PATH}`);
@@ -1,32 +1,79 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter } from 'next/router';
 import EmotionResultCard from './EmotionResultCard';
-import { AudioAnalysisResult, analyzeAudio } from '../utils/emotionDetector';
-import { getAllRecordings, getRecordingById, deleteRecording, updateRecording } from '../utils/storage';
+import TonicSelector from './TonicSelector';
+import AudioViewer from './AudioViewer';
+import Link from 'next/link';
+import { ANALYZER_VERSION } from '../utils/emotionDetector';
+import { getAnalysisProvider, AnalysisProvider } from '../utils/analysisProvider';
+import { getAnalysisSettings, AnalysisProviderId } from '../utils/analysisSettings';
+import { AnalysisProgress, STAGE_LABELS, isAbortError } from '../utils/analysisRunner';
+import { getAudioBuffer } from '../utils/audioUtils';
+import { ReferenceAudio } from '../utils/referenceScoring';
+import { getCustomFeedbackRules } from '../utils/feedback';
+import {
+  getAllRecordings,
+  getRecordingById,
+  deleteRecording,
+  updateRecording,
+  saveAnalysisResult,
+  getReferenceRecording,
+  Recording,
+  StoredAnalysis,
+} from '../utils/storage';
 
-interface Recording {
+// One queued or finished analysis run
+interface AnalysisJob {
   id: string;
+  recordingId: string;
   name: string;
-  date: string;
-  url?: string;
-  blob?: Blob;
-  duration?: number;
-  size?: number;
-  type?: string;
+  status: 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+  progress: AnalysisProgress | null;
+  audioBuffer: AudioBuffer | null; // decoded audio, when the recording was decoded for the viewer
+  error?: string;
 }
 
+// How many analyses may run at once for each provider. Local runs each take a
+// worker thread; server runs mostly wait on the network.
+const MAX_CONCURRENT_JOBS: Record<AnalysisProvider['id'], number> = {
+  local: 2,
+  http: 4,
+};
+
+const PROVIDER_LABELS: Record<AnalysisProviderId, string> = {
+  local: 'in the browser',
+  http: 'on an analysis server',
+};
+
+const isActiveJob = (job: AnalysisJob) => job.status === 'queued' || job.status === 'running';
+
+// Saved analyses are told apart by when they ran. Only a result saved before
+// timestamps were recorded has none, and a recording has at most one of those.
+const analysisKey = (analysis: StoredAnalysis | null | undefined) => analysis?.analyzedAt ?? 'undated';
+
+// Value of the history picker's entry for the latest analysis
+const LATEST_ANALYSIS = 'latest';
+
 const Analyzer: React.FC = () => {
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [selectedRecording, setSelectedRecording] = useState<Recording | null>(null);
-  const [analysisResults, setAnalysisResults] = useState<AudioAnalysisResult | null>(null);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  // Saved analysis on show: the selected recording's latest, or one from its history
+  const [viewedAnalysis, setViewedAnalysis] = useState<StoredAnalysis | null>(null);
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const abortControllers = useRef(new Map<string, AbortController>());
+  const selectedIdRef = useRef<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [provider, setProvider] = useState<AnalysisProvider | null>(null);
   const router = useRouter();
   const { id: queryId } = router.query;
 
-  // Load all recordings once when the component is mounted
+  // Load all recordings and the chosen analysis provider once when the component is mounted
   useEffect(() => {
     loadRecordings();
+    setProvider(getAnalysisProvider(getAnalysisSettings()));
   }, []);
 
   // If a recording ID is provided in the URL, load that specific recording
@@ -36,6 +83,34 @@ const Analyzer: React.FC = () => {
     }
   }, [queryId]);
 
+  useEffect(() => {
+    selectedIdRef.current = selectedRecording?.id ?? null;
+  }, [selectedRecording?.id]);
+
+  // Stop any run still going when leaving the page
+  useEffect(() => {
+    const controllers = abortControllers.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  // Decode the selected recording once, for the viewer and for analysis
+  useEffect(() => {
+    setAudioBuffer(null);
+    const blob = selectedRecording?.blob;
+    if (!blob) return;
+
+    let cancelled = false;
+    getAudioBuffer(blob)
+      .then(buffer => {
+        if (!cancelled) setAudioBuffer(buffer);
+      })
+      .catch(err => console.error('Failed to decode recording:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRecording?.id, selectedRecording?.blob]);
+
   // Function to load all recordings from storage
   const loadRecordings = async () => {
     try {
@@ -53,6 +128,7 @@ const Analyzer: React.FC = () => {
       const recording = await getRecordingById(id);
       if (recording) {
         setSelectedRecording(recording);
+        setViewedAnalysis(recording.analysisResults ?? null);
       }
     } catch (error) {
       console.error('Failed to load specific recording', error);
@@ -63,48 +139,202 @@ const Analyzer: React.FC = () => {
   // Handle the selection of a recording from the list
   const handleSelectRecording = (recording: Recording) => {
     setSelectedRecording(recording);
-    setAnalysisResults(null); // Reset analysis results when selecting a new recording
+    setViewedAnalysis(recording.analysisResults ?? null); // Show the saved results, if any
     setError(null); // Reset any previous errors
   };
 
-  // Analyze the selected recording
-  const handleAnalyze = async () => {
-    if (!selectedRecording) return;
+  const updateJob = (id: string, changes: Partial<AnalysisJob>) => {
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...changes } : job)));
+  };
 
-    try {
-      setIsAnalyzing(true);
-      setError(null); // Reset any previous errors
+  // Run one queued analysis and save its results with the recording
+  const runJob = useCallback(async (job: AnalysisJob) => {
+    if (abortControllers.current.has(job.id)) return; // already started
 
-      // Retrieve the audio blob from the selected recording
-      let audioBlob = selectedRecording.blob;
+    const controller = new AbortController();
+    abortControllers.current.set(job.id, controller);
+    updateJob(job.id, { status: 'running' });
 
-      // If no blob exists, fetch the audio file from the URL
-      if (!audioBlob && selectedRecording.url) {
-        const response = await fetch(selectedRecording.url);
-        audioBlob = await response.blob();
+    try {
+      // Read the recording afresh; it may have changed since it was queued
+      const recording = await getRecordingById(job.recordingId);
+      if (!recording?.blob) {
+        throw new Error(recording?.audioMissing
+          ? 'The audio for this recording is missing and cannot be analyzed.'
+          : 'No audio data available for analysis.');
       }
 
-      if (!audioBlob) {
-        setError('No audio data available for analysis.');
-        setIsAnalyzing(false);
-        return;
+      const analysisProvider = provider || getAnalysisProvider(getAnalysisSettings());
+
+      // Score the notes against the piece's reference take, unless this is it.
+      // Only the browser scores against a reference, so servers skip decoding it.
+      let reference: ReferenceAudio | undefined;
+      if (analysisProvider.id === 'local' && recording.piece && !recording.isReference) {
+        const referenceRecording = await getReferenceRecording(recording.piece);
+        if (referenceRecording?.blob) {
+          try {
+            const referenceBuffer = await getAudioBuffer(referenceRecording.blob);
+            reference = {
+              id: referenceRecording.id,
+              name: referenceRecording.name,
+              channels: Array.from({ length: referenceBuffer.numberOfChannels }, (_, c) => referenceBuffer.getChannelData(c).slice()),
+              sampleRate: referenceBuffer.sampleRate,
+              tonicHz: referenceRecording.tonicHz,
+            };
+          } catch (err) {
+            console.error('Failed to decode the reference take; analyzing without it:', err);
+          }
+        }
       }
+      if (controller.signal.aborted) throw new DOMException('Analysis was cancelled', 'AbortError');
 
-      // Analyze the audio
-      const results = await analyzeAudio(audioBlob);
-      setAnalysisResults(results);
+      // Analyze the audio, relative to the take's manually chosen Sa if it has one
+      const results = await analysisProvider.analyze({
+        audio: recording.blob,
+        options: {
+          tonicHz: recording.tonicHz,
+          intendedTempo: recording.tempoBpm,
+          taal: recording.taal,
+          reference,
+          feedbackRules: getCustomFeedbackRules(),
+          locale: navigator.language,
+        },
+        audioBuffer: job.audioBuffer,
+        onProgress: progress => updateJob(job.id, { progress }),
+        signal: controller.signal,
+      });
 
-      // Save analysis results with the selected recording
-      if (results) {
-        await updateRecording(selectedRecording.id, {
-          analysisResults: results,
-        });
+      // Save analysis results with the recording
+      const updated = await saveAnalysisResult(recording.id, results, analysisProvider.id);
+      updateJob(job.id, { status: 'done', audioBuffer: null });
+
+      if (updated) {
+        // Keep the loaded audio; only the saved analyses changed
+        const withAnalyses = (rec: Recording): Recording => (rec.id === updated.id
+          ? { ...rec, analysisResults: updated.analysisResults, analysisHistory: updated.analysisHistory }
+          : rec);
+        setRecordings(prev => prev.map(withAnalyses));
+        setSelectedRecording(prev => prev && withAnalyses(prev));
+
+        if (selectedIdRef.current === updated.id) {
+          setViewedAnalysis(updated.analysisResults ?? null);
+        }
       }
     } catch (err) {
-      console.error('Analysis error:', err);
-      setError('Failed to analyze audio. Please try again.');
+      if (isAbortError(err)) {
+        updateJob(job.id, { status: 'cancelled', audioBuffer: null });
+      } else {
+        console.error('Analysis error:', err);
+        updateJob(job.id, {
+          status: 'failed',
+          audioBuffer: null,
+          error: err instanceof Error ? err.message : 'Failed to analyze audio. Please try again.',
+        });
+      }
     } finally {
-      setIsAnalyzing(false);
+      abortControllers.current.delete(job.id);
+    }
+  }, [provider]);
+
+  // Start queued runs in the order they were queued, up to the provider's limit
+  useEffect(() => {
+    const limit = MAX_CONCURRENT_JOBS[provider?.id ?? 'local'];
+    const running = jobs.filter(job => job.status === 'running').length;
+    jobs
+      .filter(job => job.status === 'queued')
+      .slice(0, Math.max(0, limit - running))
+      .forEach(job => runJob(job));
+  }, [jobs, runJob, provider]);
+
+  // Queue recordings for analysis, skipping any already waiting or running
+  const enqueueRecordings = (toQueue: Recording[]) => {
+    setError(null); // Reset any previous errors
+    setJobs(prev => {
+      const active = new Set(prev.filter(isActiveJob).map(job => job.recordingId));
+      const added = toQueue
+        .filter(recording => !active.has(recording.id))
+        .map((recording): AnalysisJob => ({
+          id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          recordingId: recording.id,
+          name: recording.name,
+          status: 'queued',
+          progress: null,
+          // Reuse the viewer's decoded audio for the selected recording
+          audioBuffer: recording.id === selectedRecording?.id ? audioBuffer : null,
+        }));
+      return [...prev, ...added];
+    });
+  };
+
+  // Queue the selected recording for analysis
+  const handleAnalyze = () => {
+    if (!selectedRecording) return;
+    enqueueRecordings([selectedRecording]);
+  };
+
+  // Queue every checked recording, in list order
+  const handleAnalyzeChecked = () => {
+    enqueueRecordings(recordings.filter(recording => checkedIds.includes(recording.id)));
+    setCheckedIds([]);
+  };
+
+  const handleToggleChecked = (recordingId: string) => {
+    setCheckedIds(prev => (prev.includes(recordingId)
+      ? prev.filter(id => id !== recordingId)
+      : [...prev, recordingId]));
+  };
+
+  const handleToggleAllChecked = () => {
+    setCheckedIds(prev => (prev.length === recordings.length ? [] : recordings.map(recording => recording.id)));
+  };
+
+  // Put a failed or cancelled run back in the queue
+  const handleRetryJob = (job: AnalysisJob) => {
+    updateJob(job.id, { status: 'queued', progress: null, error: undefined });
+  };
+
+  const handleRetryFailedJobs = () => {
+    setJobs(prev => prev.map(job => (job.status === 'failed'
+      ? { ...job, status: 'queued', progress: null, error: undefined }
+      : job)));
+  };
+
+  // Cancel a run, or take it out of the queue if it hasn't started
+  const handleCancelJob = (job: AnalysisJob) => {
+    if (job.status === 'running') {
+      abortControllers.current.get(job.id)?.abort();
+    } else if (job.status === 'queued') {
+      updateJob(job.id, { status: 'cancelled', audioBuffer: null });
+    }
+  };
+
+  const handleClearFinishedJobs = () => {
+    setJobs(prev => prev.filter(isActiveJob));
+  };
+
+  const selectedJob = selectedRecording
+    ? jobs.find(job => job.recordingId === selectedRecording.id && isActiveJob(job))
+    : undefined;
+  const isAnalyzing = selectedJob !== undefined;
+  const jobCounts = {
+    done: jobs.filter(job => job.status === 'done').length,
+    failed: jobs.filter(job => job.status === 'failed').length,
+    active: jobs.filter(isActiveJob).length,
+  };
+
+  // Store a manually chosen Sa (or clear it to go back to auto-detection)
+  const handleTonicChange = async (tonicHz: number | undefined) => {
+    if (!selectedRecording) return;
+
+    try {
+      const updated = await updateRecording(selectedRecording.id, { tonicHz });
+      if (updated) {
+        setSelectedRecording(updated);
+        setRecordings(prev => prev.map(rec => (rec.id === updated.id ? updated : rec)));
+      }
+    } catch (error) {
+      console.error('Error saving tonic:', error);
+      setError('Failed to save the tonic. Please try again.');
     }
   };
 
@@ -118,9 +348,11 @@ const Analyzer: React.FC = () => {
         // Reset the selected recording and analysis results if the deleted recording was the selected one
         if (selectedRecording?.id === recordingId) {
           setSelectedRecording(null);
-          setAnalysisResults(null);
+          setViewedAnalysis(null);
         }
 
+        setCheckedIds(prev => prev.filter(id => id !== recordingId));
+
         // Reload the list of recordings
         await loadRecordings();
       } catch (error) {
@@ -132,9 +364,9 @@ const Analyzer: React.FC = () => {
 
   // Download the analysis results as a JSON file
   const handleDownloadResults = () => {
-    if (!analysisResults || !selectedRecording) return;
+    if (!viewedAnalysis || !selectedRecording) return;
 
-    const resultsJson = JSON.stringify(analysisResults, null, 2);
+    const resultsJson = JSON.stringify(viewedAnalysis, null, 2);
     const blob = new Blob([resultsJson], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
 
@@ -174,7 +406,23 @@ const Analyzer: React.FC = () => {
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {/* Recordings List */}
         <div className="md:col-span-1 bg-amber-50 rounded-xl p-4 h-96 overflow-y-auto shadow-inner">
-          <h3 className="font-semibold text-amber-900 mb-3">Your Recordings</h3>
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="font-semibold text-amber-900">Your Recordings</h3>
+            <button
+              onClick={handleToggleAllChecked}
+              className="text-xs text-amber-700 hover:text-amber-900 underline"
+            >
+              {checkedIds.length === recordings.length ? 'Select none' : 'Select all'}
+            </button>
+          </div>
+          {checkedIds.length > 0 && (
+            <button
+              onClick={handleAnalyzeChecked}
+              className="w-full mb-3 bg-amber-500 hover:bg-amber-600 text-white text-sm font-medium py-2 px-4 rounded-lg shadow-md transition-all duration-300"
+            >
+              Analyze {checkedIds.length} selected
+            </button>
+          )}
           <div className="space-y-2">
             {recordings.map((recording) => (
               <div
@@ -185,12 +433,23 @@ const Analyzer: React.FC = () => {
                 onClick={() => handleSelectRecording(recording)}
               >
                 <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={checkedIds.includes(recording.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => handleToggleChecked(recording.id)}
+                    className="mr-2 accent-amber-500"
+                    aria-label={`Select ${recording.name} for batch analysis`}
+                  />
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-amber-600 mr-2" viewBox="0 0 20 20" fill="currentColor">
                     <path fillRule="evenodd" d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 006 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" clipRule="evenodd" />
                   </svg>
                   <div>
                     <div className="font-medium text-amber-900 truncate max-w-[180px]">{recording.name}</div>
-                    <div className="text-xs text-amber-700/70">{recording.date}</div>
+                    <div className="text-xs text-amber-700/70">
+                      {recording.date}
+                      {recording.analysisResults && <span className="ml-1 text-green-600">· analyzed</span>}
+                    </div>
                   </div>
                 </div>
                 <button
@@ -215,35 +474,176 @@ const Analyzer: React.FC = () => {
               <>
                 {/* Recording Info */}
                 <div className="text-lg text-amber-700">{selectedRecording.name}</div>
-                <div className="text-sm text-amber-600 mb-4">{selectedRecording.date}</div>
+                <div className="text-sm text-amber-600">{selectedRecording.date}</div>
+                <div className="mb-4">
+                  <TonicSelector
+                    tonicHz={selectedRecording.tonicHz}
+                    onChange={handleTonicChange}
+                    disabled={isAnalyzing}
+                  />
+                </div>
+                {selectedRecording.url && (
+                  <div className="space-y-3">
+                    <audio ref={audioRef} src={selectedRecording.url} controls className="w-full" />
+                    {audioBuffer && (
+                      <AudioViewer
+                        audioBuffer={audioBuffer}
+                        audioRef={audioRef}
+                        ornaments={viewedAnalysis?.result.ornaments?.events}
+                      />
+                    )}
+                  </div>
+                )}
                 <div className="flex space-x-4">
                   <button
                     onClick={handleAnalyze}
                     disabled={isAnalyzing}
                     className="bg-amber-500 text-white py-2 px-6 rounded-lg shadow-md hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    {isAnalyzing ? 'Analyzing...' : 'Analyze'}
+                    {selectedJob?.status === 'running' ? 'Analyzing...' : selectedJob ? 'Queued' : jobCounts.active > 0 ? 'Add to Queue' : selectedRecording.analysisResults ? 'Re-analyze' : 'Analyze'}
                   </button>
                   <button
                     onClick={handleDownloadResults}
-                    disabled={!analysisResults}
+                    disabled={!viewedAnalysis}
                     className="bg-amber-600 text-white py-2 px-6 rounded-lg shadow-md hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     Download Results
                   </button>
                 </div>
+                {provider && (
+                  <div className="text-xs text-amber-700">
+                    Analysis runs: {provider.name} ·{' '}
+                    <Link href="/settings" className="underline hover:text-amber-900">change</Link>
+                  </div>
+                )}
               </>
             ) : (
               <div className="text-center text-amber-600">Select a recording to analyze</div>
             )}
+            {/* Analysis queue */}
+            {jobs.length > 0 && (
+              <div className="bg-white rounded-lg p-4 shadow-sm">
+                <div className="flex justify-between items-center mb-2">
+                  <div>
+                    <h4 className="font-semibold text-amber-900">Analysis Queue</h4>
+                    <div className="text-xs text-amber-700">
+                      {jobCounts.done} of {jobs.length} done
+                      {jobCounts.failed > 0 && ` · ${jobCounts.failed} failed`}
+                      {jobCounts.active > 0 && ` · ${jobCounts.active} to go`}
+                    </div>
+                  </div>
+                  <div className="space-x-3">
+                    {jobCounts.failed > 0 && (
+                      <button
+                        onClick={handleRetryFailedJobs}
+                        className="text-xs text-amber-700 hover:text-amber-900 underline"
+                      >
+                        Retry failed
+                      </button>
+                    )}
+                    <button
+                      onClick={handleClearFinishedJobs}
+                      className="text-xs text-amber-700 hover:text-amber-900 underline"
+                    >
+                      Clear finished
+                    </button>
+                  </div>
+                </div>
+                <ul className="space-y-3 max-h-72 overflow-y-auto">
+                  {jobs.map(job => (
+                    <li key={job.id}>
+                      <div className="flex justify-between items-center text-sm">
+                        <span className="text-amber-900 truncate mr-2">{job.name}</span>
+                        <span className="flex items-center space-x-2 flex-shrink-0">
+                          <span className={job.status === 'failed' ? 'text-red-500' : job.status === 'done' ? 'text-green-600' : 'text-amber-600'}>
+                            {job.status === 'running' && job.progress
+                              ? `${STAGE_LABELS[job.progress.stage]} (${Math.round(job.progress.fraction * 100)}%)`
+                              : { queued: 'Waiting', running: 'Starting', done: 'Done', failed: 'Failed', cancelled: 'Cancelled' }[job.status]}
+                          </span>
+                          {isActiveJob(job) && (
+                            <button
+                              onClick={() => handleCancelJob(job)}
+                              className="text-xs text-amber-500 hover:text-red-500"
+                            >
+                              Cancel
+                            </button>
+                          )}
+                          {(job.status === 'failed' || job.status === 'cancelled') && (
+                            <button
+                              onClick={() => handleRetryJob(job)}
+                              className="text-xs text-amber-600 hover:text-amber-900"
+                            >
+                              Retry
+                            </button>
+                          )}
+                        </span>
+                      </div>
+                      {job.status === 'running' && (
+                        <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                          <div
+                            className="bg-amber-500 h-1.5 rounded-full transition-all duration-200"
+                            style={{ width: `${Math.round((job.progress?.fraction ?? 0) * 100)}%` }}
+                          ></div>
+                        </div>
+                      )}
+                      {job.status === 'failed' && job.error && (
+                        <div className="text-xs text-red-500 mt-1">{job.error}</div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             {/* Display error */}
             {error && <div className="text-red-500 text-center mt-4">{error}</div>}
             {/* Display results if available */}
-            {analysisResults && (
-              <EmotionResultCard
-                results={analysisResults}
-                recordingName={selectedRecording?.name || ''}
-              />
+            {selectedRecording && viewedAnalysis && (
+              <div className="space-y-2">
+                <div className="flex flex-wrap justify-between items-center gap-2 text-xs text-amber-700">
+                  <span>
+                    {viewedAnalysis.analyzedAt
+                      ? `Analyzed ${new Date(viewedAnalysis.analyzedAt).toLocaleString()}`
+                      : 'Analyzed before results were dated'}
+                    {viewedAnalysis.provider && ` ${PROVIDER_LABELS[viewedAnalysis.provider]}`}
+                    {viewedAnalysis.analyzerVersion > 0 && ` · analyzer v${viewedAnalysis.analyzerVersion}`}
+                  </span>
+                  {selectedRecording.analysisHistory && selectedRecording.analysisHistory.length > 0 && (
+                    <label className="flex items-center">
+                      <span className="mr-2">Show</span>
+                      <select
+                        value={analysisKey(viewedAnalysis) === analysisKey(selectedRecording.analysisResults)
+                          ? LATEST_ANALYSIS
+                          : analysisKey(viewedAnalysis)}
+                        onChange={(e) => {
+                          const key = e.target.value;
+                          setViewedAnalysis(key === LATEST_ANALYSIS
+                            ? selectedRecording.analysisResults ?? null
+                            : selectedRecording.analysisHistory?.find(analysis => analysisKey(analysis) === key) ?? null);
+                        }}
+                        className="p-1 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                      >
+                        <option value={LATEST_ANALYSIS}>Latest results</option>
+                        {selectedRecording.analysisHistory.map(analysis => (
+                          <option key={analysisKey(analysis)} value={analysisKey(analysis)}>
+                            {analysis.analyzedAt ? new Date(analysis.analyzedAt).toLocaleString() : 'Undated results'}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
+                {viewedAnalysis.analyzerVersion < ANALYZER_VERSION && (
+                  <div className="text-xs text-amber-700 bg-amber-100 rounded-md p-2">
+                    These results came from an older version of the analyzer. Re-analyze to bring them up to date.
+                  </div>
+                )}
+                {viewedAnalysis.compacted && (
+                  <div className="text-xs text-amber-700 bg-amber-100 rounded-md p-2">
+                    Only the summary of earlier analyses is kept; charts and per-note details are saved for the latest one.
+                  </div>
+                )}
+                <EmotionResultCard analysisResults={viewedAnalysis.result} title={selectedRecording.name} />
+              </div>
             )}
           </div>
         </div>
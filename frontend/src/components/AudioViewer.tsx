@@ -0,0 +1,361 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { computeSpectrogram, getMonoSamples, trackPitch } from '../utils/audioUtils';
+import { Ornament, OrnamentKind, ORNAMENT_KINDS, ORNAMENT_LABELS } from '../utils/ornaments';
+
+interface AudioViewerProps {
+  audioBuffer: AudioBuffer;                               // decoded with getAudioBuffer
+  audioRef: React.RefObject<HTMLAudioElement | null>;     // player to follow and seek
+  ornaments?: Ornament[];                                 // marked along the pitch contour
+}
+
+// Canvas size in device-independent pixels; CSS stretches it to the container width
+const CANVAS_WIDTH = 800;
+const WAVEFORM_HEIGHT = 80;
+const SPECTROGRAM_HEIGHT = 160;
+
+// Frequency range of the spectrogram and pitch lane, on a log scale
+const MIN_FREQ = 50;
+const MAX_FREQ = 5000;
+const FREQ_LABELS = [100, 200, 500, 1000, 2000];
+
+// Level range mapped onto the spectrogram colours (dBFS)
+const FLOOR_DB = -90;
+const CEILING_DB = -20;
+
+// Shortest stretch of audio the view can zoom in to, in seconds
+const MIN_VIEW_SECONDS = 0.5;
+
+// Marker colours: violet-600, rose-600, emerald-600, pink-500
+const ORNAMENT_COLOURS: Record<OrnamentKind, string> = {
+  vibrato: '#7c3aed',
+  gamak: '#e11d48',
+  meend: '#059669',
+  kan: '#ec4899',
+};
+
+// Shared default, so the canvas isn't redrawn on every render for want of ornaments
+const NO_ORNAMENTS: Ornament[] = [];
+
+// Low to high level: amber-50, amber-500, amber-900
+const COLOUR_STOPS = [
+  [255, 251, 235],
+  [245, 158, 11],
+  [120, 53, 15],
+];
+
+const levelColour = (db: number): [number, number, number] => {
+  const t = Math.max(0, Math.min(1, (db - FLOOR_DB) / (CEILING_DB - FLOOR_DB))) * (COLOUR_STOPS.length - 1);
+  const i = Math.min(Math.floor(t), COLOUR_STOPS.length - 2);
+  const f = t - i;
+  return [0, 1, 2].map(c => Math.round(COLOUR_STOPS[i][c] + (COLOUR_STOPS[i + 1][c] - COLOUR_STOPS[i][c]) * f)) as [number, number, number];
+};
+
+// Vertical position in the spectrogram lane (0 at the top) for a frequency
+const freqToY = (hz: number): number => {
+  const t = Math.log(hz / MIN_FREQ) / Math.log(MAX_FREQ / MIN_FREQ);
+  return WAVEFORM_HEIGHT + (1 - t) * SPECTROGRAM_HEIGHT;
+};
+
+const AudioViewer: React.FC<AudioViewerProps> = ({ audioBuffer, audioRef, ornaments = NO_ORNAMENTS }) => {
+  const [zoom, setZoom] = useState(1);
+  const [viewStart, setViewStart] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [showWaveform, setShowWaveform] = useState(true);
+  const [showSpectrogram, setShowSpectrogram] = useState(true);
+  const [showPitch, setShowPitch] = useState(true);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const duration = audioBuffer.duration;
+  const viewDuration = duration / zoom;
+  const maxZoom = Math.max(1, duration / MIN_VIEW_SECONDS);
+
+  const samples = useMemo(() => getMonoSamples(audioBuffer), [audioBuffer]);
+  const pitchTrack = useMemo(() => (showPitch ? trackPitch(audioBuffer) : null), [audioBuffer, showPitch]);
+
+  // Render the whole spectrogram once into an offscreen image; drawing a
+  // zoomed view is then a single scaled copy
+  const spectrogramImage = useMemo(() => {
+    if (!showSpectrogram) return null;
+
+    const { frames, frameInterval, binHz } = computeSpectrogram(audioBuffer);
+    if (frames.length === 0) return null;
+
+    const image = document.createElement('canvas');
+    image.width = frames.length;
+    image.height = SPECTROGRAM_HEIGHT;
+    const context = image.getContext('2d');
+    if (!context) return null;
+
+    // Map each image row to the frequency bin it shows
+    const rowBins = Array.from({ length: SPECTROGRAM_HEIGHT }, (_, row) => {
+      const t = 1 - row / (SPECTROGRAM_HEIGHT - 1);
+      const hz = MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, t);
+      return Math.min(frames[0].length - 1, Math.round(hz / binHz));
+    });
+
+    const pixels = context.createImageData(image.width, image.height);
+    frames.forEach((frame, x) => {
+      rowBins.forEach((bin, y) => {
+        const [r, g, b] = levelColour(frame[bin]);
+        const offset = (y * image.width + x) * 4;
+        pixels.data[offset] = r;
+        pixels.data[offset + 1] = g;
+        pixels.data[offset + 2] = b;
+        pixels.data[offset + 3] = 255;
+      });
+    });
+    context.putImageData(pixels, 0, 0);
+
+    return { image, frameInterval };
+  }, [audioBuffer, showSpectrogram]);
+
+  // Start from the whole recording whenever a new one is shown
+  useEffect(() => {
+    setZoom(1);
+    setViewStart(0);
+    setCurrentTime(0);
+  }, [audioBuffer]);
+
+  // Follow the player: events for seeks and pauses, animation frames while playing
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    let frame: number | null = null;
+    const tick = () => {
+      setCurrentTime(audio.currentTime);
+      frame = audio.paused ? null : requestAnimationFrame(tick);
+    };
+    const sync = () => {
+      if (frame === null) tick();
+    };
+
+    audio.addEventListener('play', sync);
+    audio.addEventListener('seeked', sync);
+    audio.addEventListener('timeupdate', sync);
+    sync();
+
+    return () => {
+      audio.removeEventListener('play', sync);
+      audio.removeEventListener('seeked', sync);
+      audio.removeEventListener('timeupdate', sync);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [audioRef, audioBuffer]);
+
+  // Page the view along when playback runs off its edge
+  useEffect(() => {
+    if (zoom > 1 && (currentTime > viewStart + viewDuration || currentTime < viewStart)) {
+      setViewStart(Math.max(0, Math.min(duration - viewDuration, currentTime)));
+    }
+  }, [currentTime, zoom, viewStart, viewDuration, duration]);
+
+  // Draw the layers for the visible stretch
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const height = WAVEFORM_HEIGHT + SPECTROGRAM_HEIGHT;
+    context.clearRect(0, 0, CANVAS_WIDTH, height);
+    context.fillStyle = '#fffbeb';
+    context.fillRect(0, 0, CANVAS_WIDTH, height);
+
+    // Waveform: the sample range under each pixel column, drawn as a vertical bar
+    if (showWaveform) {
+      const samplesPerPixel = (viewDuration * audioBuffer.sampleRate) / CANVAS_WIDTH;
+      const firstSample = viewStart * audioBuffer.sampleRate;
+      const middle = WAVEFORM_HEIGHT / 2;
+
+      context.fillStyle = '#d97706';
+      for (let x = 0; x < CANVAS_WIDTH; x++) {
+        const from = Math.floor(firstSample + x * samplesPerPixel);
+        const to = Math.min(samples.length, Math.max(from + 1, Math.floor(firstSample + (x + 1) * samplesPerPixel)));
+        let min = 0;
+        let max = 0;
+        for (let i = from; i < to; i++) {
+          if (samples[i] < min) min = samples[i];
+          if (samples[i] > max) max = samples[i];
+        }
+        context.fillRect(x, middle - max * middle, 1, Math.max(1, (max - min) * middle));
+      }
+    }
+
+    context.fillStyle = '#fcd34d';
+    context.fillRect(0, WAVEFORM_HEIGHT - 1, CANVAS_WIDTH, 1);
+
+    if (showSpectrogram && spectrogramImage) {
+      const { image, frameInterval } = spectrogramImage;
+      context.drawImage(
+        image,
+        viewStart / frameInterval, 0, viewDuration / frameInterval, SPECTROGRAM_HEIGHT,
+        0, WAVEFORM_HEIGHT, CANVAS_WIDTH, SPECTROGRAM_HEIGHT
+      );
+    }
+
+    // Ornaments: a shaded band over the pitch lane with the ornament's initial at the top
+    if (showPitch) {
+      context.font = 'bold 10px sans-serif';
+      ornaments.forEach(ornament => {
+        if (ornament.end < viewStart || ornament.start > viewStart + viewDuration) return;
+        const x = ((ornament.start - viewStart) / viewDuration) * CANVAS_WIDTH;
+        const width = Math.max(2, ((ornament.end - ornament.start) / viewDuration) * CANVAS_WIDTH);
+        context.globalAlpha = 0.2;
+        context.fillStyle = ORNAMENT_COLOURS[ornament.kind];
+        context.fillRect(x, WAVEFORM_HEIGHT, width, SPECTROGRAM_HEIGHT);
+        context.globalAlpha = 1;
+        context.fillRect(x, WAVEFORM_HEIGHT, width, 3);
+        context.fillText(ORNAMENT_LABELS[ornament.kind][0], x + 1, WAVEFORM_HEIGHT + 14);
+      });
+    }
+
+    // Pitch contour, broken wherever the track is unvoiced
+    if (showPitch && pitchTrack) {
+      context.strokeStyle = '#0284c7';
+      context.lineWidth = 2;
+      context.beginPath();
+      let drawing = false;
+      pitchTrack.forEach(frame => {
+        const inView = frame.time >= viewStart && frame.time <= viewStart + viewDuration;
+        if (!inView || frame.f0 < MIN_FREQ || frame.f0 > MAX_FREQ) {
+          drawing = false;
+          return;
+        }
+        const x = ((frame.time - viewStart) / viewDuration) * CANVAS_WIDTH;
+        const y = freqToY(frame.f0);
+        if (drawing) {
+          context.lineTo(x, y);
+        } else {
+          context.moveTo(x, y);
+          drawing = true;
+        }
+      });
+      context.stroke();
+    }
+
+    // Frequency scale
+    context.fillStyle = '#92400e';
+    context.font = '10px sans-serif';
+    FREQ_LABELS.forEach(hz => {
+      context.fillText(hz >= 1000 ? `${hz / 1000}k` : String(hz), 2, freqToY(hz) + 3);
+    });
+  }, [audioBuffer, samples, spectrogramImage, pitchTrack, ornaments, showWaveform, showSpectrogram, showPitch, viewStart, viewDuration]);
+
+  // Zoom around the playhead when it's on screen, otherwise around the middle of the view
+  const changeZoom = (factor: number) => {
+    const newZoom = Math.max(1, Math.min(maxZoom, zoom * factor));
+    const newDuration = duration / newZoom;
+    const playheadVisible = currentTime >= viewStart && currentTime <= viewStart + viewDuration;
+    const centre = playheadVisible ? currentTime : viewStart + viewDuration / 2;
+    setZoom(newZoom);
+    setViewStart(Math.max(0, Math.min(duration - newDuration, centre - newDuration / 2)));
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = viewStart + ((e.clientX - rect.left) / rect.width) * viewDuration;
+    audio.currentTime = Math.max(0, Math.min(duration, time));
+    setCurrentTime(audio.currentTime);
+  };
+
+  const playheadPosition = (currentTime - viewStart) / viewDuration;
+
+  return (
+    <div className="bg-white rounded-lg p-3 shadow-sm">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2 text-sm text-amber-800">
+        <div className="flex gap-3">
+          <label className="flex items-center">
+            <input type="checkbox" checked={showWaveform} onChange={(e) => setShowWaveform(e.target.checked)} className="mr-1 accent-amber-500" />
+            Waveform
+          </label>
+          <label className="flex items-center">
+            <input type="checkbox" checked={showSpectrogram} onChange={(e) => setShowSpectrogram(e.target.checked)} className="mr-1 accent-amber-500" />
+            Spectrogram
+          </label>
+          <label className="flex items-center">
+            <input type="checkbox" checked={showPitch} onChange={(e) => setShowPitch(e.target.checked)} className="mr-1 accent-sky-600" />
+            Pitch
+          </label>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => changeZoom(0.5)}
+            disabled={zoom <= 1}
+            className="px-2 py-0.5 bg-amber-100 rounded hover:bg-amber-200 disabled:opacity-50"
+            aria-label="Zoom out"
+          >
+            −
+          </button>
+          <button
+            onClick={() => changeZoom(2)}
+            disabled={zoom >= maxZoom}
+            className="px-2 py-0.5 bg-amber-100 rounded hover:bg-amber-200 disabled:opacity-50"
+            aria-label="Zoom in"
+          >
+            +
+          </button>
+          <button
+            onClick={() => {
+              setZoom(1);
+              setViewStart(0);
+            }}
+            disabled={zoom <= 1}
+            className="px-2 py-0.5 bg-amber-100 rounded hover:bg-amber-200 disabled:opacity-50"
+          >
+            Fit
+          </button>
+        </div>
+      </div>
+
+      <div className="relative cursor-crosshair" onClick={handleClick}>
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={WAVEFORM_HEIGHT + SPECTROGRAM_HEIGHT}
+          className="w-full h-60 rounded block"
+        />
+        {playheadPosition >= 0 && playheadPosition <= 1 && (
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-red-500 pointer-events-none"
+            style={{ left: `${playheadPosition * 100}%` }}
+          />
+        )}
+      </div>
+
+      {showPitch && ornaments.length > 0 && (
+        <div className="flex flex-wrap gap-3 mt-2 text-xs text-amber-800">
+          {ORNAMENT_KINDS.map(kind => {
+            const count = ornaments.filter(ornament => ornament.kind === kind).length;
+            return count > 0 && (
+              <span key={kind} className="flex items-center">
+                <span className="inline-block w-2.5 h-2.5 rounded-sm mr-1" style={{ backgroundColor: ORNAMENT_COLOURS[kind] }} />
+                {ORNAMENT_LABELS[kind]} ({count})
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 mt-2 text-xs text-amber-700">
+        <span>{viewStart.toFixed(1)}s</span>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, duration - viewDuration)}
+          step={0.01}
+          value={viewStart}
+          onChange={(e) => setViewStart(Number(e.target.value))}
+          disabled={zoom <= 1}
+          className="flex-1 accent-amber-500"
+          aria-label="Scroll view"
+        />
+        <span>{(viewStart + viewDuration).toFixed(1)}s</span>
+      </div>
+    </div>
+  );
+};
+
+export default AudioViewer;
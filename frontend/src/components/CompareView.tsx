@@ -0,0 +1,287 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PitchFrame } from '../utils/audioUtils';
+import { AudioAnalysisResult } from '../utils/emotionDetector';
+import {
+  TakeComparison,
+  compareTakes,
+  mapAlignedTime,
+  alignedPlaybackRate,
+  diffAnalysisResults,
+} from '../utils/takeComparison';
+import { Recording } from '../utils/storage';
+
+interface CompareTake {
+  recording: Recording;
+  audioBuffer: AudioBuffer;
+  result: AudioAnalysisResult | null; // saved analysis, if the take has one
+}
+
+interface CompareViewProps {
+  takeA: CompareTake;
+  takeB: CompareTake;
+}
+
+const WIDTH = 800;
+const HEIGHT = 200;
+
+// Take B is nudged back into step when it drifts further than this from take A
+const MAX_DRIFT_SECONDS = 0.15;
+
+// Take B's playback rate is kept within what browsers play without artefacts
+const MIN_PLAYBACK_RATE = 0.5;
+const MAX_PLAYBACK_RATE = 2;
+
+const TAKE_COLORS = { a: '#d97706', b: '#0284c7' };
+
+const hzToSemitones = (hz: number) => 12 * Math.log2(hz / 55);
+
+/**
+ * Split a pitch track into polylines, breaking at unvoiced frames
+ * @param toX Horizontal position of a frame
+ */
+const contourSegments = (
+  track: PitchFrame[],
+  toX: (time: number) => number,
+  toY: (semitones: number) => number
+): string[] => {
+  const segments: string[] = [];
+  let current: string[] = [];
+  for (const frame of track) {
+    if (frame.f0 > 0) {
+      current.push(`${toX(frame.time).toFixed(1)},${toY(hzToSemitones(frame.f0)).toFixed(1)}`);
+    } else if (current.length > 0) {
+      if (current.length > 1) segments.push(current.join(' '));
+      current = [];
+    }
+  }
+  if (current.length > 1) segments.push(current.join(' '));
+  return segments;
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ takeA, takeB }) => {
+  const [comparison, setComparison] = useState<TakeComparison | null>(null);
+  const [isAligning, setIsAligning] = useState(true);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [muted, setMuted] = useState({ a: false, b: false });
+  const audioARef = useRef<HTMLAudioElement | null>(null);
+  const audioBRef = useRef<HTMLAudioElement | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  // Align the takes once; the first paint shows the progress message
+  useEffect(() => {
+    setComparison(null);
+    setIsAligning(true);
+    const timer = setTimeout(() => {
+      try {
+        setComparison(compareTakes(takeA.audioBuffer, takeB.audioBuffer));
+      } catch (err) {
+        console.error('Failed to align takes:', err);
+      } finally {
+        setIsAligning(false);
+      }
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [takeA.audioBuffer, takeB.audioBuffer]);
+
+  // Keep take B in step with take A while playing
+  useEffect(() => {
+    if (!isPlaying || !comparison) return;
+
+    const tick = () => {
+      const audioA = audioARef.current;
+      const audioB = audioBRef.current;
+      if (audioA && audioB) {
+        const timeA = audioA.currentTime;
+        const targetB = mapAlignedTime(comparison.alignment, timeA);
+        if (Math.abs(audioB.currentTime - targetB) > MAX_DRIFT_SECONDS) {
+          audioB.currentTime = Math.min(targetB, takeB.audioBuffer.duration);
+        }
+        audioB.playbackRate = Math.max(
+          MIN_PLAYBACK_RATE,
+          Math.min(MAX_PLAYBACK_RATE, alignedPlaybackRate(comparison.alignment, timeA))
+        );
+        setCurrentTime(timeA);
+      }
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    };
+  }, [isPlaying, comparison, takeB.audioBuffer.duration]);
+
+  // Stop both players when leaving
+  useEffect(() => {
+    const audioA = audioARef.current;
+    const audioB = audioBRef.current;
+    return () => {
+      audioA?.pause();
+      audioB?.pause();
+    };
+  }, []);
+
+  const seek = (timeA: number) => {
+    const audioA = audioARef.current;
+    const audioB = audioBRef.current;
+    if (!audioA || !audioB || !comparison) return;
+
+    audioA.currentTime = timeA;
+    audioB.currentTime = Math.min(mapAlignedTime(comparison.alignment, timeA), takeB.audioBuffer.duration);
+    setCurrentTime(timeA);
+  };
+
+  const togglePlayback = async () => {
+    const audioA = audioARef.current;
+    const audioB = audioBRef.current;
+    if (!audioA || !audioB || !comparison) return;
+
+    if (isPlaying) {
+      audioA.pause();
+      audioB.pause();
+      setIsPlaying(false);
+      return;
+    }
+
+    if (audioA.ended) seek(0);
+    else seek(audioA.currentTime);
+    try {
+      await Promise.all([audioA.play(), audioB.play()]);
+      setIsPlaying(true);
+    } catch (err) {
+      console.error('Failed to start playback:', err);
+      audioA.pause();
+      audioB.pause();
+    }
+  };
+
+  const handleEnded = () => {
+    audioARef.current?.pause();
+    audioBRef.current?.pause();
+    setIsPlaying(false);
+  };
+
+  const handleChartClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    seek(((e.clientX - rect.left) / rect.width) * takeA.audioBuffer.duration);
+  };
+
+  // Take B is drawn on take A's timeline through the alignment
+  const duration = takeA.audioBuffer.duration || 1;
+  const toX = (time: number) => (time / duration) * WIDTH;
+  let overlay: { a: string[]; b: string[] } | null = null;
+  if (comparison) {
+    const voiced = [...comparison.pitchA, ...comparison.pitchB].filter(frame => frame.f0 > 0);
+    const semitones = voiced.map(frame => hzToSemitones(frame.f0));
+    const low = semitones.length > 0 ? Math.min(...semitones) - 1 : 0;
+    const high = semitones.length > 0 ? Math.max(...semitones) + 1 : 12;
+    const toY = (value: number) => HEIGHT - ((value - low) / Math.max(high - low, 1)) * HEIGHT;
+    const alignment = comparison.alignment;
+
+    overlay = {
+      a: contourSegments(comparison.pitchA, toX, toY),
+      b: contourSegments(comparison.pitchB, time => toX(mapAlignedTime(alignment, time, 'b')), toY),
+    };
+  }
+
+  const diffs = takeA.result && takeB.result ? diffAnalysisResults(takeA.result, takeB.result) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-amber-50 rounded-lg p-4">
+        <div className="flex flex-wrap justify-between items-center gap-3 mb-3">
+          <div className="flex items-center space-x-4 text-sm">
+            {(['a', 'b'] as const).map(key => (
+              <span key={key} className="flex items-center">
+                <span className="inline-block w-4 h-1 mr-2 rounded" style={{ backgroundColor: TAKE_COLORS[key] }}></span>
+                <span className="text-amber-900 truncate max-w-[12rem]">
+                  {(key === 'a' ? takeA : takeB).recording.name}
+                </span>
+                <button
+                  onClick={() => setMuted(prev => ({ ...prev, [key]: !prev[key] }))}
+                  className="ml-2 text-xs text-amber-700 hover:text-amber-900 underline"
+                >
+                  {muted[key] ? 'Unmute' : 'Mute'}
+                </button>
+              </span>
+            ))}
+          </div>
+          <button
+            onClick={togglePlayback}
+            disabled={!comparison}
+            className="bg-amber-500 hover:bg-amber-600 text-white font-medium py-2 px-6 rounded-lg shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPlaying ? 'Pause' : 'Play Both'}
+          </button>
+        </div>
+
+        {isAligning ? (
+          <div className="h-48 flex items-center justify-center text-amber-700">Aligning the takes...</div>
+        ) : overlay ? (
+          <>
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="w-full h-48 bg-white rounded cursor-pointer"
+              preserveAspectRatio="none"
+              onClick={handleChartClick}
+            >
+              {overlay.a.map((points, i) => (
+                <polyline key={`a${i}`} points={points} fill="none" stroke={TAKE_COLORS.a} strokeWidth="2" vectorEffect="non-scaling-stroke" />
+              ))}
+              {overlay.b.map((points, i) => (
+                <polyline key={`b${i}`} points={points} fill="none" stroke={TAKE_COLORS.b} strokeWidth="2" strokeOpacity="0.8" vectorEffect="non-scaling-stroke" />
+              ))}
+              <line x1={toX(currentTime)} y1="0" x2={toX(currentTime)} y2={HEIGHT} stroke="#dc2626" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+            </svg>
+            <div className="flex justify-between text-xs text-amber-700 mt-1">
+              <span>
+                {currentTime.toFixed(1)} s in the first take ·{' '}
+                {comparison && mapAlignedTime(comparison.alignment, currentTime).toFixed(1)} s in the second
+              </span>
+              <span>Match: {comparison ? Math.round((1 - comparison.alignment.averageCost) * 100) : 0}%</span>
+            </div>
+          </>
+        ) : (
+          <div className="h-48 flex items-center justify-center text-red-500">The takes could not be aligned.</div>
+        )}
+
+        <audio ref={audioARef} src={takeA.recording.url} muted={muted.a} onEnded={handleEnded} />
+        <audio ref={audioBRef} src={takeB.recording.url} muted={muted.b} />
+      </div>
+
+      <div className="bg-white rounded-lg p-4 shadow-sm">
+        <h3 className="font-semibold text-amber-900 mb-3">Metric by Metric</h3>
+        {diffs ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-amber-700">
+                <th className="py-1 font-medium">Metric</th>
+                <th className="py-1 font-medium" style={{ color: TAKE_COLORS.a }}>First take</th>
+                <th className="py-1 font-medium" style={{ color: TAKE_COLORS.b }}>Second take</th>
+                <th className="py-1 font-medium">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diffs.map(diff => (
+                <tr key={diff.label} className="border-t border-amber-100 text-amber-900">
+                  <td className="py-1">{diff.label}</td>
+                  <td className={`py-1 ${diff.better === 'a' ? 'font-semibold text-green-600' : ''}`}>{diff.a}</td>
+                  <td className={`py-1 ${diff.better === 'b' ? 'font-semibold text-green-600' : ''}`}>{diff.b}</td>
+                  <td className="py-1 text-amber-700">{diff.delta ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-amber-700">
+            Analyze both takes to compare their metrics.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -1,25 +1,77 @@
 import React from 'react';
-import { AudioAnalysisResult } from '../utils/emotionDetector';
+import { AudioAnalysisResult, formatClock } from '../utils/emotionDetector';
+import { hzToSargamNote, hzToWesternNote, formatSwara } from '../utils/noteNames';
+import { SWARAS } from '../utils/swara';
+import TimingChart from './TimingChart';
+import NoteStrip from './NoteStrip';
+import { PHRASE_ISSUE_LABELS } from '../utils/referenceScoring';
+import { LAYA_LABELS } from '../utils/rasa';
+import { ORNAMENT_KINDS, ORNAMENT_LABELS } from '../utils/ornaments';
+import { FeedbackItem, FeedbackSeverity, FEEDBACK_SEVERITY_LABELS } from '../utils/feedback';
 
 interface EmotionResultCardProps {
   analysisResults: AudioAnalysisResult;  // Expecting 'analysisResults' as the prop
+  title?: string; // name of the analyzed take, for exported files
 }
 
-const EmotionResultCard: React.FC<EmotionResultCardProps> = ({ analysisResults }) => {
+const SEVERITY_STYLES: Record<FeedbackSeverity, string> = {
+  warning: 'bg-red-100 text-red-800',
+  suggestion: 'bg-amber-100 text-amber-800',
+  info: 'bg-green-100 text-green-800',
+};
+
+// Deviation at the top and bottom of the intonation chart, in cents
+const INTONATION_SCALE_CENTS = 50;
+
+// Swaras held further off than this are marked, in cents (as in the sharp/flat feedback rules)
+const OFF_PITCH_CENTS = 15;
+
+// Distance of a deviation from the top of the intonation chart, in percent
+const chartPosition = (cents: number) => 50 - Math.max(-1, Math.min(1, cents / INTONATION_SCALE_CENTS)) * 50;
+
+// Ornaments listed with their times before the rest are summed up
+const MAX_ORNAMENTS_SHOWN = 12;
+
+// Time ranges listed under a feedback item before the rest are summed up
+const MAX_RANGES_SHOWN = 6;
+
+const EmotionResultCard: React.FC<EmotionResultCardProps> = ({ analysisResults, title = 'recording' }) => {
   const { 
     primaryEmotion, 
     emotions, 
+    rasa,
     tempo, 
+    tempoTarget,
+    timing,
     pitch, 
     notes, 
+    reference,
+    transcription,
     dynamics, 
+    tonic,
+    raga,
+    intonation,
+    ornaments,
     summary, 
+    feedback,
     suggestions 
   } = analysisResults;
 
+  // Results saved before the feedback engine only have the messages
+  const feedbackItems: FeedbackItem[] = feedback ?? suggestions.map((message, index) => ({
+    ruleId: `suggestion-${index}`,
+    severity: 'suggestion',
+    message,
+    ranges: [],
+  }));
+
   // Get top 3 emotions
   const topEmotions = emotions.slice(0, 3);
 
+  // Notes are labelled in sargam relative to the take's Sa when one is known
+  const averageNote = tonic && pitch.average > 0 ? hzToSargamNote(pitch.average, tonic.hz).name : null;
+  const histogramPeak = raga ? Math.max(...raga.histogram, 0.001) : 1;
+
   return (
     <div className="bg-white rounded-xl shadow-md overflow-hidden">
       {/* Header with primary emotion */}
@@ -49,7 +101,7 @@ const EmotionResultCard: React.FC<EmotionResultCardProps> = ({ analysisResults }
         <div className="bg-white p-4 rounded-lg shadow-sm">
           <h4 className="font-semibold text-amber-900 mb-3">Emotional Analysis</h4>
           <div className="space-y-3">
-            {topEmotions.map((emotion, index) => (
+            {topEmotions.map((emotion) => (
               <div key={emotion.emotion}>
                 <div className="flex justify-between text-sm mb-1">
                   <span className="text-amber-800">{emotion.emotion}</span>
@@ -73,35 +125,314 @@ const EmotionResultCard: React.FC<EmotionResultCardProps> = ({ analysisResults }
             <div>
               <p className="text-xs text-amber-700">Tempo</p>
               <p className="font-medium text-amber-900">{tempo} BPM</p>
+              {tempoTarget && (
+                <p className="text-xs text-amber-600">
+                  {tempoTarget.playedBpm} vs {tempoTarget.bpm} target
+                  {tempoTarget.taal && ` in ${tempoTarget.taal}`}
+                  {' '}({tempoTarget.deviationPercent > 0 ? '+' : ''}{tempoTarget.deviationPercent}%)
+                </p>
+              )}
             </div>
             <div>
               <p className="text-xs text-amber-700">Note Accuracy</p>
               <p className="font-medium text-amber-900">{notes.accuracyPercentage}%</p>
+              <p className="text-xs text-amber-600">
+                {reference
+                  ? `${notes.correctNotes} of ${notes.totalNotes} reference notes`
+                  : `${notes.correctNotes} of ${notes.totalNotes} notes in tune`}
+              </p>
             </div>
             <div>
               <p className="text-xs text-amber-700">Avg. Pitch</p>
-              <p className="font-medium text-amber-900">{pitch.average} Hz</p>
+              <p className="font-medium text-amber-900">
+                {pitch.average} Hz{averageNote && <span className="text-amber-600 ml-1">({averageNote})</span>}
+              </p>
             </div>
             <div>
               <p className="text-xs text-amber-700">Dynamics</p>
               <p className="font-medium text-amber-900">
-                {dynamics.range.min}-{dynamics.range.max} dB
+                {dynamics ? `${dynamics.range.min} to ${dynamics.range.max} dBFS` : 'Not measured'}
               </p>
             </div>
           </div>
         </div>
       </div>
 
-      {/* Suggestions */}
+      {/* Rasa; results saved before it was added have none */}
+      {rasa && rasa.scores.length > 0 && (
+        <div className="px-6 py-4 border-b border-gray-100">
+          <div className="flex justify-between items-baseline mb-3">
+            <h4 className="font-semibold text-amber-900">Rasa (Navarasa)</h4>
+            {rasa.laya && (
+              <span className="text-xs text-amber-700">
+                {LAYA_LABELS[rasa.laya]} laya · {rasa.layaBpm} BPM
+              </span>
+            )}
+          </div>
+          <div className="space-y-3">
+            {rasa.scores.slice(0, 3).map((score) => (
+              <div key={score.rasa}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-amber-800">
+                    {score.name} <span className="text-amber-600 text-xs">({score.meaning})</span>
+                  </span>
+                  <span className="text-amber-600">{score.score}/100</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-amber-500 h-2 rounded-full"
+                    style={{ width: `${score.score}%` }}
+                  ></div>
+                </div>
+                <ul className="mt-1 text-xs text-amber-700">
+                  {score.contributions.map((contribution) => (
+                    <li key={contribution.source}>
+                      +{Math.round(contribution.points)} · {contribution.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Timing */}
+      {timing && (
+        <div className="px-6 py-4 border-b border-gray-100">
+          <div className="flex justify-between items-baseline mb-3">
+            <h4 className="font-semibold text-amber-900">Timing &amp; Tempo Stability</h4>
+            <span className="text-xs text-amber-700">
+              Stability {timing.stability}/100 · average {timing.meanAbsDeviationMs} ms off the beat
+            </span>
+          </div>
+          <TimingChart timing={timing} targetBpm={tempoTarget?.bpm} />
+        </div>
+      )}
+
+      {/* Reference */}
+      {reference && (
+        <div className="px-6 py-4 border-b border-gray-100">
+          <div className="flex justify-between items-baseline mb-3">
+            <h4 className="font-semibold text-amber-900">Against the Reference</h4>
+            <span className="text-xs text-amber-700">
+              {reference.referenceName} · within ±{reference.tolerances.pitchCents} cents and ±{reference.tolerances.timingMs} ms
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-amber-800 mb-3">
+            <span>{reference.correctNotes} of {reference.totalNotes} notes matched</span>
+            {reference.meanPitchDeviationCents !== null && (
+              <span>
+                Pitch {reference.meanPitchDeviationCents > 0 ? '+' : ''}{reference.meanPitchDeviationCents} cents on average
+              </span>
+            )}
+            {reference.meanTimingDeviationMs !== null && (
+              <span>
+                Timing {reference.meanTimingDeviationMs > 0 ? '+' : ''}{reference.meanTimingDeviationMs} ms on average
+              </span>
+            )}
+          </div>
+          <ul className="space-y-1 text-sm">
+            {reference.phrases.map((phrase, i) => (
+              <li key={i} className="flex justify-between">
+                <span className={phrase.deviated ? 'text-red-500' : 'text-amber-800'}>
+                  Phrase {i + 1} ({phrase.start.toFixed(1)}–{phrase.end.toFixed(1)} s)
+                  {phrase.deviated && phrase.issue && ` · ${PHRASE_ISSUE_LABELS[phrase.issue]}`}
+                </span>
+                <span className="text-amber-700">{phrase.correctNotes}/{phrase.totalNotes}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Transcription; results saved before it was added have none */}
+      {transcription && transcription.length > 0 && (
+        <div className="px-6 py-4 border-b border-gray-100">
+          <h4 className="font-semibold text-amber-900 mb-3">Notes Played</h4>
+          <NoteStrip
+            notes={transcription}
+            tonicHz={tonic ? tonic.hz : null}
+            tempoBpm={tempoTarget ? tempoTarget.bpm : tempo}
+            title={title}
+          />
+        </div>
+      )}
+
+      {/* Raga */}
+      {raga && raga.matches.length > 0 && (
+        <div className="px-6 py-4 border-b border-gray-100">
+          <div className="flex justify-between items-baseline mb-3">
+            <h4 className="font-semibold text-amber-900">Raga Identification</h4>
+            {tonic && (
+              <span className="text-xs text-amber-700">
+                Sa = {hzToWesternNote(tonic.hz).name} ({tonic.hz} Hz,{' '}
+                {tonic.source === 'manual' ? 'set manually' : `detected, ${Math.round(tonic.confidence * 100)}% confidence`})
+              </span>
+            )}
+          </div>
+          <div className="space-y-3">
+            {raga.matches.slice(0, 3).map((match) => (
+              <div key={match.name}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-amber-800">
+                    {match.name} <span className="text-amber-600 text-xs">({match.thaat} thaat)</span>
+                  </span>
+                  <span className="text-amber-600">{Math.round(match.score)}%</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-amber-500 h-2 rounded-full"
+                    style={{ width: `${Math.round(match.score)}%` }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Time spent on each swara */}
+          <div className="flex items-end h-16 mt-4 space-x-1">
+            {SWARAS.map((swara, index) => (
+              <div key={swara} className="flex-1 flex flex-col items-center h-full justify-end">
+                <div
+                  className="w-full bg-amber-400 rounded-t-sm"
+                  style={{ height: `${Math.round((raga.histogram[index] / histogramPeak) * 100)}%` }}
+                  title={`${Math.round(raga.histogram[index] * 100)}% of pitched time`}
+                ></div>
+                <span className="text-xs text-amber-800 mt-1">{formatSwara(swara)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Intonation; results saved before it was added have none */}
+      {intonation && intonation.length > 0 && (
+        <div className="px-6 py-4 border-b border-gray-100">
+          <div className="flex justify-between items-baseline mb-3">
+            <h4 className="font-semibold text-amber-900">Intonation</h4>
+            <span className="text-xs text-amber-600">
+              cents from each swara on steady notes · ±{INTONATION_SCALE_CENTS}¢ scale
+            </span>
+          </div>
+          <div className="relative flex h-32 space-x-1">
+            <div className="absolute inset-x-0 top-1/2 border-t border-amber-300"></div>
+            {SWARAS.map((swara) => {
+              const measured = intonation.find((entry) => entry.swara === swara);
+              if (!measured) return <div key={swara} className="flex-1"></div>;
+
+              const { meanCents, spreadCents } = measured;
+              const offPitch = Math.abs(meanCents) > OFF_PITCH_CENTS;
+              const spreadTop = chartPosition(meanCents + spreadCents);
+              const barHeight = Math.abs(50 - chartPosition(meanCents));
+              return (
+                <div
+                  key={swara}
+                  className="relative flex-1"
+                  title={`${formatSwara(swara)}: ${meanCents > 0 ? '+' : ''}${meanCents}¢ on average, ±${spreadCents}¢ spread, ${measured.seconds}s held`}
+                >
+                  <div
+                    className="absolute inset-x-1/4 bg-amber-100"
+                    style={{ top: `${spreadTop}%`, height: `${chartPosition(meanCents - spreadCents) - spreadTop}%` }}
+                  ></div>
+                  <div
+                    className={`absolute inset-x-0 ${offPitch ? 'bg-red-400' : 'bg-amber-500'} ${meanCents >= 0 ? 'rounded-t-sm' : 'rounded-b-sm'}`}
+                    style={meanCents >= 0
+                      ? { bottom: '50%', height: `${barHeight}%` }
+                      : { top: '50%', height: `${barHeight}%` }}
+                  ></div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex space-x-1 mt-1">
+            {SWARAS.map((swara) => {
+              const measured = intonation.find((entry) => entry.swara === swara);
+              return (
+                <div key={swara} className="flex-1 text-center">
+                  <span className={`block text-xs ${measured ? 'text-amber-800' : 'text-gray-400'}`}>{formatSwara(swara)}</span>
+                  {measured && (
+                    <>
+                      <span className="block text-xs text-amber-600">{measured.meanCents > 0 ? '+' : ''}{Math.round(measured.meanCents)}¢</span>
+                      <span className="block text-xs text-amber-500">{measured.seconds}s</span>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-amber-600 mt-2">
+            Bars above the line are sharp, below are flat; the pale band shows the spread. Swaras more than {OFF_PITCH_CENTS}¢ off are in red.
+          </p>
+        </div>
+      )}
+
+      {/* Ornaments; results saved before they were detected have none */}
+      {ornaments && (
+        <div className="px-6 py-4 border-b border-gray-100">
+          <div className="flex justify-between items-baseline mb-3">
+            <h4 className="font-semibold text-amber-900">Ornaments</h4>
+            {ornaments.vibrato && (
+              <span className="text-xs text-amber-600">
+                vibrato {ornaments.vibrato.rateHz} Hz, ±{ornaments.vibrato.extentCents}¢
+              </span>
+            )}
+          </div>
+          <div className="grid grid-cols-4 gap-3 text-center">
+            {ORNAMENT_KINDS.map((kind) => (
+              <div key={kind} className="bg-amber-50 rounded-lg p-2">
+                <p className="font-medium text-amber-900">{ornaments.counts[kind]}</p>
+                <p className="text-xs text-amber-700">{ORNAMENT_LABELS[kind]}</p>
+              </div>
+            ))}
+          </div>
+          {ornaments.events.length > 0 ? (
+            <div className="flex flex-wrap gap-1 mt-3">
+              {ornaments.events.slice(0, MAX_ORNAMENTS_SHOWN).map((ornament) => (
+                <span
+                  key={`${ornament.kind}-${ornament.start}`}
+                  className="text-xs bg-amber-50 text-amber-800 border border-amber-200 rounded px-1.5"
+                  title={ornament.rateHz > 0
+                    ? `${ornament.rateHz} Hz, ±${ornament.extentCents}¢`
+                    : `${ornament.extentCents > 0 ? '+' : ''}${ornament.extentCents}¢`}
+                >
+                  {formatClock(ornament.start)} {ORNAMENT_LABELS[ornament.kind]} · {ornament.label}
+                </span>
+              ))}
+              {ornaments.events.length > MAX_ORNAMENTS_SHOWN && (
+                <span className="text-xs text-amber-600">+{ornaments.events.length - MAX_ORNAMENTS_SHOWN} more</span>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-amber-600 mt-3">No ornaments were found; the notes were held plainly.</p>
+          )}
+        </div>
+      )}
+
+      {/* Feedback */}
       <div className="px-6 py-4">
         <h4 className="font-semibold text-amber-900 mb-2">Suggestions for Improvement</h4>
         <ul className="space-y-2">
-          {suggestions.map((suggestion, index) => (
-            <li key={index} className="flex items-start">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-amber-500 mr-2 mt-0.5 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
-              </svg>
-              <span className="text-amber-800">{suggestion}</span>
+          {feedbackItems.map((item, index) => (
+            <li key={`${item.ruleId}-${index}`} className="flex items-start">
+              <span className={`text-xs font-medium px-2 py-0.5 rounded mr-2 mt-0.5 flex-shrink-0 ${SEVERITY_STYLES[item.severity]}`}>
+                {FEEDBACK_SEVERITY_LABELS[item.severity]}
+              </span>
+              <div>
+                <span className="text-amber-800">{item.message}</span>
+                {item.ranges.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {item.ranges.slice(0, MAX_RANGES_SHOWN).map((range) => (
+                      <span key={range.start} className="text-xs bg-amber-50 text-amber-700 border border-amber-200 rounded px-1.5">
+                        {formatClock(range.start)}–{formatClock(range.end)}
+                      </span>
+                    ))}
+                    {item.ranges.length > MAX_RANGES_SHOWN && (
+                      <span className="text-xs text-amber-600">+{item.ranges.length - MAX_RANGES_SHOWN} more</span>
+                    )}
+                  </div>
+                )}
+              </div>
             </li>
           ))}
         </ul>
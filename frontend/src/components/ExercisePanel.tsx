@@ -0,0 +1,179 @@
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import {
+  Exercise,
+  ExerciseScore,
+  EXERCISE_KIND_LABELS,
+  parseExerciseNotes,
+  getCountInBeats,
+  getExerciseBeats,
+  getNoteIndexAtBeat,
+  expectedNoteHz,
+} from '../utils/exercises';
+import { getRhythmCycle } from '../utils/taal';
+
+interface ExercisePanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  exercises: Exercise[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  elapsedSeconds: number | null; // time since the take started, null when not recording
+  tonicHz: number;               // the tanpura's Sa, for sargam exercises
+  score: ExerciseScore | null;   // score of the last take
+  isScoring: boolean;
+}
+
+// How many notes after the current one are shown as a look-ahead
+const UPCOMING_NOTES = 4;
+
+const ExercisePanel: React.FC<ExercisePanelProps> = ({
+  enabled,
+  onEnabledChange,
+  exercises,
+  selectedId,
+  onSelect,
+  elapsedSeconds,
+  tonicHz,
+  score,
+  isScoring,
+}) => {
+  const exercise = exercises.find(ex => ex.id === selectedId) || null;
+  const notes = useMemo(() => (exercise ? parseExerciseNotes(exercise) : []), [exercise]);
+  const isRecording = elapsedSeconds !== null;
+
+  // Where the take is in the exercise, in beats; negative during the count-in
+  const beat = exercise && elapsedSeconds !== null
+    ? (elapsedSeconds * exercise.tempoBpm) / 60 - getCountInBeats(exercise)
+    : null;
+  const currentIndex = beat !== null ? getNoteIndexAtBeat(notes, beat) : -1;
+  const nextIndex = beat !== null ? notes.findIndex(note => note.startBeat > beat) : 0;
+  const current = currentIndex >= 0 ? notes[currentIndex] : null;
+  const upcoming = nextIndex >= 0 ? notes.slice(nextIndex, nextIndex + UPCOMING_NOTES) : [];
+  const finished = exercise !== null && beat !== null && beat >= getExerciseBeats(exercise);
+
+  let status = '';
+  if (beat !== null && beat < 0) {
+    status = `Starts in ${Math.ceil(-beat)}...`;
+  } else if (finished) {
+    status = 'Finished: stop recording to see your score';
+  } else if (beat !== null && !current) {
+    status = 'Rest';
+  }
+
+  return (
+    <div className="bg-amber-50 rounded-lg p-4">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-amber-800">Exercise</h3>
+        <label className="flex items-center text-sm text-amber-800">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            disabled={isRecording}
+            className="mr-2 accent-amber-500"
+          />
+          Play along with an exercise
+        </label>
+      </div>
+
+      {enabled && (
+        <>
+          <div className="flex flex-wrap items-end gap-3 text-sm text-amber-800 mb-4">
+            <label className="flex flex-col flex-1 min-w-[12rem]">
+              <span className="mb-1">Exercise</span>
+              <select
+                value={selectedId}
+                onChange={(e) => onSelect(e.target.value)}
+                disabled={isRecording}
+                className="p-1 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+              >
+                {exercises.map(ex => (
+                  <option key={ex.id} value={ex.id}>
+                    {EXERCISE_KIND_LABELS[ex.kind]}: {ex.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Link href="/exercises" className="text-amber-600 hover:text-amber-800 underline pb-1">
+              Manage exercises
+            </Link>
+          </div>
+
+          {exercise && (
+            <>
+              <p className="text-xs text-amber-700 mb-3">
+                {exercise.tempoBpm} BPM · {getRhythmCycle(exercise.taal)?.name ?? exercise.taal} · the metronome
+                counts in one cycle before the first note
+                {exercise.notation === 'sargam' && ' · Sa is the tanpura\'s tonic'}
+              </p>
+
+              {isRecording ? (
+                <div className="flex items-center gap-6 bg-white rounded-lg p-4">
+                  <div className="text-center min-w-[6rem]">
+                    <div className="text-xs text-amber-700 mb-1">Now</div>
+                    <div className="text-4xl font-bold text-amber-900">{current ? current.label : '–'}</div>
+                    {current && exercise.notation === 'sargam' && (
+                      <div className="text-xs text-amber-600">
+                        {Math.round(expectedNoteHz(current, exercise.notation, tonicHz))} Hz
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex-1">
+                    {status && <div className="text-sm text-amber-700 mb-1">{status}</div>}
+                    <div className="flex gap-3 text-xl text-amber-500">
+                      {upcoming.map(note => (
+                        <span key={note.startBeat}>{note.label}</span>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-2 bg-white rounded-lg p-3 text-amber-900">
+                  {notes.map(note => (
+                    <span key={note.startBeat}>{note.label}</span>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          {isScoring && <div className="mt-4 text-sm text-amber-700">Scoring your take...</div>}
+
+          {score && !isScoring && !isRecording && (
+            <div className="mt-4 bg-white rounded-lg p-4">
+              <div className="flex justify-between items-baseline mb-2">
+                <h4 className="font-semibold text-amber-900">{score.exerciseName}</h4>
+                <span className="text-lg font-bold text-amber-800">{score.accuracyPercentage}%</span>
+              </div>
+              <p className="text-sm text-amber-700 mb-3">
+                {score.correctNotes} of {score.totalNotes} notes within {score.tolerances.pitchCents} cents
+                {score.meanDeviationCents !== null && ` · ${score.meanDeviationCents > 0 ? '+' : ''}${score.meanDeviationCents} cents on average`}
+                {score.offsetMs !== 0 && ` · ${Math.abs(score.offsetMs)} ms ${score.offsetMs < 0 ? 'ahead of' : 'behind'} the beat`}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {score.notes.map(note => (
+                  <span
+                    key={note.startBeat}
+                    title={note.deviationCents === null ? 'Not played' : `${note.deviationCents > 0 ? '+' : ''}${note.deviationCents} cents`}
+                    className={`px-2 py-1 rounded text-sm ${
+                      note.correct
+                        ? 'bg-green-100 text-green-700'
+                        : note.deviationCents === null
+                          ? 'bg-gray-100 text-gray-500'
+                          : 'bg-red-100 text-red-600'
+                    }`}
+                  >
+                    {note.label}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExercisePanel;
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useRef } from 'react';
+import TonicSelector from './TonicSelector';
+import { detectFramePitch, downsample } from '../utils/audioUtils';
+import { hzToWesternNote, hzToSargamNote } from '../utils/noteNames';
+
+interface LiveTunerProps {
+  // Analyser on an existing audio graph (fftSize of 4096 or more works best).
+  // When omitted the tuner opens the microphone itself.
+  analyser?: AnalyserNode | null;
+}
+
+interface TunerReading {
+  f0: number;
+  western: string;
+  sargam: string | null;
+  cents: number; // deviation from the target note
+}
+
+// Frames less periodic than this are ignored so noise doesn't move the needle
+const MIN_CLARITY = 0.85;
+
+// How long the last note stays on screen after the sound stops (ms)
+const HOLD_MS = 600;
+
+// Cents within which the note counts as in tune
+const IN_TUNE_CENTS = 5;
+
+const LiveTuner: React.FC<LiveTunerProps> = ({ analyser }) => {
+  const [isListening, setIsListening] = useState(false);
+  const [tonicHz, setTonicHz] = useState<number | undefined>(undefined);
+  const [reading, setReading] = useState<TunerReading | null>(null);
+  const [strobeOffset, setStrobeOffset] = useState(0);
+
+  const ownStreamRef = useRef<MediaStream | null>(null);
+  const ownContextRef = useRef<AudioContext | null>(null);
+  const ownAnalyserRef = useRef<AnalyserNode | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
+  const recentPitchesRef = useRef<number[]>([]);
+  const lastHeardRef = useRef(0);
+  const tonicRef = useRef<number | undefined>(undefined);
+
+  const isExternal = analyser !== undefined;
+  const activeAnalyser = isExternal ? analyser : (isListening ? ownAnalyserRef.current : null);
+
+  useEffect(() => {
+    tonicRef.current = tonicHz;
+  }, [tonicHz]);
+
+  // Read the analyser once per animation frame while there is one to read
+  useEffect(() => {
+    if (!activeAnalyser) {
+      setReading(null);
+      return;
+    }
+
+    const buffer = new Float32Array(activeAnalyser.fftSize);
+    const sampleRate = activeAnalyser.context.sampleRate;
+
+    const update = () => {
+      activeAnalyser.getFloatTimeDomainData(buffer);
+      const { samples, sampleRate: rate } = downsample(buffer, sampleRate, 11025);
+      const { f0, clarity } = detectFramePitch(samples, rate);
+      const now = performance.now();
+
+      if (f0 > 0 && clarity >= MIN_CLARITY) {
+        lastHeardRef.current = now;
+
+        // A short median filter steadies the needle without lagging behind note changes
+        const recent = [...recentPitchesRef.current.slice(-4), f0];
+        recentPitchesRef.current = recent;
+        const smoothed = [...recent].sort((a, b) => a - b)[Math.floor(recent.length / 2)];
+
+        const western = hzToWesternNote(smoothed);
+        const sargam = tonicRef.current ? hzToSargamNote(smoothed, tonicRef.current) : null;
+        const cents = sargam ? sargam.cents : western.cents;
+
+        setReading({
+          f0: smoothed,
+          western: western.name,
+          sargam: sargam ? sargam.name : null,
+          cents,
+        });
+        // The strobe drifts right when sharp and left when flat, and stands still in tune
+        setStrobeOffset(prev => (prev + cents * 0.2) % 40);
+      } else if (now - lastHeardRef.current > HOLD_MS) {
+        recentPitchesRef.current = [];
+        setReading(null);
+      }
+
+      animationFrameRef.current = requestAnimationFrame(update);
+    };
+
+    update();
+
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = null;
+      }
+    };
+  }, [activeAnalyser]);
+
+  // Release the microphone if the tuner goes away while listening
+  useEffect(() => {
+    return () => stopListening();
+  }, []);
+
+  // Once a parent hands over its own analyser the tuner's microphone is no longer needed
+  useEffect(() => {
+    if (isExternal) stopListening();
+  }, [isExternal]);
+
+  const startListening = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      ownStreamRef.current = stream;
+
+      const audioContext = new (window.AudioContext || (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+      ownContextRef.current = audioContext;
+
+      const pitchAnalyser = audioContext.createAnalyser();
+      pitchAnalyser.fftSize = 4096;
+      audioContext.createMediaStreamSource(stream).connect(pitchAnalyser);
+      ownAnalyserRef.current = pitchAnalyser;
+
+      setIsListening(true);
+    } catch (error) {
+      console.error('Error accessing microphone:', error);
+      alert('Unable to access microphone. Please check permissions and try again.');
+    }
+  };
+
+  const stopListening = () => {
+    ownStreamRef.current?.getTracks().forEach(track => track.stop());
+    ownStreamRef.current = null;
+    ownContextRef.current?.close();
+    ownContextRef.current = null;
+    ownAnalyserRef.current = null;
+    setIsListening(false);
+  };
+
+  const cents = reading ? Math.max(-50, Math.min(50, reading.cents)) : 0;
+  const inTune = reading !== null && Math.abs(reading.cents) <= IN_TUNE_CENTS;
+
+  return (
+    <div className="bg-amber-50 rounded-lg p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-medium text-amber-800">Tuner</h3>
+        <TonicSelector tonicHz={tonicHz} onChange={setTonicHz} />
+      </div>
+
+      {/* Note names */}
+      <div className="text-center mb-2">
+        <div className={`text-4xl font-bold ${inTune ? 'text-green-600' : 'text-amber-900'}`}>
+          {reading ? reading.western : '--'}
+        </div>
+        <div className="text-lg text-amber-700">
+          {reading && reading.sargam ? reading.sargam : tonicHz ? '--' : 'Choose Sa for sargam names'}
+        </div>
+        <div className="text-sm text-amber-600">
+          {reading
+            ? `${reading.f0.toFixed(1)} Hz · ${reading.cents > 0 ? '+' : ''}${Math.round(reading.cents)} cents`
+            : 'Play or sing a note'}
+        </div>
+      </div>
+
+      {/* Needle */}
+      <svg viewBox="0 0 200 110" className="w-full max-w-xs mx-auto block">
+        <path d="M 20 100 A 80 80 0 0 1 180 100" fill="none" stroke="#fcd34d" strokeWidth="6" />
+        <line x1="100" y1="20" x2="100" y2="32" stroke="#16a34a" strokeWidth="3" />
+        <line
+          x1="100"
+          y1="100"
+          x2="100"
+          y2="28"
+          stroke={inTune ? '#16a34a' : '#b45309'}
+          strokeWidth="3"
+          strokeLinecap="round"
+          transform={`rotate(${cents * 1.8} 100 100)`}
+          style={{ transition: 'transform 80ms linear' }}
+        />
+        <circle cx="100" cy="100" r="5" fill="#92400e" />
+        <text x="20" y="108" fontSize="9" fill="#92400e">-50</text>
+        <text x="168" y="108" fontSize="9" fill="#92400e">+50</text>
+      </svg>
+
+      {/* Strobe */}
+      <div
+        className="h-4 mt-2 rounded-sm"
+        style={{
+          backgroundImage: `repeating-linear-gradient(90deg, ${inTune ? '#16a34a' : '#d97706'} 0 20px, transparent 20px 40px)`,
+          backgroundPosition: `${strobeOffset}px 0`,
+          opacity: reading ? 1 : 0.3,
+        }}
+      />
+
+      {!isExternal && (
+        <div className="flex justify-center mt-4">
+          <button
+            onClick={isListening ? stopListening : startListening}
+            className="bg-amber-500 hover:bg-amber-600 text-white font-medium py-2 px-4 rounded-lg transition-all duration-300"
+          >
+            {isListening ? 'Stop Tuner' : 'Start Tuner'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveTuner;
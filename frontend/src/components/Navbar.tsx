@@ -30,6 +30,9 @@ const Navbar: React.FC = () => {
             <Link href="/upload" className={`py-2 px-1 text-base font-medium ${isActive('/upload')}`}>Upload</Link>
             <Link href="/analyze" className={`py-2 px-1 text-base font-medium ${isActive('/analyze')}`}>Analyze</Link>
             <Link href="/saved" className={`py-2 px-1 text-base font-medium ${isActive('/saved')}`}>Saved</Link>
+            <Link href="/progress" className={`py-2 px-1 text-base font-medium ${isActive('/progress')}`}>Progress</Link>
+            <Link href="/exercises" className={`py-2 px-1 text-base font-medium ${isActive('/exercises')}`}>Exercises</Link>
+            <Link href="/settings" className={`py-2 px-1 text-base font-medium ${isActive('/settings')}`}>Settings</Link>
           </div>
 
           {/* Mobile menu button */}
@@ -61,6 +64,9 @@ const Navbar: React.FC = () => {
           <Link href="/upload" className={`block px-3 py-2 rounded-md text-base font-medium ${router.pathname === '/upload' ? 'bg-amber-100 text-amber-800' : 'text-amber-900 hover:bg-amber-50'}`}>Upload</Link>
           <Link href="/analyze" className={`block px-3 py-2 rounded-md text-base font-medium ${router.pathname === '/analyze' ? 'bg-amber-100 text-amber-800' : 'text-amber-900 hover:bg-amber-50'}`}>Analyze</Link>
           <Link href="/saved" className={`block px-3 py-2 rounded-md text-base font-medium ${router.pathname === '/saved' ? 'bg-amber-100 text-amber-800' : 'text-amber-900 hover:bg-amber-50'}`}>Saved</Link>
+          <Link href="/progress" className={`block px-3 py-2 rounded-md text-base font-medium ${router.pathname === '/progress' ? 'bg-amber-100 text-amber-800' : 'text-amber-900 hover:bg-amber-50'}`}>Progress</Link>
+          <Link href="/exercises" className={`block px-3 py-2 rounded-md text-base font-medium ${router.pathname === '/exercises' ? 'bg-amber-100 text-amber-800' : 'text-amber-900 hover:bg-amber-50'}`}>Exercises</Link>
+          <Link href="/settings" className={`block px-3 py-2 rounded-md text-base font-medium ${router.pathname === '/settings' ? 'bg-amber-100 text-amber-800' : 'text-amber-900 hover:bg-amber-50'}`}>Settings</Link>
         </div>
       </div>
     </nav>
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { TranscribedNote } from '../utils/transcription';
+import { hzToSargamNote, midiToHz, midiToWesternName } from '../utils/noteNames';
+import { toMidiFile, toMusicXml } from '../utils/notationExport';
+
+interface NoteStripProps {
+  notes: TranscribedNote[];
+  tonicHz: number | null; // notes are labelled in sargam when known
+  tempoBpm: number;       // beat the exported notation is laid out against
+  title: string;          // name of the take, for the exported files
+}
+
+// Horizontal scale of the strip; long takes scroll
+const PIXELS_PER_SECOND = 80;
+const ROW_HEIGHT = 10;
+
+// Labels are drawn inside notes at least this wide
+const MIN_LABEL_WIDTH = 14;
+
+const downloadFile = (data: BlobPart, type: string, fileName: string) => {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const NoteStrip: React.FC<NoteStripProps> = ({ notes, tonicHz, tempoBpm, title }) => {
+  const [useSargam, setUseSargam] = useState(true);
+  const sargam = useSargam && tonicHz !== null;
+
+  const label = (note: TranscribedNote) =>
+    sargam && tonicHz !== null ? hzToSargamNote(midiToHz(note.midi), tonicHz).name : midiToWesternName(note.midi);
+
+  const low = Math.floor(Math.min(...notes.map(note => note.midi))) - 1;
+  const high = Math.ceil(Math.max(...notes.map(note => note.midi))) + 1;
+  const height = (high - low + 1) * ROW_HEIGHT;
+  const width = Math.max(300, Math.ceil(notes[notes.length - 1].end * PIXELS_PER_SECOND) + 10);
+  const toY = (midi: number) => (high - midi) * ROW_HEIGHT;
+
+  // Guide lines at each Sa, or at each C without a tonic
+  const guides: number[] = [];
+  const anchor = tonicHz !== null ? 69 + 12 * Math.log2(tonicHz / 440) : 60;
+  for (let midi = anchor - 12 * Math.ceil((anchor - low) / 12); midi <= high; midi += 12) {
+    if (midi >= low) guides.push(midi);
+  }
+
+  const exportOptions = { title, tempoBpm, tonicHz: tonicHz ?? undefined };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+        <div className="text-xs text-amber-700">
+          {notes.length} notes · outlined notes carry ornaments or glides
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          {tonicHz !== null && (
+            <button
+              onClick={() => setUseSargam(!useSargam)}
+              className="text-amber-600 hover:text-amber-800 underline"
+            >
+              {useSargam ? 'Western names' : 'Sargam names'}
+            </button>
+          )}
+          <button
+            onClick={() => downloadFile(toMidiFile(notes, exportOptions), 'audio/midi', `${title}.mid`)}
+            className="px-3 py-1 bg-amber-100 text-amber-800 rounded-md hover:bg-amber-200 transition-colors"
+          >
+            MIDI
+          </button>
+          <button
+            onClick={() => downloadFile(toMusicXml(notes, exportOptions), 'application/vnd.recordare.musicxml+xml', `${title}.musicxml`)}
+            className="px-3 py-1 bg-amber-100 text-amber-800 rounded-md hover:bg-amber-200 transition-colors"
+          >
+            MusicXML
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto bg-amber-50 rounded">
+        <svg width={width} height={height} className="block">
+          {guides.map(midi => (
+            <g key={midi}>
+              <line x1="0" y1={toY(midi) + ROW_HEIGHT / 2} x2={width} y2={toY(midi) + ROW_HEIGHT / 2} stroke="#fcd34d" strokeDasharray="4 4" />
+              <text x="2" y={toY(midi) + ROW_HEIGHT / 2 - 2} fontSize="9" fill="#b45309">
+                {tonicHz !== null ? `Sa ${midiToWesternName(midi)}` : midiToWesternName(midi)}
+              </text>
+            </g>
+          ))}
+          {notes.map((note, i) => {
+            const x = note.start * PIXELS_PER_SECOND;
+            const w = Math.max(2, (note.end - note.start) * PIXELS_PER_SECOND - 1);
+            return (
+              <g key={i}>
+                <title>
+                  {`${label(note)} · ${note.start.toFixed(2)}–${note.end.toFixed(2)} s · ${note.cents > 0 ? '+' : ''}${note.cents} cents`}
+                </title>
+                <rect
+                  x={x}
+                  y={toY(note.midi)}
+                  width={w}
+                  height={ROW_HEIGHT}
+                  rx="2"
+                  fill="#f59e0b"
+                  fillOpacity={0.4 + (note.velocity / 127) * 0.6}
+                  stroke={note.ornamented ? '#92400e' : 'none'}
+                  strokeWidth="1"
+                />
+                {w >= MIN_LABEL_WIDTH && (
+                  <text x={x + 2} y={toY(note.midi) + ROW_HEIGHT - 2} fontSize="8" fill="#451a03">
+                    {label(note)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default NoteStrip;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { saveRecording } from '../utils/storage';
+import LiveTuner from './LiveTuner';
 
 const Recorder: React.FC = () => {
   const [isRecording, setIsRecording] = useState(false);
@@ -7,6 +8,8 @@ const Recorder: React.FC = () => {
   const [recordingTime, setRecordingTime] = useState(0);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [visualData, setVisualData] = useState<number[]>(Array(50).fill(0));
+  const [showTuner, setShowTuner] = useState(false);
+  const [pitchAnalyser, setPitchAnalyser] = useState<AnalyserNode | null>(null);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
@@ -39,7 +42,7 @@ const Recorder: React.FC = () => {
       audioStreamRef.current = stream;
       
       // Set up audio context and analyzer
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const audioContext = new (window.AudioContext || (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
       audioContextRef.current = audioContext;
       
       const analyser = audioContext.createAnalyser();
@@ -48,6 +51,12 @@ const Recorder: React.FC = () => {
       
       const source = audioContext.createMediaStreamSource(stream);
       source.connect(analyser);
+
+      // The tuner needs a much longer window than the visualizer, so it gets its own analyser
+      const tunerAnalyser = audioContext.createAnalyser();
+      tunerAnalyser.fftSize = 4096;
+      source.connect(tunerAnalyser);
+      setPitchAnalyser(tunerAnalyser);
       
       // Set up media recorder
       const mediaRecorder = new MediaRecorder(stream);
@@ -101,7 +110,8 @@ const Recorder: React.FC = () => {
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
-      
+
+      setPitchAnalyser(null);
       setIsRecording(false);
     }
   };
@@ -143,12 +153,17 @@ const Recorder: React.FC = () => {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const handleSaveRecording = () => {
+  const handleSaveRecording = async () => {
     if (audioBlob) {
       const name = prompt('Name your recording:', `Song Recording ${new Date().toLocaleDateString()}`);
       if (name) {
-        saveRecording(name, audioBlob);
-        alert('Recording saved! You can find it in the Analyze page.');
+        try {
+          await saveRecording({ name, date: new Date().toLocaleString(), recordedAt: new Date().toISOString(), duration: recordingTime }, audioBlob);
+          alert('Recording saved! You can find it in the Analyze page.');
+        } catch (error) {
+          console.error('Error saving recording:', error);
+          alert('Failed to save recording. Please try again.');
+        }
       }
     }
   };
@@ -203,6 +218,21 @@ const Recorder: React.FC = () => {
         )}
       </div>
       
+      {/* Tuner: reads the recording's audio graph while recording, or the microphone on its own */}
+      <div className="flex justify-center mb-6">
+        <button
+          onClick={() => setShowTuner(!showTuner)}
+          className="text-amber-700 hover:text-amber-900 text-sm font-medium"
+        >
+          {showTuner ? 'Hide Tuner' : 'Show Tuner'}
+        </button>
+      </div>
+      {showTuner && (
+        <div className="mb-6">
+          <LiveTuner analyser={isRecording ? pitchAnalyser : undefined} />
+        </div>
+      )}
+
       {/* Audio playback */}
       {audioURL && (
         <div className="mb-6">
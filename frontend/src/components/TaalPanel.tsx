@@ -0,0 +1,134 @@
+import React from 'react';
+import {
+  MetronomeSettings,
+  RHYTHM_CYCLES,
+  MIN_BPM,
+  MAX_BPM,
+  getRhythmCycle,
+} from '../utils/taal';
+
+interface TaalPanelProps {
+  settings: MetronomeSettings;
+  onChange: (changes: Partial<MetronomeSettings>) => void;
+  isPlaying: boolean;
+  onToggle: () => void;
+  currentBeat: number | null; // index of the beat sounding now, null when stopped
+}
+
+const TaalPanel: React.FC<TaalPanelProps> = ({
+  settings,
+  onChange,
+  isPlaying,
+  onToggle,
+  currentBeat,
+}) => {
+  const cycle = getRhythmCycle(settings.cycleId) || RHYTHM_CYCLES[0];
+
+  // Beat indices where each section starts, for numbering the indicator
+  let sectionStart = 0;
+  const sections = cycle.sections.map(section => {
+    const start = sectionStart;
+    sectionStart += section.beats;
+    return { ...section, start };
+  });
+
+  return (
+    <div className="bg-amber-50 rounded-lg p-4">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-amber-800">Metronome &amp; Taal</h3>
+        <button
+          onClick={onToggle}
+          className={`font-medium py-2 px-4 rounded-lg transition-all duration-300 text-white ${
+            isPlaying ? 'bg-gray-600 hover:bg-gray-700' : 'bg-amber-500 hover:bg-amber-600'
+          }`}
+        >
+          {isPlaying ? 'Stop Metronome' : 'Start Metronome'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm text-amber-800">
+        <label className="flex flex-col">
+          <span className="mb-1">Taal / meter</span>
+          <select
+            value={cycle.id}
+            onChange={(e) => onChange({ cycleId: e.target.value })}
+            className="p-1 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+          >
+            <optgroup label="Taals">
+              {RHYTHM_CYCLES.filter(c => c.kind === 'taal').map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </optgroup>
+            <optgroup label="Western meters">
+              {RHYTHM_CYCLES.filter(c => c.kind === 'meter').map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </optgroup>
+          </select>
+        </label>
+
+        <label className="flex flex-col">
+          <span className="mb-1">Tempo: {settings.bpm} BPM</span>
+          <input
+            type="range"
+            min={MIN_BPM}
+            max={MAX_BPM}
+            step={1}
+            value={settings.bpm}
+            onChange={(e) => onChange({ bpm: Number(e.target.value) })}
+            className="accent-amber-500"
+          />
+        </label>
+
+        <label className="flex flex-col">
+          <span className="mb-1">Volume: {Math.round(settings.volume * 100)}%</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.volume}
+            onChange={(e) => onChange({ volume: Number(e.target.value) })}
+            className="accent-amber-500"
+          />
+        </label>
+      </div>
+
+      {/* Beat indicator, one group per vibhag */}
+      <div className="flex flex-wrap justify-center gap-3 mt-4">
+        {sections.map((section, sectionIndex) => (
+          <div key={sectionIndex} className="flex flex-col items-center">
+            <span className="text-xs font-bold text-amber-700 mb-1">{section.marker}</span>
+            <div className="flex gap-1">
+              {Array.from({ length: section.beats }, (_, i) => {
+                const beatIndex = section.start + i;
+                const isActive = currentBeat === beatIndex;
+                const isSectionStart = i === 0;
+                const activeColour =
+                  section.accent === 'khali' && isSectionStart ? 'bg-sky-400' : isSectionStart ? 'bg-red-500' : 'bg-amber-500';
+
+                return (
+                  <div
+                    key={beatIndex}
+                    className={`w-6 h-6 rounded-full flex items-center justify-center text-xs transition-colors duration-75 ${
+                      isActive ? `${activeColour} text-white` : 'bg-amber-100 text-amber-700'
+                    } ${beatIndex === 0 ? 'ring-2 ring-amber-600' : ''}`}
+                  >
+                    {beatIndex + 1}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-amber-700 mt-3">
+        Starting a recording while the metronome plays restarts the cycle on sam, and the taal and tempo are saved with the take.
+        Use headphones so the clicks stay out of the recording.
+      </p>
+    </div>
+  );
+};
+
+export default TaalPanel;
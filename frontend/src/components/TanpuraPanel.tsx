@@ -0,0 +1,126 @@
+import React from 'react';
+import { TanpuraSettings, TANPURA_PATTERNS, TanpuraPattern } from '../utils/tanpura';
+import { TONIC_CHOICES } from '../utils/noteNames';
+
+interface TanpuraPanelProps {
+  settings: TanpuraSettings;
+  onChange: (changes: Partial<TanpuraSettings>) => void;
+  isPlaying: boolean;
+  onToggle: () => void;
+  includeInRecording: boolean;
+  onIncludeInRecordingChange: (include: boolean) => void;
+  isRecording: boolean; // capture routing can't change mid-take
+}
+
+const TanpuraPanel: React.FC<TanpuraPanelProps> = ({
+  settings,
+  onChange,
+  isPlaying,
+  onToggle,
+  includeInRecording,
+  onIncludeInRecordingChange,
+  isRecording,
+}) => {
+  return (
+    <div className="bg-amber-50 rounded-lg p-4">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-amber-800">Tanpura Drone</h3>
+        <button
+          onClick={onToggle}
+          className={`font-medium py-2 px-4 rounded-lg transition-all duration-300 text-white ${
+            isPlaying ? 'bg-gray-600 hover:bg-gray-700' : 'bg-amber-500 hover:bg-amber-600'
+          }`}
+        >
+          {isPlaying ? 'Stop Drone' : 'Start Drone'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm text-amber-800">
+        <label className="flex flex-col">
+          <span className="mb-1">Sa (tonic)</span>
+          <select
+            value={String(settings.tonicHz)}
+            onChange={(e) => onChange({ tonicHz: Number(e.target.value) })}
+            className="p-1 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+          >
+            {TONIC_CHOICES.map((choice) => (
+              <option key={choice.name} value={String(choice.hz)}>
+                {choice.name} ({choice.hz} Hz)
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col">
+          <span className="mb-1">Tuning</span>
+          <select
+            value={settings.pattern}
+            onChange={(e) => onChange({ pattern: e.target.value as TanpuraPattern })}
+            className="p-1 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+          >
+            {TANPURA_PATTERNS.map((pattern) => (
+              <option key={pattern} value={pattern}>{pattern}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col">
+          <span className="mb-1">Pluck cycle: {settings.cycleSeconds.toFixed(1)} s</span>
+          <input
+            type="range"
+            min={2}
+            max={8}
+            step={0.5}
+            value={settings.cycleSeconds}
+            onChange={(e) => onChange({ cycleSeconds: Number(e.target.value) })}
+            className="accent-amber-500"
+          />
+        </label>
+
+        <label className="flex flex-col">
+          <span className="mb-1">Jivari (brightness): {Math.round(settings.brightness * 100)}%</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.brightness}
+            onChange={(e) => onChange({ brightness: Number(e.target.value) })}
+            className="accent-amber-500"
+          />
+        </label>
+
+        <label className="flex flex-col">
+          <span className="mb-1">Volume: {Math.round(settings.volume * 100)}%</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.volume}
+            onChange={(e) => onChange({ volume: Number(e.target.value) })}
+            className="accent-amber-500"
+          />
+        </label>
+
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={includeInRecording}
+            onChange={(e) => onIncludeInRecordingChange(e.target.checked)}
+            disabled={isRecording}
+            className="mr-2 accent-amber-500"
+          />
+          Include drone in the recording
+        </label>
+      </div>
+
+      <p className="text-xs text-amber-700 mt-3">
+        The drone&apos;s Sa is saved with your take so analysis knows your intended tonic.
+        To keep the drone out of the recording entirely, also use headphones so the microphone doesn&apos;t pick it up.
+      </p>
+    </div>
+  );
+};
+
+export default TanpuraPanel;
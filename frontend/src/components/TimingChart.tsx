@@ -0,0 +1,90 @@
+import React from 'react';
+import { TimingAnalysis } from '../utils/audioUtils';
+
+interface TimingChartProps {
+  timing: TimingAnalysis;
+  targetBpm?: number; // drawn as a reference line on the tempo curve
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+
+// Deviations beyond this are drawn at the edge of the chart
+const MAX_DEVIATION_MS = 150;
+
+const TimingChart: React.FC<TimingChartProps> = ({ timing, targetBpm }) => {
+  const { deviations, tempoCurve } = timing;
+  const duration = Math.max(
+    deviations.length > 0 ? deviations[deviations.length - 1].time : 0,
+    tempoCurve.length > 0 ? tempoCurve[tempoCurve.length - 1].time : 0,
+    1
+  );
+  const x = (time: number) => (time / duration) * WIDTH;
+
+  // Late notes are drawn above the centre line, early ones below
+  const deviationY = (ms: number) => {
+    const clamped = Math.max(-MAX_DEVIATION_MS, Math.min(MAX_DEVIATION_MS, ms));
+    return HEIGHT / 2 - (clamped / MAX_DEVIATION_MS) * (HEIGHT / 2 - 4);
+  };
+
+  // Tempo axis covers the curve and the target with a little headroom
+  const bpms = [...tempoCurve.map(p => p.bpm), ...(targetBpm ? [targetBpm] : [])];
+  const minBpm = Math.min(...bpms, timing.bpm) - 5;
+  const maxBpm = Math.max(...bpms, timing.bpm) + 5;
+  const tempoY = (bpm: number) => HEIGHT - 4 - ((bpm - minBpm) / (maxBpm - minBpm)) * (HEIGHT - 8);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex justify-between text-xs text-amber-700 mb-1">
+          <span>Timing vs beat grid</span>
+          <span>late ↑ / early ↓ (±{MAX_DEVIATION_MS} ms)</span>
+        </div>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-20 bg-amber-50 rounded">
+          <line x1="0" y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} stroke="#d97706" strokeWidth="1" />
+          {deviations.map((d, i) => (
+            <line
+              key={i}
+              x1={x(d.time)}
+              y1={HEIGHT / 2}
+              x2={x(d.time)}
+              y2={deviationY(d.deviationMs)}
+              stroke={d.deviationMs > 0 ? '#b45309' : '#0284c7'}
+              strokeWidth="1.5"
+            />
+          ))}
+        </svg>
+      </div>
+
+      {tempoCurve.length > 1 && (
+        <div>
+          <div className="flex justify-between text-xs text-amber-700 mb-1">
+            <span>Tempo over time</span>
+            <span>{Math.round(minBpm + 5)}–{Math.round(maxBpm - 5)} BPM</span>
+          </div>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-20 bg-amber-50 rounded">
+            {targetBpm && (
+              <line
+                x1="0"
+                y1={tempoY(targetBpm)}
+                x2={WIDTH}
+                y2={tempoY(targetBpm)}
+                stroke="#16a34a"
+                strokeWidth="1"
+                strokeDasharray="4 3"
+              />
+            )}
+            <polyline
+              points={tempoCurve.map(p => `${x(p.time)},${tempoY(p.bpm)}`).join(' ')}
+              fill="none"
+              stroke="#d97706"
+              strokeWidth="2"
+            />
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimingChart;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { TONIC_CHOICES } from '../utils/noteNames';
+
+interface TonicSelectorProps {
+  tonicHz?: number;                            // currently chosen Sa; undefined means auto-detect
+  onChange: (tonicHz: number | undefined) => void;
+  disabled?: boolean;
+}
+
+const TonicSelector: React.FC<TonicSelectorProps> = ({ tonicHz, onChange, disabled }) => {
+  // Match the stored frequency to the closest choice so older values still select something
+  const selected = tonicHz
+    ? TONIC_CHOICES.reduce((best, choice) =>
+        Math.abs(choice.hz - tonicHz) < Math.abs(best.hz - tonicHz) ? choice : best
+      )
+    : null;
+
+  return (
+    <label className="flex items-center text-sm text-amber-800">
+      <span className="mr-2">Sa (tonic)</span>
+      <select
+        value={selected ? String(selected.hz) : ''}
+        onChange={(e) => onChange(e.target.value ? Number(e.target.value) : undefined)}
+        disabled={disabled}
+        className="p-1 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+      >
+        <option value="">Auto-detect</option>
+        {TONIC_CHOICES.map((choice) => (
+          <option key={choice.name} value={String(choice.hz)}>
+            {choice.name} ({choice.hz} Hz)
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default TonicSelector;
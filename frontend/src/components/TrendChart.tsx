@@ -0,0 +1,74 @@
+import React from 'react';
+import { MetricTrend } from '../utils/progress';
+
+interface TrendChartProps {
+  trend: MetricTrend;
+}
+
+const WIDTH = 300;
+const HEIGHT = 100;
+const PADDING = 8;
+
+const TrendChart: React.FC<TrendChartProps> = ({ trend }) => {
+  const { points, metric } = trend;
+
+  if (points.length === 0) {
+    return (
+      <div className="h-24 flex items-center justify-center text-xs text-amber-700 bg-amber-50 rounded">
+        Not measured in these recordings
+      </div>
+    );
+  }
+
+  const first = points[0].date.getTime();
+  const span = Math.max(points[points.length - 1].date.getTime() - first, 1);
+  // A single day sits in the middle of the chart
+  const x = (date: Date) => (points.length === 1
+    ? WIDTH / 2
+    : PADDING + ((date.getTime() - first) / span) * (WIDTH - 2 * PADDING));
+
+  const values = points.map(p => p.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = Math.max(max - min, 1);
+  // Better values are drawn higher whichever way the metric runs
+  const y = (value: number) => {
+    const fraction = (value - min) / range;
+    return HEIGHT - PADDING - (metric.higherIsBetter ? fraction : 1 - fraction) * (HEIGHT - 2 * PADDING);
+  };
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-24 bg-amber-50 rounded">
+        {points.length > 1 && (
+          <polyline
+            points={points.map(p => `${x(p.date)},${y(p.value)}`).join(' ')}
+            fill="none"
+            stroke="#d97706"
+            strokeWidth="2"
+          />
+        )}
+        {points.map(point => (
+          <circle
+            key={point.day}
+            cx={x(point.date)}
+            cy={y(point.value)}
+            r={point.isPersonalBest || point.isRegression ? 4 : 2.5}
+            fill={point.isPersonalBest ? '#16a34a' : point.isRegression ? '#dc2626' : '#b45309'}
+          >
+            <title>{`${point.date.toLocaleDateString()}: ${point.value} ${metric.unit}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-amber-700 mt-1">
+        <span>{points[0].date.toLocaleDateString()}</span>
+        <span>
+          {min}–{max} {metric.unit}
+        </span>
+        <span>{points[points.length - 1].date.toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+};
+
+export default TrendChart;
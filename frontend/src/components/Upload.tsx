@@ -87,7 +87,8 @@ const Upload: React.FC = () => {
             id: uuidv4(),
             name: name,
             blob: file,
-            date: new Date().toLocaleString()
+            date: new Date().toLocaleString(),
+            recordedAt: new Date().toISOString()
           };
           
           await saveRecording(recordingObj);
@@ -0,0 +1,152 @@
+// pages/api/analyze.ts
+/**
+ * Server-side analysis of an uploaded recording
+ * POST multipart/form-data with the audio in an "audio" file field and,
+ * optionally, "tonicHz", "intendedTempo", "taal", "locale" and
+ * "feedbackRules" (a JSON list of rules, see utils/feedback.ts) fields. The
+ * audio runs through the same pipeline as the browser (analyzeAudioBuffer)
+ * and the response follows the contract in utils/analysisApi.ts.
+ *
+ *   curl -F audio=@take.wav -F tonicHz=261.63 http://localhost:3000/api/analyze
+ *
+ * Only WAV can be decoded on the server; other formats get a 415. The
+ * analysis runs on the request thread, so takes longer than
+ * MAX_ANALYSIS_SECONDS are turned away before they're decoded.
+ */
+import type { NextApiRequest, NextApiResponse } from "next";
+import { analyzeAudioBuffer, AnalysisOptions } from "../../utils/emotionDetector";
+import { isWav, readWavInfo, decodeWav } from "../../utils/wavDecoder";
+import { getBoundary, parseMultipart, MultipartPart } from "../../utils/multipart";
+import { importFeedbackRules } from "../../utils/feedback";
+import {
+  ANALYSIS_API_VERSION,
+  AnalyzeResponse,
+  AnalyzeErrorCode,
+} from "../../utils/analysisApi";
+
+// The body is read raw so file uploads can be parsed
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+// Largest upload accepted; about ten minutes of 16-bit 44.1 kHz stereo
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+// Longest take analyzed; the upload limit alone doesn't bound the work, since
+// 8-bit mono packs several times as many seconds into the same bytes
+const MAX_ANALYSIS_SECONDS = 10 * 60;
+
+/**
+ * Read the whole request body, giving up once it passes the size limit
+ * @returns null when the body is too large
+ */
+const readBody = async (req: NextApiRequest): Promise<Buffer | null> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > MAX_UPLOAD_BYTES) return null;
+    chunks.push(buffer);
+  }
+
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Read an optional positive number from a text field
+ * @returns undefined when the field is absent, NaN when it doesn't parse
+ */
+const numberField = (parts: MultipartPart[], name: string): number | undefined => {
+  const part = parts.find(p => p.name === name && !p.filename);
+  if (!part) return undefined;
+
+  const text = part.data.toString("utf8").trim();
+  if (text === "") return undefined;
+
+  const value = Number(text);
+  return Number.isFinite(value) && value > 0 ? value : NaN;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AnalyzeResponse>,
+) {
+  const fail = (status: number, code: AnalyzeErrorCode, message: string) => {
+    res.status(status).json({ version: ANALYSIS_API_VERSION, error: { code, message } });
+  };
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return fail(405, "method_not_allowed", "Use POST with a multipart/form-data body.");
+  }
+
+  const boundary = getBoundary(req.headers["content-type"]);
+  if (!boundary) {
+    return fail(415, "unsupported_media_type", "The request body must be multipart/form-data.");
+  }
+
+  const body = await readBody(req);
+  if (!body) {
+    return fail(413, "payload_too_large", `Uploads are limited to ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB.`);
+  }
+
+  const parts = parseMultipart(body, boundary);
+  const audio = parts.find(part => part.name === "audio" && part.filename !== undefined);
+  if (!audio || audio.data.length === 0) {
+    return fail(400, "missing_audio", 'Attach the recording as a file in the "audio" field.');
+  }
+
+  const options: AnalysisOptions = {};
+  for (const name of ["tonicHz", "intendedTempo"] as const) {
+    const value = numberField(parts, name);
+    if (Number.isNaN(value)) {
+      return fail(400, "invalid_field", `"${name}" must be a positive number.`);
+    }
+    options[name] = value;
+  }
+  const taal = parts.find(part => part.name === "taal" && !part.filename);
+  if (taal) {
+    options.taal = taal.data.toString("utf8").trim() || undefined;
+  }
+  const locale = parts.find(part => part.name === "locale" && !part.filename);
+  if (locale) {
+    options.locale = locale.data.toString("utf8").trim() || undefined;
+  }
+  const feedbackRules = parts.find(part => part.name === "feedbackRules" && !part.filename);
+  if (feedbackRules) {
+    try {
+      options.feedbackRules = importFeedbackRules(feedbackRules.data.toString("utf8"));
+    } catch (error) {
+      const problem = error instanceof Error ? error.message : "it didn't parse";
+      return fail(400, "invalid_field", `"feedbackRules" must be a JSON list of rules: ${problem}`);
+    }
+  }
+
+  const bytes = new Uint8Array(audio.data.buffer, audio.data.byteOffset, audio.data.length);
+  if (!isWav(bytes)) {
+    return fail(415, "unsupported_media_type", "Only WAV audio can be analyzed on the server. Convert the file to WAV and try again.");
+  }
+
+  let audioBuffer: AudioBuffer;
+  try {
+    const { duration } = readWavInfo(bytes);
+    if (duration > MAX_ANALYSIS_SECONDS) {
+      return fail(413, "payload_too_large", `Takes are limited to ${MAX_ANALYSIS_SECONDS / 60} minutes of audio.`);
+    }
+    audioBuffer = decodeWav(bytes);
+  } catch (error) {
+    return fail(422, "decode_failed", error instanceof Error ? error.message : "The audio could not be decoded.");
+  }
+
+  try {
+    const result = analyzeAudioBuffer(audioBuffer, options);
+    res.status(200).json({ version: ANALYSIS_API_VERSION, result });
+  } catch (error) {
+    console.error("Analysis error:", error);
+    fail(500, "analysis_failed", "The recording could not be analyzed.");
+  }
+}
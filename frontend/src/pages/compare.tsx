@@ -0,0 +1,117 @@
+// pages/compare.tsx
+import React, { useState, useEffect } from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import UkuleleBackground from '../components/UkuleleBackground';
+import CompareView from '../components/CompareView';
+import { getAllRecordings, Recording } from '../utils/storage';
+import { getAudioBuffer } from '../utils/audioUtils';
+
+const ComparePage: React.FC = () => {
+  const router = useRouter();
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [idA, setIdA] = useState('');
+  const [idB, setIdB] = useState('');
+  const [buffers, setBuffers] = useState<{ a: AudioBuffer; b: AudioBuffer } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAllRecordings()
+      .then(loaded => setRecordings(loaded.filter(rec => !rec.audioMissing)))
+      .catch(err => console.error('Failed to load recordings:', err));
+  }, []);
+
+  // Preselect takes passed as ?a=<id>&b=<id>
+  useEffect(() => {
+    const { a, b } = router.query;
+    if (typeof a === 'string') setIdA(a);
+    if (typeof b === 'string') setIdB(b);
+  }, [router.query]);
+
+  const recordingA = recordings.find(rec => rec.id === idA) || null;
+  const recordingB = recordings.find(rec => rec.id === idB) || null;
+
+  // Decode both takes whenever the pair changes
+  useEffect(() => {
+    setBuffers(null);
+    setError(null);
+    if (!recordingA?.blob || !recordingB?.blob || recordingA.id === recordingB.id) return;
+
+    let cancelled = false;
+    Promise.all([getAudioBuffer(recordingA.blob), getAudioBuffer(recordingB.blob)])
+      .then(([a, b]) => {
+        if (!cancelled) setBuffers({ a, b });
+      })
+      .catch(err => {
+        console.error('Failed to decode recordings:', err);
+        if (!cancelled) setError('One of the recordings could not be decoded.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recordingA?.id, recordingA?.blob, recordingB?.id, recordingB?.blob]);
+
+  const takeSelects = [
+    { id: 'takeA', label: 'First take', value: idA, onChange: setIdA },
+    { id: 'takeB', label: 'Second take', value: idB, onChange: setIdB },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 to-rose-50">
+      <Head>
+        <title>Compare Takes | Singing Practice Buddy</title>
+        <meta name="description" content="Compare two takes of the same piece side by side" />
+      </Head>
+
+      <div className="relative overflow-hidden">
+        <UkuleleBackground />
+
+        <main className="relative z-10 max-w-5xl mx-auto px-4 pt-12 pb-20">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl md:text-5xl font-bold text-amber-900 mb-3">Compare Takes</h1>
+            <p className="text-lg text-amber-800">Line up two takes of the same piece and hear them together</p>
+          </div>
+
+          <div className="bg-white bg-opacity-90 backdrop-blur-sm rounded-xl shadow-xl p-8 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {takeSelects.map(select => (
+                <div key={select.id}>
+                  <label htmlFor={select.id} className="block text-amber-800 mb-2">{select.label}</label>
+                  <select
+                    id={select.id}
+                    value={select.value}
+                    onChange={(e) => select.onChange(e.target.value)}
+                    className="w-full p-2 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                  >
+                    <option value="">Choose a recording</option>
+                    {recordings.map(rec => (
+                      <option key={rec.id} value={rec.id}>{rec.name} ({rec.date})</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {error && <div className="text-red-500 text-center">{error}</div>}
+
+            {!recordingA || !recordingB ? (
+              <div className="text-center text-amber-600">Choose two recordings to compare</div>
+            ) : recordingA.id === recordingB.id ? (
+              <div className="text-center text-amber-600">Choose two different recordings</div>
+            ) : buffers ? (
+              <CompareView
+                takeA={{ recording: recordingA, audioBuffer: buffers.a, result: recordingA.analysisResults?.result ?? null }}
+                takeB={{ recording: recordingB, audioBuffer: buffers.b, result: recordingB.analysisResults?.result ?? null }}
+              />
+            ) : !error && (
+              <div className="text-center text-amber-700">Loading recordings...</div>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default ComparePage;
@@ -0,0 +1,348 @@
+// pages/exercises.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import UkuleleBackground from '../components/UkuleleBackground';
+import {
+  Exercise,
+  ExerciseKind,
+  ExerciseNotation,
+  EXERCISE_KIND_LABELS,
+  BUILT_IN_EXERCISES,
+  getCustomExercises,
+  addCustomExercises,
+  deleteCustomExercise,
+  isBuiltInExercise,
+  parseExerciseNotes,
+  validateExercise,
+  exportExercises,
+  importExercises,
+} from '../utils/exercises';
+import { RHYTHM_CYCLES, getRhythmCycle } from '../utils/taal';
+
+const EMPTY_FORM = {
+  id: '',
+  name: '',
+  kind: 'alankar' as ExerciseKind,
+  notation: 'sargam' as ExerciseNotation,
+  notes: '',
+  tempoBpm: 80,
+  taal: 'teentaal',
+  notesPerBeat: 1,
+};
+
+type ExerciseForm = typeof EMPTY_FORM;
+
+// Download exercises as a JSON file that can be imported elsewhere
+const downloadExercises = (exercises: Exercise[], fileName: string) => {
+  const blob = new Blob([exportExercises(exercises)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const ExercisesPage: React.FC = () => {
+  const [customExercises, setCustomExercises] = useState<Exercise[]>([]);
+  const [form, setForm] = useState<ExerciseForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setCustomExercises(getCustomExercises());
+  }, []);
+
+  // Live check of the notation while typing
+  let preview: string[] = [];
+  let notesError: string | null = null;
+  if (form.notes.trim()) {
+    try {
+      preview = parseExerciseNotes(form).map(note => note.label);
+    } catch (err) {
+      notesError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const updateForm = (changes: Partial<ExerciseForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    setFormError(null);
+  };
+
+  const handleSave = () => {
+    try {
+      const exercise = validateExercise({ ...form, id: form.id || undefined });
+      setCustomExercises(addCustomExercises([exercise]));
+      setForm(EMPTY_FORM);
+      setMessage({ text: `Saved "${exercise.name}"`, isError: false });
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleEdit = (exercise: Exercise) => {
+    setForm({ ...exercise, notesPerBeat: exercise.notesPerBeat || 1 });
+    setFormError(null);
+  };
+
+  const handleDelete = (exercise: Exercise) => {
+    if (!confirm(`Delete the exercise "${exercise.name}"?`)) return;
+    setCustomExercises(deleteCustomExercise(exercise.id));
+    if (form.id === exercise.id) setForm(EMPTY_FORM);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = importExercises(await file.text());
+      setCustomExercises(addCustomExercises(imported));
+      setMessage({ text: `Imported ${imported.length} exercise${imported.length === 1 ? '' : 's'}`, isError: false });
+    } catch (err) {
+      console.error('Failed to import exercises:', err);
+      setMessage({ text: `Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`, isError: true });
+    }
+  };
+
+  const sections = [
+    { title: 'Built-in Exercises', exercises: BUILT_IN_EXERCISES },
+    { title: 'Your Exercises', exercises: customExercises },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 to-rose-50">
+      <Head>
+        <title>Exercises | Singing Practice Buddy</title>
+        <meta name="description" content="Alankars, scales and songs to practise along with" />
+      </Head>
+
+      <div className="relative overflow-hidden">
+        <UkuleleBackground />
+
+        <main className="relative z-10 max-w-5xl mx-auto px-4 pt-12 pb-20">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl md:text-5xl font-bold text-amber-900 mb-3">Exercises</h1>
+            <p className="text-lg text-amber-800">
+              Alankars, scales and songs to play along with in exercise mode on the{' '}
+              <Link href="/record" className="underline hover:text-amber-600">Record</Link> page
+            </p>
+          </div>
+
+          <div className="bg-white bg-opacity-90 backdrop-blur-sm rounded-xl shadow-xl p-8 space-y-8">
+            <div className="flex flex-wrap gap-3 justify-end">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-4 py-2 bg-amber-100 text-amber-800 rounded-md hover:bg-amber-200 transition-colors"
+              >
+                Import JSON
+              </button>
+              <button
+                onClick={() => downloadExercises(customExercises, 'exercises.json')}
+                disabled={customExercises.length === 0}
+                className="px-4 py-2 bg-amber-100 text-amber-800 rounded-md hover:bg-amber-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Export Your Exercises
+              </button>
+              <input
+                type="file"
+                ref={fileInputRef}
+                onChange={handleImport}
+                accept="application/json,.json"
+                className="hidden"
+              />
+            </div>
+
+            {message && (
+              <div className={`p-3 rounded-lg text-sm ${message.isError ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-700'}`}>
+                {message.text}
+              </div>
+            )}
+
+            {sections.map(section => (
+              <section key={section.title}>
+                <h2 className="text-xl font-semibold text-amber-900 mb-3">{section.title}</h2>
+                {section.exercises.length === 0 ? (
+                  <p className="text-sm text-amber-700">No exercises yet. Write one below or import a JSON file.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {section.exercises.map(exercise => (
+                      <li key={exercise.id} className="bg-amber-50 rounded-lg p-4">
+                        <div className="flex flex-wrap justify-between items-baseline gap-2 mb-1">
+                          <h3 className="font-medium text-amber-900">
+                            {exercise.name}
+                            <span className="ml-2 text-xs font-normal text-amber-700">
+                              {EXERCISE_KIND_LABELS[exercise.kind]} · {exercise.notation === 'sargam' ? 'Sargam' : 'Western'} ·{' '}
+                              {exercise.tempoBpm} BPM · {getRhythmCycle(exercise.taal)?.name ?? exercise.taal}
+                              {exercise.notesPerBeat && exercise.notesPerBeat > 1 && ` · ${exercise.notesPerBeat} notes per beat`}
+                            </span>
+                          </h3>
+                          <div className="flex gap-3 text-sm">
+                            {isBuiltInExercise(exercise.id) ? (
+                              <button onClick={() => handleEdit({ ...exercise, id: '', name: `${exercise.name} (copy)` })} className="text-amber-600 hover:text-amber-800">
+                                Copy
+                              </button>
+                            ) : (
+                              <>
+                                <button onClick={() => handleEdit(exercise)} className="text-amber-600 hover:text-amber-800">
+                                  Edit
+                                </button>
+                                <button onClick={() => handleDelete(exercise)} className="text-red-500 hover:text-red-700">
+                                  Delete
+                                </button>
+                              </>
+                            )}
+                            <button
+                              onClick={() => downloadExercises([exercise], `${exercise.name}.json`)}
+                              className="text-amber-600 hover:text-amber-800"
+                            >
+                              Export
+                            </button>
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap gap-2 text-amber-800">
+                          {parseExerciseNotes(exercise).map(note => (
+                            <span key={note.startBeat}>{note.label}</span>
+                          ))}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            ))}
+
+            <section className="border-t border-amber-100 pt-6">
+              <h2 className="text-xl font-semibold text-amber-900 mb-3">
+                {form.id ? 'Edit Exercise' : 'New Exercise'}
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-amber-800">
+                <label className="flex flex-col md:col-span-3">
+                  <span className="mb-1">Name</span>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                    placeholder="Alankar: S R G S"
+                    className="p-2 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                  />
+                </label>
+                <label className="flex flex-col">
+                  <span className="mb-1">Kind</span>
+                  <select
+                    value={form.kind}
+                    onChange={(e) => updateForm({ kind: e.target.value as ExerciseKind })}
+                    className="p-2 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                  >
+                    {(Object.keys(EXERCISE_KIND_LABELS) as ExerciseKind[]).map(kind => (
+                      <option key={kind} value={kind}>{EXERCISE_KIND_LABELS[kind]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col">
+                  <span className="mb-1">Notation</span>
+                  <select
+                    value={form.notation}
+                    onChange={(e) => updateForm({ notation: e.target.value as ExerciseNotation })}
+                    className="p-2 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                  >
+                    <option value="sargam">Sargam (against the tanpura&apos;s Sa)</option>
+                    <option value="western">Western (fixed pitch)</option>
+                  </select>
+                </label>
+                <label className="flex flex-col">
+                  <span className="mb-1">Taal / meter</span>
+                  <select
+                    value={form.taal}
+                    onChange={(e) => updateForm({ taal: e.target.value })}
+                    className="p-2 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                  >
+                    {RHYTHM_CYCLES.map(cycle => (
+                      <option key={cycle.id} value={cycle.id}>{cycle.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col">
+                  <span className="mb-1">Tempo (BPM)</span>
+                  <input
+                    type="number"
+                    value={form.tempoBpm}
+                    onChange={(e) => updateForm({ tempoBpm: Number(e.target.value) })}
+                    className="p-2 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                  />
+                </label>
+                <label className="flex flex-col">
+                  <span className="mb-1">Notes per beat</span>
+                  <select
+                    value={form.notesPerBeat}
+                    onChange={(e) => updateForm({ notesPerBeat: Number(e.target.value) })}
+                    className="p-2 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                  >
+                    {[1, 2, 3, 4].map(count => (
+                      <option key={count} value={count}>{count}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col md:col-span-3">
+                  <span className="mb-1">Notes</span>
+                  <textarea
+                    value={form.notes}
+                    onChange={(e) => updateForm({ notes: e.target.value })}
+                    rows={3}
+                    placeholder={form.notation === 'sargam' ? "S R G m | P D N S' | S' - - -" : 'C4 D4 E4 F4 | G4 - - -'}
+                    className="p-2 font-mono border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                  />
+                  <span className="mt-1 text-xs text-amber-700">
+                    {form.notation === 'sargam'
+                      ? "Swaras S r R g G m M P d D n N (lower case komal, M tivra); .N for the lower octave, S' for the upper."
+                      : 'Notes with their octave, such as C4, F#3 or Bb4.'}{' '}
+                    Separate notes with spaces; - holds a note, _ is a rest and | a bar line.
+                  </span>
+                </label>
+              </div>
+
+              {notesError ? (
+                <div className="mt-3 text-sm text-red-500">{notesError}</div>
+              ) : preview.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-2 text-amber-900">
+                  {preview.map((label, i) => (
+                    <span key={i}>{label}</span>
+                  ))}
+                </div>
+              )}
+              {formError && <div className="mt-3 text-sm text-red-500">{formError}</div>}
+
+              <div className="mt-4 flex gap-3">
+                <button
+                  onClick={handleSave}
+                  className="bg-amber-500 hover:bg-amber-600 text-white font-medium py-2 px-6 rounded-lg shadow-md"
+                >
+                  {form.id ? 'Save Changes' : 'Add Exercise'}
+                </button>
+                {(form.id || form.name || form.notes) && (
+                  <button
+                    onClick={() => {
+                      setForm(EMPTY_FORM);
+                      setFormError(null);
+                    }}
+                    className="px-4 py-2 bg-amber-100 text-amber-800 rounded-md hover:bg-amber-200 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </section>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default ExercisesPage;
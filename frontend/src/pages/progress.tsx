@@ -0,0 +1,177 @@
+// pages/progress.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import UkuleleBackground from '../components/UkuleleBackground';
+import TrendChart from '../components/TrendChart';
+import { getAllRecordings, Recording } from '../utils/storage';
+import {
+  PROGRESS_METRICS,
+  ProgressFilter,
+  MetricTrend,
+  collectProgressEntries,
+  filterProgressEntries,
+  getProgressFilterOptions,
+  computeMetricTrend,
+} from '../utils/progress';
+
+const formatChange = (trend: MetricTrend) => {
+  if (trend.change === null) return null;
+  const sign = trend.change > 0 ? '+' : '';
+  const improved = trend.metric.higherIsBetter ? trend.change > 0 : trend.change < 0;
+  return {
+    text: `${sign}${trend.change} ${trend.metric.unit} since last session`,
+    className: trend.change === 0 ? 'text-amber-700' : improved ? 'text-green-600' : 'text-red-500',
+  };
+};
+
+const ProgressPage: React.FC = () => {
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState<ProgressFilter>({});
+
+  useEffect(() => {
+    getAllRecordings()
+      .then(setRecordings)
+      .catch(err => console.error('Failed to load recordings:', err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const entries = useMemo(() => collectProgressEntries(recordings), [recordings]);
+  const filterOptions = useMemo(() => getProgressFilterOptions(entries), [entries]);
+  const filteredEntries = useMemo(() => filterProgressEntries(entries, filter), [entries, filter]);
+  const trends = useMemo(
+    () => PROGRESS_METRICS.map(metric => computeMetricTrend(filteredEntries, metric)),
+    [filteredEntries]
+  );
+
+  // Bests and regressions from the most recent session of each metric
+  const highlights = trends.flatMap(trend => {
+    const latest = trend.latest;
+    if (!latest || trend.points.length < 2) return [];
+    if (latest.isPersonalBest) {
+      return [{ key: trend.metric.id, good: true, text: `New personal best in ${trend.metric.label.toLowerCase()}: ${latest.value} ${trend.metric.unit}` }];
+    }
+    if (latest.isRegression) {
+      return [{ key: trend.metric.id, good: false, text: `${trend.metric.label} dropped to ${latest.value} ${trend.metric.unit} in your last session` }];
+    }
+    return [];
+  });
+
+  const filterSelects: { key: keyof ProgressFilter; label: string; options: string[] }[] = [
+    { key: 'piece', label: 'Piece', options: filterOptions.pieces },
+    { key: 'raga', label: 'Raga', options: filterOptions.ragas },
+    { key: 'tag', label: 'Tag', options: filterOptions.tags },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 to-rose-50">
+      <Head>
+        <title>Progress | Singing Practice Buddy</title>
+        <meta name="description" content="See how your singing has improved over time" />
+      </Head>
+
+      <div className="relative overflow-hidden">
+        <UkuleleBackground />
+
+        <main className="relative z-10 max-w-5xl mx-auto px-4 pt-12 pb-20">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl md:text-5xl font-bold text-amber-900 mb-3">Your Progress</h1>
+            <p className="text-lg text-amber-800">Trends across your analyzed recordings</p>
+          </div>
+
+          <div className="bg-white bg-opacity-90 backdrop-blur-sm rounded-xl shadow-xl p-8 space-y-6">
+            {isLoading ? (
+              <div className="py-8 text-center text-amber-800">Loading recordings...</div>
+            ) : entries.length === 0 ? (
+              <div className="py-8 text-center text-amber-700">
+                <p className="mb-4">No analyzed recordings yet. Analyze a few takes to see your progress here.</p>
+                <Link href="/analyze" className="text-amber-600 hover:text-amber-800 font-medium">
+                  Go to Analyze
+                </Link>
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-4 items-end">
+                  {filterSelects.map(({ key, label, options }) => (
+                    <div key={key}>
+                      <label htmlFor={`filter-${key}`} className="block text-sm text-amber-800 mb-1">{label}</label>
+                      <select
+                        id={`filter-${key}`}
+                        value={filter[key] ?? ''}
+                        onChange={(e) => setFilter(prev => ({ ...prev, [key]: e.target.value || undefined }))}
+                        disabled={options.length === 0}
+                        className="p-2 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 disabled:opacity-50"
+                      >
+                        <option value="">All</option>
+                        {options.map(option => (
+                          <option key={option} value={option}>{option}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  <div className="text-sm text-amber-700 pb-2">
+                    {filteredEntries.length} of {entries.length} analyzed recordings
+                  </div>
+                </div>
+
+                {highlights.length > 0 && (
+                  <ul className="space-y-2">
+                    {highlights.map(highlight => (
+                      <li
+                        key={highlight.key}
+                        className={`p-3 rounded-lg text-sm ${highlight.good ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-600'}`}
+                      >
+                        {highlight.text}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {trends.map(trend => {
+                    const change = formatChange(trend);
+                    const regressions = trend.points.filter(point => point.isRegression);
+                    return (
+                      <div key={trend.metric.id} className="bg-white rounded-lg p-4 shadow-sm border border-amber-100">
+                        <div className="flex justify-between items-baseline mb-2">
+                          <h2 className="font-semibold text-amber-900">{trend.metric.label}</h2>
+                          {trend.latest && (
+                            <span className="text-lg font-bold text-amber-800">
+                              {trend.latest.value} <span className="text-xs font-normal">{trend.metric.unit}</span>
+                            </span>
+                          )}
+                        </div>
+                        <TrendChart trend={trend} />
+                        <div className="mt-2 space-y-1 text-xs">
+                          {change && <div className={change.className}>{change.text}</div>}
+                          {trend.best && trend.points.length > 1 && (
+                            <div className="text-green-600">
+                              Personal best: {trend.best.value} {trend.metric.unit} on {trend.best.date.toLocaleDateString()}
+                            </div>
+                          )}
+                          {regressions.length > 0 && (
+                            <div className="text-red-500">
+                              Dropped back on {regressions.map(point => point.date.toLocaleDateString()).join(', ')}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <p className="text-xs text-amber-700">
+                  Each point is the average of one day&apos;s recordings. Set a piece and tags for a take on the{' '}
+                  <Link href="/saved" className="underline hover:text-amber-900">Saved</Link> page to filter by them.
+                </p>
+              </>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressPage;
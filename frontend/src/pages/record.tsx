@@ -1,10 +1,34 @@
 // pages/record.tsx
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import Head from 'next/head';
 import Link from 'next/link';
-import { saveRecording } from '../utils/storage';
+import { saveRecording, updateRecording } from '../utils/storage';
+import { getAudioBuffer, trackPitch } from '../utils/audioUtils';
 import UkuleleBackground from '../components/UkuleleBackground';
+import LiveTuner from '../components/LiveTuner';
+import TanpuraPanel from '../components/TanpuraPanel';
+import TaalPanel from '../components/TaalPanel';
+import ExercisePanel from '../components/ExercisePanel';
+import {
+  createTanpuraDrone,
+  TanpuraDrone,
+  TanpuraSettings,
+  DEFAULT_TANPURA_SETTINGS,
+} from '../utils/tanpura';
+import {
+  createMetronome,
+  Metronome,
+  MetronomeSettings,
+  DEFAULT_METRONOME_SETTINGS,
+} from '../utils/taal';
+import {
+  Exercise,
+  ExerciseScore,
+  getExerciseLibrary,
+  getCountInBeats,
+  scoreExercise,
+} from '../utils/exercises';
 
 const RecordPage: React.FC = () => {
   const [isRecording, setIsRecording] = useState(false);
@@ -17,6 +41,151 @@ const RecordPage: React.FC = () => {
   const [recordingsList, setRecordingsList] = useState<any[]>([]);
   const [showSavedMessage, setShowSavedMessage] = useState(false);
 
+  // Shared audio graph for the drone and for mixing it into the recording
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const micStreamRef = useRef<MediaStream | null>(null);
+  const droneRef = useRef<TanpuraDrone | null>(null);
+  const [droneSettings, setDroneSettings] = useState<TanpuraSettings>(DEFAULT_TANPURA_SETTINGS);
+  const [isDronePlaying, setIsDronePlaying] = useState(false);
+  const [includeDroneInRecording, setIncludeDroneInRecording] = useState(false);
+  const droneSettingsRef = useRef(droneSettings);
+  const droneUsedInTakeRef = useRef(false);
+
+  // Reference beat while playing
+  const metronomeRef = useRef<Metronome | null>(null);
+  const [metronomeSettings, setMetronomeSettings] = useState<MetronomeSettings>(DEFAULT_METRONOME_SETTINGS);
+  const [isMetronomePlaying, setIsMetronomePlaying] = useState(false);
+  const [currentBeat, setCurrentBeat] = useState<number | null>(null);
+  const metronomeSettingsRef = useRef(metronomeSettings);
+  const metronomeUsedInTakeRef = useRef(false);
+
+  // Exercise mode: play along with a notated exercise and get scored on it
+  const [exerciseMode, setExerciseMode] = useState(false);
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [selectedExerciseId, setSelectedExerciseId] = useState('');
+  const [exerciseElapsed, setExerciseElapsed] = useState<number | null>(null);
+  const [exerciseScore, setExerciseScore] = useState<ExerciseScore | null>(null);
+  const [isScoringExercise, setIsScoringExercise] = useState(false);
+  const exerciseTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    droneSettingsRef.current = droneSettings;
+  }, [droneSettings]);
+
+  useEffect(() => {
+    metronomeSettingsRef.current = metronomeSettings;
+  }, [metronomeSettings]);
+
+  useEffect(() => {
+    const library = getExerciseLibrary();
+    setExercises(library);
+    setSelectedExerciseId(library[0]?.id ?? '');
+  }, []);
+
+  // Silence the drone and release the audio context when leaving the page
+  useEffect(() => {
+    return () => {
+      if (exerciseTimerRef.current) clearInterval(exerciseTimerRef.current);
+      droneRef.current?.stop();
+      metronomeRef.current?.stop();
+      audioContextRef.current?.close();
+    };
+  }, []);
+
+  const getAudioContext = () => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+    }
+    return audioContextRef.current;
+  };
+
+  const getDrone = () => {
+    if (!droneRef.current) {
+      const drone = createTanpuraDrone(getAudioContext(), droneSettingsRef.current);
+      drone.output.connect(getAudioContext().destination);
+      droneRef.current = drone;
+    }
+    return droneRef.current;
+  };
+
+  const toggleDrone = () => {
+    const drone = getDrone();
+    if (drone.isPlaying()) {
+      drone.stop();
+      setIsDronePlaying(false);
+    } else {
+      drone.start();
+      setIsDronePlaying(true);
+      if (isRecording) droneUsedInTakeRef.current = true;
+    }
+  };
+
+  const handleDroneSettingsChange = (changes: Partial<TanpuraSettings>) => {
+    setDroneSettings(prev => ({ ...prev, ...changes }));
+    droneRef.current?.update(changes);
+  };
+
+  const getMetronome = () => {
+    if (!metronomeRef.current) {
+      metronomeRef.current = createMetronome(getAudioContext(), metronomeSettingsRef.current, setCurrentBeat);
+    }
+    return metronomeRef.current;
+  };
+
+  const toggleMetronome = () => {
+    const metronome = getMetronome();
+    if (metronome.isPlaying()) {
+      metronome.stop();
+      setIsMetronomePlaying(false);
+      setCurrentBeat(null);
+    } else {
+      metronome.start();
+      setIsMetronomePlaying(true);
+      if (isRecording) metronomeUsedInTakeRef.current = true;
+    }
+  };
+
+  const handleMetronomeSettingsChange = (changes: Partial<MetronomeSettings>) => {
+    setMetronomeSettings(prev => ({ ...prev, ...changes }));
+    metronomeRef.current?.update(changes);
+  };
+
+  // The metronome follows the exercise's tempo and taal
+  const applyExerciseTiming = (exercise: Exercise | undefined) => {
+    if (exercise) {
+      handleMetronomeSettingsChange({ bpm: exercise.tempoBpm, cycleId: exercise.taal });
+    }
+  };
+
+  const handleExerciseModeChange = (enabled: boolean) => {
+    setExerciseMode(enabled);
+    setExerciseScore(null);
+    if (enabled) applyExerciseTiming(exercises.find(ex => ex.id === selectedExerciseId));
+  };
+
+  const handleExerciseSelect = (id: string) => {
+    setSelectedExerciseId(id);
+    setExerciseScore(null);
+    applyExerciseTiming(exercises.find(ex => ex.id === id));
+  };
+
+  // Score a saved take against the exercise it was played along with
+  const scoreExerciseTake = async (recordingId: string, blob: Blob, exercise: Exercise, tonicHz: number) => {
+    setIsScoringExercise(true);
+    try {
+      const audioBuffer = await getAudioBuffer(blob);
+      const startSeconds = (getCountInBeats(exercise) * 60) / exercise.tempoBpm;
+      const score = scoreExercise(exercise, trackPitch(audioBuffer), tonicHz, startSeconds);
+      await updateRecording(recordingId, { exerciseScore: score });
+      setExerciseScore(score);
+    } catch (err) {
+      console.error('Failed to score exercise:', err);
+      alert('Failed to score the exercise. The recording was still saved.');
+    } finally {
+      setIsScoringExercise(false);
+    }
+  };
+
   // Format seconds into MM:SS
   const formatTime = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
@@ -28,7 +197,33 @@ const RecordPage: React.FC = () => {
     try {
       setRecordingTime(0);
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const recorder = new MediaRecorder(stream);
+      micStreamRef.current = stream;
+
+      // To capture the drone, record a mix of the microphone and the drone's output
+      let recordedStream = stream;
+      if (includeDroneInRecording) {
+        const audioContext = getAudioContext();
+        const mix = audioContext.createMediaStreamDestination();
+        audioContext.createMediaStreamSource(stream).connect(mix);
+        getDrone().output.connect(mix);
+        recordedStream = mix.stream;
+      }
+      droneUsedInTakeRef.current = droneRef.current?.isPlaying() ?? false;
+
+      // An exercise is counted in and kept in time by the metronome
+      const exercise = exerciseMode ? exercises.find(ex => ex.id === selectedExerciseId) : undefined;
+      if (exercise && !metronomeRef.current?.isPlaying()) {
+        getMetronome().start();
+        setIsMetronomePlaying(true);
+      }
+
+      // Line the take up with the cycle so the recording starts on sam
+      metronomeUsedInTakeRef.current = metronomeRef.current?.isPlaying() ?? false;
+      if (metronomeUsedInTakeRef.current) {
+        metronomeRef.current?.restart();
+      }
+
+      const recorder = new MediaRecorder(recordedStream);
       setMediaRecorder(recorder);
       recorder.start();
       setIsRecording(true);
@@ -39,6 +234,16 @@ const RecordPage: React.FC = () => {
         setRecordingTime(prev => prev + 1);
       }, 1000);
 
+      // Follow the exercise finely enough to show each note as it comes up
+      setExerciseScore(null);
+      if (exercise) {
+        const startedAt = performance.now();
+        setExerciseElapsed(0);
+        exerciseTimerRef.current = setInterval(() => {
+          setExerciseElapsed((performance.now() - startedAt) / 1000);
+        }, 50);
+      }
+
       chunks.current = [];
       recorder.ondataavailable = (e) => {
         chunks.current.push(e.data);
@@ -52,21 +257,44 @@ const RecordPage: React.FC = () => {
         // Default recording name if none provided
         const name = recordingName.trim() || `Ukulele Practice - ${new Date().toLocaleDateString()}`;
         
+        // Sargam exercises are sung against the tanpura's Sa even when it is silent
+        const tonicHz = droneUsedInTakeRef.current || exercise?.notation === 'sargam'
+          ? droneSettingsRef.current.tonicHz
+          : undefined;
+
         const recording = {
           id: uuidv4(),
           name,
           blob,
-          url,
           date: new Date().toLocaleString(),
-          duration: recordingTime
+          recordedAt: new Date().toISOString(),
+          duration: recordingTime,
+          // The drone's Sa is the tonic the take was performed against
+          tonicHz,
+          // The metronome's taal and tempo are what the take was meant to follow
+          taal: metronomeUsedInTakeRef.current ? metronomeSettingsRef.current.cycleId : undefined,
+          tempoBpm: metronomeUsedInTakeRef.current ? metronomeSettingsRef.current.bpm : undefined,
+          // Exercise takes are grouped under the exercise on the progress page
+          piece: exercise?.name,
+          exerciseId: exercise?.id
         };
 
-        saveRecording(recording);
-        setShowSavedMessage(true);
-        setTimeout(() => setShowSavedMessage(false), 3000);
-        
-        // Refresh recordings list
-        loadRecordings();
+        saveRecording(recording)
+          .then((id) => {
+            setShowSavedMessage(true);
+            setTimeout(() => setShowSavedMessage(false), 3000);
+
+            // Refresh recordings list
+            loadRecordings();
+
+            if (exercise) {
+              scoreExerciseTake(id, blob, exercise, droneSettingsRef.current.tonicHz);
+            }
+          })
+          .catch(err => {
+            console.error('Error saving recording:', err);
+            alert('Failed to save recording. Please try again.');
+          });
       };
     } catch (err) {
       console.error('Recording failed:', err);
@@ -79,6 +307,14 @@ const RecordPage: React.FC = () => {
       
       // Stop all audio tracks to release the microphone
       mediaRecorder.stream.getTracks().forEach(track => track.stop());
+      micStreamRef.current?.getTracks().forEach(track => track.stop());
+      micStreamRef.current = null;
+
+      // Keep the drone playing through the speakers but out of any mix
+      if (droneRef.current) {
+        droneRef.current.output.disconnect();
+        droneRef.current.output.connect(getAudioContext().destination);
+      }
       
       setIsRecording(false);
       
@@ -87,6 +323,11 @@ const RecordPage: React.FC = () => {
         clearInterval(timerRef.current);
         timerRef.current = null;
       }
+      if (exerciseTimerRef.current) {
+        clearInterval(exerciseTimerRef.current);
+        exerciseTimerRef.current = null;
+      }
+      setExerciseElapsed(null);
     }
   };
 
@@ -195,6 +436,46 @@ const RecordPage: React.FC = () => {
               </div>
             </div>
 
+            <div className="mt-6">
+              <TanpuraPanel
+                settings={droneSettings}
+                onChange={handleDroneSettingsChange}
+                isPlaying={isDronePlaying}
+                onToggle={toggleDrone}
+                includeInRecording={includeDroneInRecording}
+                onIncludeInRecordingChange={setIncludeDroneInRecording}
+                isRecording={isRecording}
+              />
+            </div>
+
+            <div className="mt-6">
+              <TaalPanel
+                settings={metronomeSettings}
+                onChange={handleMetronomeSettingsChange}
+                isPlaying={isMetronomePlaying}
+                onToggle={toggleMetronome}
+                currentBeat={currentBeat}
+              />
+            </div>
+
+            <div className="mt-6">
+              <ExercisePanel
+                enabled={exerciseMode}
+                onEnabledChange={handleExerciseModeChange}
+                exercises={exercises}
+                selectedId={selectedExerciseId}
+                onSelect={handleExerciseSelect}
+                elapsedSeconds={isRecording && exerciseMode ? exerciseElapsed : null}
+                tonicHz={droneSettings.tonicHz}
+                score={exerciseScore}
+                isScoring={isScoringExercise}
+              />
+            </div>
+
+            <div className="mt-6">
+              <LiveTuner />
+            </div>
+
             {audioURL && (
               <div className="mt-6 bg-amber-50 p-4 rounded-lg">
                 <h3 className="text-lg font-medium text-amber-800 mb-3">Preview Your Recording</h3>
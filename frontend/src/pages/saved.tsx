@@ -1,19 +1,13 @@
 // pages/saved.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Head from 'next/head';
 import Link from 'next/link';
-import { getAllRecordings, deleteRecording } from '../utils/storage';
+import { getAllRecordings, deleteRecording, updateRecording, setReferenceRecording, Recording } from '../utils/storage';
 import UkuleleBackground from '../components/UkuleleBackground';
-
-interface Recording {
-  id: string;
-  name: string;
-  date: string;
-  url?: string;
-  duration?: number;
-  size?: number;
-  type?: string;
-}
+import AudioViewer from '../components/AudioViewer';
+import { getAudioBuffer } from '../utils/audioUtils';
+import { hzToWesternNote } from '../utils/noteNames';
+import { getRhythmCycle } from '../utils/taal';
 
 const SavedPage: React.FC = () => {
   const [recordings, setRecordings] = useState<Recording[]>([]);
@@ -23,11 +17,34 @@ const SavedPage: React.FC = () => {
   const [sortBy, setSortBy] = useState<'date' | 'name'>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [searchTerm, setSearchTerm] = useState('');
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+  const [pieceInput, setPieceInput] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
+  const [labelsSaved, setLabelsSaved] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
 
   useEffect(() => {
     loadRecordings();
   }, []);
 
+  // Decode the selected recording for the waveform viewer
+  useEffect(() => {
+    setAudioBuffer(null);
+    const blob = selectedRecording?.blob;
+    if (!blob) return;
+
+    let cancelled = false;
+    getAudioBuffer(blob)
+      .then(buffer => {
+        if (!cancelled) setAudioBuffer(buffer);
+      })
+      .catch(err => console.error('Failed to decode recording:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRecording?.id, selectedRecording?.blob]);
+
   const loadRecordings = async () => {
     setIsLoading(true);
     try {
@@ -58,15 +75,57 @@ const SavedPage: React.FC = () => {
 
   const handleSelectRecording = (recording: Recording) => {
     setSelectedRecording(recording);
+    setPieceInput(recording.piece || '');
+    setTagsInput((recording.tags || []).join(', '));
+    setLabelsSaved(false);
     
-    // If the recording doesn't have a URL property already (from earlier loads)
-    // we would need to fetch the blob and create a URL
-    if (recording.url) {
-      setAudioURL(recording.url);
-    } else {
-      // Here you would typically fetch the blob from your storage
-      // and create a URL from it. For now, we'll just show a placeholder
-      setAudioURL(null);
+    // Stored audio is rehydrated into an object URL when recordings are loaded;
+    // recordings flagged audioMissing have no URL to play
+    setAudioURL(recording.url || null);
+  };
+
+  // Save the piece and tags used to group takes on the progress page
+  const handleSaveLabels = async () => {
+    if (!selectedRecording) return;
+
+    const tags = Array.from(new Set(tagsInput.split(',').map(tag => tag.trim()).filter(Boolean)));
+    const piece = pieceInput.trim() || undefined;
+    try {
+      const updated = await updateRecording(selectedRecording.id, {
+        piece,
+        tags: tags.length > 0 ? tags : undefined,
+        // A reference belongs to its piece; moving it to another piece unmarks it
+        isReference: piece === selectedRecording.piece ? selectedRecording.isReference : false,
+      });
+      if (updated) {
+        const withLabels = (rec: Recording): Recording => (rec.id === updated.id
+          ? { ...rec, piece: updated.piece, tags: updated.tags, isReference: updated.isReference }
+          : rec);
+        setRecordings(prev => prev.map(withLabels));
+        setSelectedRecording(prev => prev && withLabels(prev));
+        setLabelsSaved(true);
+      }
+    } catch (err) {
+      console.error('Failed to save piece and tags:', err);
+    }
+  };
+
+  // Make the selected take the one other takes of its piece are scored against
+  const handleToggleReference = async (isReference: boolean) => {
+    if (!selectedRecording) return;
+
+    try {
+      const updated = await setReferenceRecording(selectedRecording.id, isReference);
+      if (updated) {
+        const withReference = (rec: Recording): Recording => {
+          if (rec.id === updated.id) return { ...rec, isReference: updated.isReference };
+          return isReference && rec.piece === updated.piece ? { ...rec, isReference: false } : rec;
+        };
+        setRecordings(prev => prev.map(withReference));
+        setSelectedRecording(prev => prev && withReference(prev));
+      }
+    } catch (err) {
+      console.error('Failed to set the reference take:', err);
     }
   };
 
@@ -228,7 +287,15 @@ const SavedPage: React.FC = () => {
                           onClick={() => handleSelectRecording(recording)}
                         >
                           <div className="flex justify-between">
-                            <h3 className="font-medium text-amber-900 truncate pr-4">{recording.name}</h3>
+                            <h3 className="font-medium text-amber-900 truncate pr-4">
+                              {recording.name}
+                              {recording.isReference && (
+                                <span className="ml-2 text-xs font-normal text-green-700">Reference</span>
+                              )}
+                              {recording.audioMissing && (
+                                <span className="ml-2 text-xs font-normal text-red-600">Audio missing</span>
+                              )}
+                            </h3>
                             <button 
                               onClick={(e) => {
                                 e.stopPropagation();
@@ -296,6 +363,18 @@ const SavedPage: React.FC = () => {
                           </div>
                         )}
                         
+                        {selectedRecording.tonicHz && (
+                          <div className="flex items-center">
+                            Sa: {hzToWesternNote(selectedRecording.tonicHz).name} ({selectedRecording.tonicHz} Hz)
+                          </div>
+                        )}
+
+                        {selectedRecording.tempoBpm && (
+                          <div className="flex items-center">
+                            {getRhythmCycle(selectedRecording.taal)?.name ?? 'Metronome'} at {selectedRecording.tempoBpm} BPM
+                          </div>
+                        )}
+
                         {selectedRecording.type && (
                           <div className="flex items-center">
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1 text-amber-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -309,17 +388,109 @@ const SavedPage: React.FC = () => {
 
                     <div className="bg-amber-50 rounded-lg p-4 mb-6">
                       {audioURL ? (
-                        <audio src={audioURL} controls className="w-full" />
+                        <>
+                          <audio ref={audioRef} src={audioURL} controls className="w-full" />
+                          {audioBuffer && (
+                            <div className="mt-4">
+                              <AudioViewer audioBuffer={audioBuffer} audioRef={audioRef} />
+                            </div>
+                          )}
+                        </>
                       ) : (
                         <div className="text-center py-4 text-amber-700">
                           <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 mx-auto text-amber-500 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 11c0 3.517-1.009 6.799-2.753 9.571m-3.44-2.04l.054-.09A13.916 13.916 0 008 11a4 4 0 118 0c0 1.017-.07 2.019-.203 3m-2.118 6.844A21.88 21.88 0 0015.171 17m3.839 1.132c.645-2.266.99-4.659.99-7.132A8 8 0 008 4.07M3 15.364c.64-1.319 1-2.8 1-4.364 0-1.457.39-2.823 1.07-4" />
                           </svg>
-                          <p>Audio playback not available</p>
+                          <p>
+                            {selectedRecording.audioMissing
+                              ? 'The audio for this recording is missing. It was saved before recordings were kept between sessions.'
+                              : 'Audio playback not available'}
+                          </p>
                         </div>
                       )}
                     </div>
 
+                    <div className="flex flex-wrap gap-3 items-end mb-6">
+                      <div className="flex-1 min-w-[10rem]">
+                        <label htmlFor="piece" className="block text-sm text-amber-800 mb-1">Piece</label>
+                        <input
+                          type="text"
+                          id="piece"
+                          value={pieceInput}
+                          onChange={(e) => { setPieceInput(e.target.value); setLabelsSaved(false); }}
+                          placeholder="e.g. Alankar 3"
+                          className="w-full p-2 border text-amber-950 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        />
+                      </div>
+                      <div className="flex-1 min-w-[10rem]">
+                        <label htmlFor="tags" className="block text-sm text-amber-800 mb-1">Tags (comma separated)</label>
+                        <input
+                          type="text"
+                          id="tags"
+                          value={tagsInput}
+                          onChange={(e) => { setTagsInput(e.target.value); setLabelsSaved(false); }}
+                          placeholder="e.g. warm-up, lesson"
+                          className="w-full p-2 border text-amber-950 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        />
+                      </div>
+                      <button
+                        onClick={handleSaveLabels}
+                        className="py-2 px-4 bg-amber-100 hover:bg-amber-200 text-amber-800 rounded-md transition-colors"
+                      >
+                        {labelsSaved ? 'Saved' : 'Save'}
+                      </button>
+                    </div>
+
+                    <label className={`flex items-center text-sm mb-6 ${selectedRecording.piece ? 'text-amber-800' : 'text-amber-800/50'}`}>
+                      <input
+                        type="checkbox"
+                        checked={!!selectedRecording.isReference}
+                        disabled={!selectedRecording.piece}
+                        onChange={(e) => handleToggleReference(e.target.checked)}
+                        className="mr-2 accent-amber-500"
+                      />
+                      {selectedRecording.piece
+                        ? `Reference take for "${selectedRecording.piece}": other takes of this piece are scored against it`
+                        : 'Save a piece name to use this take as a reference'}
+                    </label>
+
+                    {selectedRecording.analysisResults && (
+                      <div className="bg-amber-50 rounded-lg p-4 mb-6 text-sm text-amber-800">
+                        <div className="flex justify-between items-baseline mb-1">
+                          <h3 className="font-semibold text-amber-900">Latest Analysis</h3>
+                          <span className="text-xs text-amber-700">
+                            {selectedRecording.analysisResults.analyzedAt
+                              ? new Date(selectedRecording.analysisResults.analyzedAt).toLocaleString()
+                              : 'Undated'}
+                            {selectedRecording.analysisHistory && selectedRecording.analysisHistory.length > 0 &&
+                              ` · ${selectedRecording.analysisHistory.length} earlier`}
+                          </span>
+                        </div>
+                        <p>{selectedRecording.analysisResults.result.summary}</p>
+                        <div className="flex flex-wrap gap-x-6 gap-y-1 mt-2">
+                          <span>Mood: {selectedRecording.analysisResults.result.primaryEmotion.emotion}</span>
+                          <span>Tempo: {selectedRecording.analysisResults.result.tempo} BPM</span>
+                          <span>Accuracy: {selectedRecording.analysisResults.result.notes.accuracyPercentage}%</span>
+                          {selectedRecording.analysisResults.result.raga?.matches[0] && (
+                            <span>Raga: {selectedRecording.analysisResults.result.raga.matches[0].name}</span>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    {selectedRecording.exerciseScore && (
+                      <div className="bg-amber-50 rounded-lg p-4 mb-6 text-sm text-amber-800">
+                        <div className="flex justify-between items-baseline mb-1">
+                          <h3 className="font-semibold text-amber-900">Exercise: {selectedRecording.exerciseScore.exerciseName}</h3>
+                          <span className="font-semibold">{selectedRecording.exerciseScore.accuracyPercentage}%</span>
+                        </div>
+                        <p>
+                          {selectedRecording.exerciseScore.correctNotes} of {selectedRecording.exerciseScore.totalNotes} notes
+                          within {selectedRecording.exerciseScore.tolerances.pitchCents} cents
+                        </p>
+                      </div>
+                    )}
+
                     <div className="flex flex-wrap gap-3">
                       <Link 
                         href={`/analyze?id=${selectedRecording.id}`} 
@@ -328,8 +499,17 @@ const SavedPage: React.FC = () => {
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
                         </svg>
-                        Analyze
+                        {selectedRecording.analysisResults ? 'View Analysis' : 'Analyze'}
                       </Link>
+
+                      {recordings.length > 1 && (
+                        <Link
+                          href={`/compare?a=${selectedRecording.id}`}
+                          className="py-2 px-4 bg-amber-100 hover:bg-amber-200 text-amber-800 rounded-md transition-colors flex items-center"
+                        >
+                          Compare
+                        </Link>
+                      )}
                       
                       {audioURL && (
                         <button 
@@ -0,0 +1,270 @@
+// pages/settings.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import Head from 'next/head';
+import UkuleleBackground from '../components/UkuleleBackground';
+import {
+  AnalysisSettings,
+  AnalysisProviderId,
+  HttpAnalysisFormat,
+  DEFAULT_ANALYSIS_SETTINGS,
+  getAnalysisSettings,
+  saveAnalysisSettings,
+} from '../utils/analysisSettings';
+import {
+  FeedbackRule,
+  BUILT_IN_FEEDBACK_RULES,
+  FEEDBACK_SEVERITY_LABELS,
+  getCustomFeedbackRules,
+  saveCustomFeedbackRules,
+  importFeedbackRules,
+  exportFeedbackRules,
+} from '../utils/feedback';
+
+const PROVIDER_CHOICES: { id: AnalysisProviderId; label: string; description: string }[] = [
+  {
+    id: 'local',
+    label: 'In the browser',
+    description: 'Recordings never leave this device. Works offline.',
+  },
+  {
+    id: 'http',
+    label: 'Analysis server',
+    description: 'Recordings are uploaded to the server below for analysis.',
+  },
+];
+
+const FORMAT_CHOICES: { id: HttpAnalysisFormat; label: string; example: string }[] = [
+  { id: 'fastapi', label: 'FastAPI service (backend/)', example: 'http://localhost:8000/analyze' },
+  { id: 'app', label: 'Musical Raga /api/analyze (takes are sent as WAV)', example: '/api/analyze' },
+];
+
+// Download feedback rules as a JSON file that can be imported elsewhere
+const downloadFeedbackRules = (rules: FeedbackRule[]) => {
+  const blob = new Blob([exportFeedbackRules(rules)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = 'feedback-rules.json';
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Rule conditions in the shape they're written, e.g. "tempo.driftPercent > 5"
+const describeConditions = (rule: FeedbackRule) =>
+  rule.when.map(condition => `${condition.metric} ${condition.op} ${JSON.stringify(condition.value)}`).join(' and ');
+
+const SettingsPage: React.FC = () => {
+  const [settings, setSettings] = useState<AnalysisSettings>(DEFAULT_ANALYSIS_SETTINGS);
+  const [showSavedMessage, setShowSavedMessage] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [feedbackRules, setFeedbackRules] = useState<FeedbackRule[]>([]);
+  const [rulesMessage, setRulesMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const rulesInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setSettings(getAnalysisSettings());
+    setFeedbackRules(getCustomFeedbackRules());
+  }, []);
+
+  const updateFeedbackRules = (rules: FeedbackRule[]) => {
+    saveCustomFeedbackRules(rules);
+    setFeedbackRules(rules);
+  };
+
+  const handleImportRules = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = importFeedbackRules(await file.text());
+      // An imported rule replaces the one with its id
+      const importedIds = new Set(imported.map(rule => rule.id));
+      updateFeedbackRules([...feedbackRules.filter(rule => !importedIds.has(rule.id)), ...imported]);
+      setRulesMessage({ text: `Imported ${imported.length} rule${imported.length === 1 ? '' : 's'}`, isError: false });
+    } catch (err) {
+      console.error('Failed to import feedback rules:', err);
+      setRulesMessage({ text: `Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`, isError: true });
+    }
+  };
+
+  const handleSave = () => {
+    if (settings.provider === 'http' && !settings.endpoint.trim()) {
+      setError('Enter the URL of the analysis server.');
+      return;
+    }
+
+    setError(null);
+    saveAnalysisSettings({ ...settings, endpoint: settings.endpoint.trim() });
+    setShowSavedMessage(true);
+    setTimeout(() => setShowSavedMessage(false), 3000);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 to-rose-50">
+      <Head>
+        <title>Settings | Singing Practice Buddy</title>
+        <meta name="description" content="Choose where your recordings are analyzed" />
+      </Head>
+
+      <div className="relative overflow-hidden">
+        <UkuleleBackground />
+
+        <main className="relative z-10 max-w-3xl mx-auto px-4 pt-12 pb-20">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl md:text-5xl font-bold text-amber-900 mb-3">Settings</h1>
+            <p className="text-lg text-amber-800">Choose where your recordings are analyzed</p>
+          </div>
+
+          <div className="bg-white bg-opacity-90 backdrop-blur-sm rounded-xl shadow-xl p-8 space-y-6">
+            <div>
+              <h2 className="text-xl font-semibold text-amber-900 mb-3">Analysis</h2>
+              <div className="space-y-2">
+                {PROVIDER_CHOICES.map(choice => (
+                  <label
+                    key={choice.id}
+                    className={`flex items-start p-3 rounded-lg cursor-pointer border ${
+                      settings.provider === choice.id ? 'border-amber-500 bg-amber-50' : 'border-amber-100 hover:bg-amber-50/60'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="provider"
+                      checked={settings.provider === choice.id}
+                      onChange={() => setSettings(prev => ({ ...prev, provider: choice.id }))}
+                      className="mt-1 mr-3 accent-amber-500"
+                    />
+                    <span>
+                      <span className="block font-medium text-amber-900">{choice.label}</span>
+                      <span className="block text-sm text-amber-700">{choice.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {settings.provider === 'http' && (
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="httpFormat" className="block text-amber-800 mb-2">Server type</label>
+                  <select
+                    id="httpFormat"
+                    value={settings.httpFormat}
+                    onChange={(e) => setSettings(prev => ({ ...prev, httpFormat: e.target.value as HttpAnalysisFormat }))}
+                    className="w-full p-2 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                  >
+                    {FORMAT_CHOICES.map(choice => (
+                      <option key={choice.id} value={choice.id}>{choice.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="endpoint" className="block text-amber-800 mb-2">Endpoint URL</label>
+                  <input
+                    type="text"
+                    id="endpoint"
+                    value={settings.endpoint}
+                    onChange={(e) => setSettings(prev => ({ ...prev, endpoint: e.target.value }))}
+                    placeholder={FORMAT_CHOICES.find(choice => choice.id === settings.httpFormat)?.example}
+                    className="w-full p-2 border text-amber-900 border-amber-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                  />
+                  <p className="text-xs text-amber-700 mt-1">
+                    For offline testing, run <code>yarn stub-server</code> and use http://localhost:8000/analyze with the FastAPI server type.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {error && <div className="text-red-500">{error}</div>}
+
+            <button
+              onClick={handleSave}
+              className="bg-amber-500 hover:bg-amber-600 text-white font-medium py-2 px-6 rounded-lg transition-all duration-300 shadow-md"
+            >
+              Save Settings
+            </button>
+
+            {showSavedMessage && (
+              <div className="p-2 bg-green-100 text-green-700 rounded-md text-center">
+                Settings saved.
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white bg-opacity-90 backdrop-blur-sm rounded-xl shadow-xl p-8 space-y-4 mt-8">
+            <div>
+              <h2 className="text-xl font-semibold text-amber-900 mb-1">Feedback rules</h2>
+              <p className="text-sm text-amber-700">
+                Add your own feedback as JSON rules, e.g.{' '}
+                <code>{'{ "id": "slow-down", "severity": "suggestion", "when": [{ "metric": "tempo.playedBpm", "op": ">", "value": 120 }], "message": "Take this piece slower for now." }'}</code>.
+                A rule with the id of a built-in one replaces it. Rules apply to takes analyzed from now on.
+              </p>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={() => rulesInputRef.current?.click()}
+                className="px-4 py-2 bg-amber-100 text-amber-800 rounded-md hover:bg-amber-200 transition-colors"
+              >
+                Import JSON
+              </button>
+              <button
+                onClick={() => downloadFeedbackRules(feedbackRules)}
+                disabled={feedbackRules.length === 0}
+                className="px-4 py-2 bg-amber-100 text-amber-800 rounded-md hover:bg-amber-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Export Your Rules
+              </button>
+              <input
+                type="file"
+                ref={rulesInputRef}
+                onChange={handleImportRules}
+                accept="application/json,.json"
+                className="hidden"
+              />
+            </div>
+
+            {rulesMessage && (
+              <div className={`p-3 rounded-lg text-sm ${rulesMessage.isError ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-700'}`}>
+                {rulesMessage.text}
+              </div>
+            )}
+
+            {feedbackRules.length === 0 ? (
+              <p className="text-sm text-amber-700">
+                No rules of your own yet; the {BUILT_IN_FEEDBACK_RULES.length} built-in rules are used.
+              </p>
+            ) : (
+              <ul className="divide-y divide-amber-100">
+                {feedbackRules.map(rule => (
+                  <li key={rule.id} className="py-2 flex items-start justify-between gap-3">
+                    <div>
+                      <span className="font-medium text-amber-900">{rule.id}</span>
+                      <span className="text-xs text-amber-600 ml-2">
+                        {FEEDBACK_SEVERITY_LABELS[rule.severity]}
+                        {BUILT_IN_FEEDBACK_RULES.some(builtIn => builtIn.id === rule.id) && ' · replaces built-in'}
+                      </span>
+                      <p className="text-xs text-amber-700 font-mono">{describeConditions(rule)}</p>
+                    </div>
+                    <button
+                      onClick={() => updateFeedbackRules(feedbackRules.filter(other => other.id !== rule.id))}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
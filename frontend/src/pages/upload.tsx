@@ -72,13 +72,13 @@ const UploadPage: React.FC = () => {
         id: uuidv4(),
         name,
         blob,
-        url: audioURL,
         date: new Date().toLocaleString(),
+        recordedAt: new Date().toISOString(),
         size: uploadedFile.size,
         type: uploadedFile.type
       };
 
-      saveRecording(recording);
+      await saveRecording(recording);
       setShowSavedMessage(true);
       setTimeout(() => setShowSavedMessage(false), 3000);
     } catch (err) {
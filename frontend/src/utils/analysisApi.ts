@@ -0,0 +1,69 @@
+// utils/analysisApi.ts
+/**
+ * Request and response contract of the /api/analyze route
+ * Requests are multipart/form-data with the recording in an "audio" file
+ * field and optional "tonicHz", "intendedTempo", "taal", "locale" and
+ * "feedbackRules" text fields (see AnalysisOptions). Every response carries the contract version so
+ * scripts can tell when the shape of the result changes.
+ */
+
+import { AudioAnalysisResult } from './emotionDetector';
+
+// Bump when AudioAnalysisResult or the response envelope changes shape
+export const ANALYSIS_API_VERSION = 6;
+
+export type AnalyzeErrorCode =
+  | 'method_not_allowed'     // only POST is accepted
+  | 'unsupported_media_type' // body isn't multipart, or the audio isn't a format the server can decode
+  | 'payload_too_large'      // the upload or the take is longer than the server accepts
+  | 'missing_audio'          // no "audio" file field
+  | 'invalid_field'          // an option field didn't parse
+  | 'decode_failed'          // the audio claimed a supported format but couldn't be read
+  | 'analysis_failed';
+
+export interface AnalyzeSuccessResponse {
+  version: typeof ANALYSIS_API_VERSION;
+  result: AudioAnalysisResult;
+}
+
+export interface AnalyzeErrorResponse {
+  version: typeof ANALYSIS_API_VERSION;
+  error: {
+    code: AnalyzeErrorCode;
+    message: string;
+  };
+}
+
+export type AnalyzeResponse = AnalyzeSuccessResponse | AnalyzeErrorResponse;
+
+/**
+ * Distinguish an error response from a successful one
+ */
+export const isAnalyzeError = (response: AnalyzeResponse): response is AnalyzeErrorResponse => {
+  return 'error' in response;
+};
+
+/**
+ * Check whether a parsed response body is a response of this contract version
+ * Only the envelope and the top-level result fields every consumer reads are
+ * checked; a server on another version fails the check.
+ */
+export const isAnalyzeResponse = (body: unknown): body is AnalyzeResponse => {
+  const candidate = body as { version?: unknown; error?: Partial<AnalyzeErrorResponse['error']>; result?: Partial<AudioAnalysisResult> } | null;
+  if (!candidate || candidate.version !== ANALYSIS_API_VERSION) return false;
+
+  if (candidate.error) {
+    return typeof candidate.error.code === 'string' && typeof candidate.error.message === 'string';
+  }
+
+  const result = candidate.result;
+  return !!result &&
+    typeof result.primaryEmotion?.emotion === 'string' &&
+    Array.isArray(result.emotions) &&
+    typeof result.tempo === 'number' &&
+    typeof result.duration === 'number' &&
+    typeof result.notes?.accuracyPercentage === 'number' &&
+    Array.isArray(result.transcription) &&
+    Array.isArray(result.feedback) &&
+    typeof result.summary === 'string';
+};
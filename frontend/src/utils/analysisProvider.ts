@@ -0,0 +1,128 @@
+// utils/analysisProvider.ts
+/**
+ * Analysis providers: where a recording's analysis actually runs
+ * The local provider runs the DSP pipeline in the browser; the HTTP provider
+ * uploads the audio to a server, either this app's /api/analyze route or
+ * the FastAPI service in backend/, and maps its response to the same
+ * AudioAnalysisResult. This app's route only decodes WAV, so other
+ * recordings are converted before they're sent there.
+ */
+
+import { AudioAnalysisResult, AnalysisOptions } from './emotionDetector';
+import { runAnalysisInWorker, AnalysisProgress } from './analysisRunner';
+import { AnalysisSettings, HttpAnalysisFormat } from './analysisSettings';
+import { ANALYSIS_API_VERSION, isAnalyzeResponse, isAnalyzeError } from './analysisApi';
+import { isBackendAnalyzeResponse, mapBackendResponse } from './backendResponse';
+import { getAudioBuffer } from './audioUtils';
+import { isWav } from './wavDecoder';
+import { encodeWav } from './wavEncoder';
+
+/**
+ * One recording to analyze
+ */
+export interface AnalysisRequest {
+  audio: Blob;
+  options?: AnalysisOptions;                        // tonic and tempo hints
+  audioBuffer?: AudioBuffer | null;                 // the recording already decoded; saves decoding it again
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal;                             // aborting cancels the run
+}
+
+export interface AnalysisProvider {
+  id: AnalysisSettings['provider'];
+  name: string;
+  analyze: (request: AnalysisRequest) => Promise<AudioAnalysisResult>;
+}
+
+/**
+ * Provider that analyzes in the browser
+ */
+export const createLocalProvider = (): AnalysisProvider => ({
+  id: 'local',
+  name: 'In the browser',
+  analyze: ({ audio, options, audioBuffer, onProgress, signal }) => {
+    return runAnalysisInWorker(audio, options, audioBuffer, onProgress, signal);
+  },
+});
+
+/**
+ * The recording as WAV, decoding and re-encoding it unless it already is
+ */
+const toWav = async (audio: Blob, audioBuffer?: AudioBuffer | null): Promise<Blob> => {
+  if (isWav(new Uint8Array(await audio.slice(0, 12).arrayBuffer()))) return audio;
+  return encodeWav(audioBuffer || await getAudioBuffer(audio));
+};
+
+/**
+ * Provider that uploads the recording to an analysis server
+ */
+export const createHttpProvider = (endpoint: string, format: HttpAnalysisFormat): AnalysisProvider => ({
+  id: 'http',
+  name: format === 'fastapi' ? 'FastAPI service' : 'Analysis server',
+  analyze: async ({ audio, options = {}, audioBuffer, onProgress, signal }) => {
+    const form = new FormData();
+    // The FastAPI route names its upload "file" and decodes any format; this app's route uses "audio" and needs WAV
+    if (format === 'fastapi') {
+      form.append('file', audio, 'recording');
+    } else {
+      form.append('audio', await toWav(audio, audioBuffer), 'recording.wav');
+    }
+    // Scoring against a reference take only runs in the browser; servers get the take alone
+    if (format === 'app') {
+      if (options.tonicHz) form.append('tonicHz', String(options.tonicHz));
+      if (options.intendedTempo) form.append('intendedTempo', String(options.intendedTempo));
+      if (options.taal) form.append('taal', options.taal);
+      if (options.feedbackRules?.length) form.append('feedbackRules', JSON.stringify(options.feedbackRules));
+      if (options.locale) form.append('locale', options.locale);
+    }
+
+    // The server doesn't report progress, so the whole wait counts as one stage
+    onProgress?.({ stage: 'pitch', fraction: 0.1 });
+
+    let response: Response;
+    try {
+      response = await fetch(endpoint, { method: 'POST', body: form, signal });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error reaching analysis server:', error);
+      throw new Error(`Could not reach the analysis server at ${endpoint}.`);
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      throw new Error(`The analysis server replied with status ${response.status} and no readable result.`);
+    }
+
+    if (format === 'app') {
+      const version = (body as { version?: unknown } | null)?.version;
+      if (version !== ANALYSIS_API_VERSION) {
+        throw new Error(`The analysis server answered with API version ${String(version ?? 'unknown')}; this app needs version ${ANALYSIS_API_VERSION}.`);
+      }
+      if (!isAnalyzeResponse(body)) {
+        throw new Error(`The analysis server returned an unexpected response (status ${response.status}).`);
+      }
+      if (isAnalyzeError(body)) {
+        throw new Error(body.error.message);
+      }
+      return body.result;
+    }
+
+    // The FastAPI service reports failures as { "error": "..." }, with a 200 status
+    if (isBackendAnalyzeResponse(body)) {
+      return mapBackendResponse(body, options);
+    }
+    const message = (body as { error?: unknown } | null)?.error;
+    throw new Error(typeof message === 'string' ? message : `The analysis server returned an unexpected response (status ${response.status}).`);
+  },
+});
+
+/**
+ * Provider for the given settings
+ */
+export const getAnalysisProvider = (settings: AnalysisSettings): AnalysisProvider => {
+  return settings.provider === 'http'
+    ? createHttpProvider(settings.endpoint, settings.httpFormat)
+    : createLocalProvider();
+};
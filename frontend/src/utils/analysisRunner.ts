@@ -0,0 +1,150 @@
+// utils/analysisRunner.ts
+/**
+ * Runs the local analysis in a Web Worker so long takes don't freeze the page
+ * The audio is decoded here (decodeAudioData already works off the main
+ * thread), then its samples are handed to a worker running
+ * analyzeAudioBuffer, which reports progress as it goes. Each run gets its
+ * own worker, so cancelling simply terminates it.
+ */
+
+import {
+  AudioAnalysisResult,
+  AnalysisOptions,
+  AnalysisStage,
+  analyzeAudioBuffer,
+} from './emotionDetector';
+import { getAudioBuffer } from './audioUtils';
+
+/**
+ * Message the page sends to the analysis worker
+ */
+export interface AnalysisWorkerRequest {
+  channels: Float32Array<ArrayBuffer>[];
+  sampleRate: number;
+  options: AnalysisOptions;
+}
+
+/**
+ * Messages the analysis worker sends back
+ */
+export type AnalysisWorkerMessage =
+  | { type: 'progress'; stage: AnalysisStage; fraction: number }
+  | { type: 'result'; result: AudioAnalysisResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Progress of a whole run
+ */
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  fraction: number; // of the whole run, 0-1
+}
+
+// Share of the run each stage takes, roughly in proportion to its running time
+const STAGE_SPANS: Record<AnalysisStage, [number, number]> = {
+  decode: [0, 0.1],
+  pitch: [0.1, 0.6],
+  reference: [0.6, 0.75],
+  tempo: [0.75, 0.9],
+  emotion: [0.9, 1],
+};
+
+export const STAGE_LABELS: Record<AnalysisStage, string> = {
+  decode: 'Decoding audio',
+  pitch: 'Tracking pitch',
+  reference: 'Scoring against the reference',
+  tempo: 'Finding the beat',
+  emotion: 'Reading dynamics and mood',
+};
+
+/**
+ * Convert progress within a stage to progress of the whole run
+ */
+const toRunProgress = (stage: AnalysisStage, fraction: number): AnalysisProgress => {
+  const [start, end] = STAGE_SPANS[stage];
+  return { stage, fraction: start + (end - start) * Math.max(0, Math.min(1, fraction)) };
+};
+
+/**
+ * Error thrown when a run is cancelled through its AbortSignal
+ */
+const abortError = () => new DOMException('Analysis was cancelled', 'AbortError');
+
+/**
+ * Check whether an error came from cancelling a run
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+/**
+ * Analyze a recording in a Web Worker
+ * @param audio The recording
+ * @param options Tonic and tempo hints for the analysis
+ * @param audioBuffer The recording already decoded, to skip decoding it again
+ * @param onProgress Called as the run moves through its stages
+ * @param signal Aborting it cancels the run, which then rejects with an AbortError
+ */
+export const runAnalysisInWorker = async (
+  audio: Blob,
+  options: AnalysisOptions = {},
+  audioBuffer?: AudioBuffer | null,
+  onProgress?: (progress: AnalysisProgress) => void,
+  signal?: AbortSignal
+): Promise<AudioAnalysisResult> => {
+  if (signal?.aborted) throw abortError();
+
+  onProgress?.(toRunProgress('decode', 0));
+  const decoded = audioBuffer || await getAudioBuffer(audio);
+  if (signal?.aborted) throw abortError();
+  onProgress?.(toRunProgress('decode', 1));
+
+  // Without worker support, fall back to analyzing on the page
+  if (typeof Worker === 'undefined') {
+    return analyzeAudioBuffer(decoded, options, (stage, fraction) => onProgress?.(toRunProgress(stage, fraction)));
+  }
+
+  // Copies, so the decoded buffer the page holds stays usable after the transfer
+  const channels = Array.from({ length: decoded.numberOfChannels }, (_, c) => decoded.getChannelData(c).slice());
+
+  return new Promise<AudioAnalysisResult>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url));
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(toRunProgress(message.stage, message.fraction));
+      } else if (message.type === 'result') {
+        finish();
+        resolve(message.result);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'The analysis worker failed'));
+    };
+
+    const request: AnalysisWorkerRequest = {
+      channels,
+      sampleRate: decoded.sampleRate,
+      options,
+    };
+    const transfer = [...channels, ...(options.reference?.channels || [])].map(channel => channel.buffer);
+    worker.postMessage(request, transfer);
+  });
+};
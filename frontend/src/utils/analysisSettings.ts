@@ -0,0 +1,49 @@
+// utils/analysisSettings.ts
+/**
+ * User settings for where recordings are analyzed
+ * Kept in localStorage alongside the recording metadata.
+ */
+
+export type AnalysisProviderId = 'local' | 'http';
+
+// Response format spoken by the HTTP endpoint
+export type HttpAnalysisFormat =
+  | 'app'      // this app's /api/analyze route (utils/analysisApi.ts)
+  | 'fastapi'; // the Python service in backend/
+
+export interface AnalysisSettings {
+  provider: AnalysisProviderId;
+  endpoint: string;          // URL requests are POSTed to when provider is 'http'
+  httpFormat: HttpAnalysisFormat;
+}
+
+// Key for storing the settings in localStorage
+const SETTINGS_KEY = 'analysis-settings';
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  provider: 'local',
+  endpoint: 'http://localhost:8000/analyze',
+  httpFormat: 'fastapi',
+};
+
+/**
+ * Read the analysis settings, falling back to the defaults for anything unset
+ */
+export const getAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const settingsJson = localStorage.getItem(SETTINGS_KEY);
+    return settingsJson
+      ? { ...DEFAULT_ANALYSIS_SETTINGS, ...JSON.parse(settingsJson) }
+      : DEFAULT_ANALYSIS_SETTINGS;
+  } catch (error) {
+    console.error('Error reading analysis settings:', error);
+    return DEFAULT_ANALYSIS_SETTINGS;
+  }
+};
+
+/**
+ * Save the analysis settings
+ */
+export const saveAnalysisSettings = (settings: AnalysisSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
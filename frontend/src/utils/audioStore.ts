@@ -0,0 +1,92 @@
+// utils/audioStore.ts
+/**
+ * IndexedDB-backed store for recording audio
+ * localStorage only keeps recording metadata; the audio blobs live here so
+ * they survive page reloads and browser restarts.
+ */
+
+const DB_NAME = 'musicalraaga-audio';
+const DB_VERSION = 1;
+const STORE_NAME = 'recordings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and on first use, create) the audio database
+ * The connection is cached for the lifetime of the page.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Run a single request against the audio object store
+ */
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = createRequest(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || request.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Audio store transaction aborted'));
+  });
+};
+
+/**
+ * Store the audio blob for a recording, replacing any existing audio
+ * @param id ID of the recording the audio belongs to
+ * @param blob Audio data
+ */
+export async function putAudio(id: string, blob: Blob): Promise<void> {
+  await runRequest('readwrite', store => store.put(blob, id));
+}
+
+/**
+ * Get the audio blob for a recording
+ * @param id ID of the recording
+ * @returns Promise<Blob | null> The stored audio, or null if there is none
+ */
+export async function getAudio(id: string): Promise<Blob | null> {
+  const result = await runRequest<unknown>('readonly', store => store.get(id));
+  return result instanceof Blob ? result : null;
+}
+
+/**
+ * Delete the audio blob for a recording
+ * @param id ID of the recording
+ */
+export async function deleteAudio(id: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(id));
+}
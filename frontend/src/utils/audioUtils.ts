@@ -5,137 +5,774 @@
  */
 export const getAudioBuffer = async (blob: Blob): Promise<AudioBuffer> => {
   const arrayBuffer = await blob.arrayBuffer();
-  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-  return await audioContext.decodeAudioData(arrayBuffer);
+  const audioContext = new (window.AudioContext || (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+  try {
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    // Browsers cap the number of open contexts, and this one is only needed for decoding
+    audioContext.close();
+  }
 };
 
 /**
- * Detects the fundamental pitch/frequency of an audio sample using autocorrelation
- * Returns frequency in Hz
+ * A single frame of a pitch track
+ * f0 is 0 for frames without a detectable pitch (silence or noise)
  */
-export const detectPitch = (audioBuffer: AudioBuffer): number => {
-  // Get audio data from the first channel
-  const bufferLength = audioBuffer.length;
-  const sampleRate = audioBuffer.sampleRate;
-  const channelData = audioBuffer.getChannelData(0);
-  
-  // Use autocorrelation to find the fundamental frequency
-  const correlations: number[] = [];
-  const maxLag = Math.floor(sampleRate / 60); // For detecting frequencies down to ~60Hz
-  
-  for (let lag = 0; lag < maxLag; lag++) {
-    let correlation = 0;
-    const comparisonSamples = Math.floor(bufferLength / 3); // Use a subset for performance
-    
-    for (let i = 0; i < comparisonSamples; i++) {
-      if (i + lag < bufferLength) {
-        correlation += channelData[i] * channelData[i + lag];
-      }
+export interface PitchFrame {
+  time: number;    // seconds from the start of the audio
+  f0: number;      // fundamental frequency in Hz
+  clarity: number; // 0-1, how strongly periodic the frame is
+}
+
+/**
+ * Summary statistics of the pitched frames of a pitch track
+ */
+export interface PitchStatistics {
+  average: number;     // Hz
+  variance: number;    // Hz squared
+  median: number;      // Hz
+  voicedRatio: number; // fraction of frames that carried a pitch
+}
+
+/**
+ * Options for trackPitch
+ */
+export interface PitchTrackOptions {
+  hopSeconds?: number;     // time between frames, default 10ms
+  minF0?: number;          // lowest fundamental to look for in Hz
+  maxF0?: number;          // highest fundamental to look for in Hz
+  yinThreshold?: number;   // YIN aperiodicity threshold below which a frame is voiced
+  onProgress?: (fraction: number) => void; // called now and then with the fraction of audio tracked so far
+}
+
+/**
+ * Loudness statistics of an audio sample in dBFS
+ */
+export interface DynamicsProfile {
+  average: number;
+  min: number;
+  max: number;
+  envelope: number[];       // RMS level in dBFS for each envelope window
+  envelopeInterval: number; // length of an envelope window in seconds
+}
+
+/**
+ * Short-time magnitude spectrum of an audio sample
+ */
+export interface Spectrogram {
+  frames: Float32Array[]; // level in dB (relative to full scale) per frequency bin, one array per frame
+  frameInterval: number;  // seconds between frames
+  binHz: number;          // width of a frequency bin
+}
+
+/**
+ * A stretch of a pitch track held on one semitone
+ */
+export interface NoteSegment {
+  start: number; // seconds
+  end: number;   // seconds
+  midi: number;  // median pitch as a fractional MIDI note number
+}
+
+/**
+ * Note counts derived from a pitch track
+ */
+export interface NoteStats {
+  totalNotes: number;
+  inTuneNotes: number;
+}
+
+/**
+ * How far one onset landed from its beat on the fitted grid
+ */
+export interface TimingDeviation {
+  time: number;        // onset time in seconds
+  deviationMs: number; // positive when late (dragging), negative when early (rushing)
+}
+
+/**
+ * A stretch of a recording, in seconds
+ */
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where a recording hit full scale
+ */
+export interface ClippingReport {
+  share: number;       // fraction of samples at full scale, 0-1
+  ranges: TimeRange[]; // stretches with clipped samples
+}
+
+/**
+ * Local tempo at a point in the recording
+ */
+export interface TempoPoint {
+  time: number; // centre of the measuring window in seconds
+  bpm: number;
+}
+
+/**
+ * Timing of the onsets against a steady beat grid fitted to them
+ */
+export interface TimingAnalysis {
+  bpm: number;                    // tempo of the fitted grid
+  deviations: TimingDeviation[];  // on-beat onsets only
+  tempoCurve: TempoPoint[];
+  meanAbsDeviationMs: number;
+  stability: number;              // 0-100, higher is steadier
+}
+
+// Sample rate pitch tracking runs at; enough bandwidth for voice and ukulele fundamentals
+const PITCH_SAMPLE_RATE = 11025;
+
+// Lowest and highest fundamentals the pitch tracker looks for by default
+const MIN_F0 = 60;
+const MAX_F0 = 1000;
+
+// Default YIN threshold; 0.1-0.2 is the usual range for voice and plucked strings
+const YIN_THRESHOLD = 0.15;
+
+// Integration window of the YIN difference function, in seconds
+const YIN_WINDOW_SECONDS = 0.025;
+
+// Onsets further than this fraction of a beat from the grid are treated as off-beat notes
+const ON_BEAT_TOLERANCE = 0.35;
+
+// Window and hop for measuring the tempo curve, in seconds
+const TEMPO_WINDOW_SECONDS = 4;
+const TEMPO_HOP_SECONDS = 1;
+
+// Sample rate and frame sizes for the spectrogram; covers the range up to about 5.5 kHz
+const SPECTROGRAM_SAMPLE_RATE = 11025;
+const SPECTROGRAM_FFT_SIZE = 1024;
+const SPECTROGRAM_HOP_SIZE = 256;
+
+// Frames quieter than this are treated as silence (dBFS)
+const SILENCE_DB = -60;
+
+// Cents from the nearest equal-tempered semitone within which a note counts as in tune
+const IN_TUNE_CENTS = 25;
+
+// Shortest run on one semitone that counts as a note rather than a glide
+const MIN_NOTE_SECONDS = 0.08;
+
+// Samples at or above this magnitude count as clipped
+const CLIP_LEVEL = 0.999;
+
+// Clipped samples closer together than this share a range, in seconds
+const CLIP_MERGE_SECONDS = 0.1;
+
+/**
+ * Mixes all channels of an AudioBuffer down to a single mono channel
+ */
+export const getMonoSamples = (audioBuffer: AudioBuffer): Float32Array => {
+  const { numberOfChannels, length } = audioBuffer;
+  if (numberOfChannels === 1) {
+    return audioBuffer.getChannelData(0);
+  }
+
+  const mono = new Float32Array(length);
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const channelData = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      mono[i] += channelData[i] / numberOfChannels;
     }
-    
-    correlations.push(correlation);
   }
-  
-  // Find the first peak after the initial drop
-  let firstDropIndex = 0;
-  while (firstDropIndex < correlations.length - 1 && 
-         correlations[firstDropIndex + 1] >= correlations[firstDropIndex]) {
-    firstDropIndex++;
+  return mono;
+};
+
+/**
+ * Reduces the sample rate by an integer factor, averaging each block of samples
+ * The averaging acts as a crude low-pass filter so the result doesn't alias badly.
+ */
+export const downsample = (
+  samples: Float32Array,
+  sampleRate: number,
+  targetRate: number
+): { samples: Float32Array; sampleRate: number } => {
+  const factor = Math.max(1, Math.floor(sampleRate / targetRate));
+  if (factor === 1) {
+    return { samples, sampleRate };
   }
-  
-  let peakIndex = firstDropIndex + 1;
-  for (let i = firstDropIndex + 1; i < correlations.length - 1; i++) {
-    if (correlations[i] > correlations[peakIndex]) {
-      peakIndex = i;
+
+  const output = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < output.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) {
+      sum += samples[i * factor + j];
     }
+    output[i] = sum / factor;
   }
-  
-  // Calculate frequency from the peak index
-  const fundamentalFrequency = sampleRate / peakIndex;
-  
-  // Return frequency rounded to nearest 0.1 Hz
-  return Math.round(fundamentalFrequency * 10) / 10;
+  return { samples: output, sampleRate: sampleRate / factor };
 };
 
 /**
- * Estimates the tempo (BPM) of an audio sample using onset detection
- * Returns tempo in beats per minute
+ * Converts an RMS amplitude to decibels relative to full scale
  */
-export const estimateTempo = (audioBuffer: AudioBuffer): number => {
-  const channelData = audioBuffer.getChannelData(0);
-  const sampleRate = audioBuffer.sampleRate;
-  
-  // Create energy profile using RMS (root mean square) in short windows
-  const windowSize = Math.floor(sampleRate * 0.02); // 20ms windows
-  const energyProfile: number[] = [];
-  
-  for (let i = 0; i < channelData.length; i += windowSize) {
+export const toDbfs = (rms: number): number => {
+  return rms > 0 ? Math.max(-100, 20 * Math.log10(rms)) : -100;
+};
+
+/**
+ * Calculates the RMS amplitude of consecutive windows of samples
+ */
+export const computeRmsEnvelope = (
+  samples: Float32Array,
+  sampleRate: number,
+  windowSeconds: number
+): number[] => {
+  const windowSize = Math.max(1, Math.floor(sampleRate * windowSeconds));
+  const envelope: number[] = [];
+
+  for (let i = 0; i < samples.length; i += windowSize) {
     let sum = 0;
-    const limit = Math.min(i + windowSize, channelData.length);
-    
+    const limit = Math.min(i + windowSize, samples.length);
+
     for (let j = i; j < limit; j++) {
-      sum += channelData[j] * channelData[j]; // Square for energy
+      sum += samples[j] * samples[j];
     }
-    
-    const rms = Math.sqrt(sum / (limit - i));
-    energyProfile.push(rms);
+
+    envelope.push(Math.sqrt(sum / (limit - i)));
   }
-  
-  // Find onsets (peaks in energy)
+
+  return envelope;
+};
+
+/**
+ * In-place radix-2 FFT; the length must be a power of two
+ */
+const fft = (real: Float64Array, imag: Float64Array): void => {
+  const n = real.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tReal = real[b] * wReal - imag[b] * wImag;
+        const tImag = real[b] * wImag + imag[b] * wReal;
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+
+        const nextReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextReal;
+      }
+    }
+  }
+};
+
+/**
+ * Computes a spectrogram (short-time Fourier transform with a Hann window)
+ */
+export const computeSpectrogram = (audioBuffer: AudioBuffer): Spectrogram => {
+  const { samples, sampleRate } = downsample(getMonoSamples(audioBuffer), audioBuffer.sampleRate, SPECTROGRAM_SAMPLE_RATE);
+  const size = SPECTROGRAM_FFT_SIZE;
+
+  const hann = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  }
+  // Scale so a full-scale sine reads close to 0 dB
+  const scale = 2 / hann.reduce((acc, w) => acc + w, 0);
+
+  const frames: Float32Array[] = [];
+  const real = new Float64Array(size);
+  const imag = new Float64Array(size);
+
+  for (let start = 0; start + size <= samples.length; start += SPECTROGRAM_HOP_SIZE) {
+    for (let i = 0; i < size; i++) {
+      real[i] = samples[start + i] * hann[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    const levels = new Float32Array(size / 2);
+    for (let k = 0; k < size / 2; k++) {
+      levels[k] = toDbfs(Math.hypot(real[k], imag[k]) * scale);
+    }
+    frames.push(levels);
+  }
+
+  return {
+    frames,
+    frameInterval: SPECTROGRAM_HOP_SIZE / sampleRate,
+    binHz: sampleRate / size,
+  };
+};
+
+/**
+ * Estimates the fundamental frequency of one frame with the YIN algorithm
+ * (de Cheveigné & Kawahara, 2002): cumulative mean normalised difference,
+ * absolute threshold and parabolic interpolation of the chosen dip.
+ * The frame must hold at least windowSize + sampleRate / minF0 samples.
+ * Returns f0 = 0 when the frame is not periodic enough to be a note.
+ */
+export const detectFramePitch = (
+  frame: Float32Array,
+  sampleRate: number,
+  options: Pick<PitchTrackOptions, 'minF0' | 'maxF0' | 'yinThreshold'> = {}
+): { f0: number; clarity: number } => {
+  const minF0 = options.minF0 ?? MIN_F0;
+  const maxF0 = options.maxF0 ?? MAX_F0;
+  const threshold = options.yinThreshold ?? YIN_THRESHOLD;
+
+  const minLag = Math.max(2, Math.floor(sampleRate / maxF0));
+  const maxLag = Math.floor(sampleRate / minF0);
+  const windowSize = frame.length - maxLag - 1;
+  if (windowSize <= 0) return { f0: 0, clarity: 0 };
+
+  // Difference function d(tau)
+  const difference = new Float32Array(maxLag + 2);
+  for (let lag = 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i < windowSize; i++) {
+      const delta = frame[i] - frame[i + lag];
+      sum += delta * delta;
+    }
+    difference[lag] = sum;
+  }
+
+  // Cumulative mean normalised difference d'(tau)
+  const normalized = new Float32Array(maxLag + 2);
+  normalized[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag + 1; lag++) {
+    runningSum += difference[lag];
+    normalized[lag] = runningSum > 0 ? (difference[lag] * lag) / runningSum : 1;
+  }
+
+  // First dip below the threshold, followed down to its local minimum
+  let bestLag = -1;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (normalized[lag] < threshold) {
+      while (lag + 1 <= maxLag && normalized[lag + 1] < normalized[lag]) {
+        lag++;
+      }
+      bestLag = lag;
+      break;
+    }
+  }
+
+  if (bestLag === -1) {
+    let minValue = 1;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      minValue = Math.min(minValue, normalized[lag]);
+    }
+    return { f0: 0, clarity: Math.max(0, 1 - minValue) };
+  }
+
+  // Parabolic interpolation around the dip for sub-sample lag resolution
+  const previous = normalized[bestLag - 1];
+  const current = normalized[bestLag];
+  const next = normalized[bestLag + 1];
+  const denominator = previous - 2 * current + next;
+  const shift = denominator !== 0 ? (previous - next) / (2 * denominator) : 0;
+  const refinedLag = bestLag + Math.max(-1, Math.min(1, shift));
+
+  return {
+    f0: sampleRate / refinedLag,
+    clarity: Math.max(0, Math.min(1, 1 - current)),
+  };
+};
+
+/**
+ * Tracks the fundamental frequency of an audio sample over time
+ * The audio is downsampled before YIN runs on overlapping frames, which keeps
+ * long takes fast; one frame is returned every hopSeconds.
+ */
+export const trackPitch = (audioBuffer: AudioBuffer, options: PitchTrackOptions = {}): PitchFrame[] => {
+  const { samples, sampleRate } = downsample(getMonoSamples(audioBuffer), audioBuffer.sampleRate, PITCH_SAMPLE_RATE);
+
+  const minF0 = options.minF0 ?? MIN_F0;
+  const windowSize = Math.floor(sampleRate * YIN_WINDOW_SECONDS);
+  const frameSize = windowSize + Math.floor(sampleRate / minF0) + 2;
+  const hopSize = Math.max(1, Math.floor(sampleRate * (options.hopSeconds ?? 0.01)));
+  const track: PitchFrame[] = [];
+  const progressEvery = Math.max(1, Math.floor(samples.length / hopSize / 50));
+
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    if (options.onProgress && track.length % progressEvery === 0) {
+      options.onProgress(start / samples.length);
+    }
+
+    const frame = samples.subarray(start, start + frameSize);
+    const time = (start + windowSize / 2) / sampleRate;
+
+    // Only the integration window decides whether the frame is silent
+    let sum = 0;
+    for (let i = 0; i < windowSize; i++) {
+      sum += frame[i] * frame[i];
+    }
+
+    if (toDbfs(Math.sqrt(sum / windowSize)) <= SILENCE_DB) {
+      track.push({ time, f0: 0, clarity: 0 });
+      continue;
+    }
+
+    const { f0, clarity } = detectFramePitch(frame, sampleRate, options);
+    track.push({ time, f0, clarity });
+  }
+
+  return track;
+};
+
+/**
+ * Summarizes the pitched frames of a pitch track
+ */
+export const summarizePitch = (track: PitchFrame[]): PitchStatistics => {
+  const voiced = track.filter(frame => frame.f0 > 0).map(frame => frame.f0);
+  if (voiced.length === 0) {
+    return { average: 0, variance: 0, median: 0, voicedRatio: 0 };
+  }
+
+  const average = voiced.reduce((acc, f0) => acc + f0, 0) / voiced.length;
+  const variance = voiced.reduce((acc, f0) => acc + (f0 - average) ** 2, 0) / voiced.length;
+  const sorted = [...voiced].sort((a, b) => a - b);
+
+  return {
+    average,
+    variance,
+    median: sorted[Math.floor(sorted.length / 2)],
+    voicedRatio: voiced.length / track.length,
+  };
+};
+
+/**
+ * Detects the fundamental pitch/frequency of an audio sample
+ * Returns the median of its pitch track in Hz, or 0 if nothing was pitched
+ */
+export const detectPitch = (audioBuffer: AudioBuffer): number => {
+  const { median } = summarizePitch(trackPitch(audioBuffer));
+
+  // Return frequency rounded to nearest 0.1 Hz
+  return Math.round(median * 10) / 10;
+};
+
+/**
+ * Finds note onsets from rises in short-term energy
+ * Returns onset times in seconds
+ */
+export const detectOnsets = (audioBuffer: AudioBuffer): number[] => {
+  const sampleRate = audioBuffer.sampleRate;
+  const windowSeconds = 0.02; // 20ms windows
+  const energyProfile = computeRmsEnvelope(getMonoSamples(audioBuffer), sampleRate, windowSeconds);
+
+  // Onset strength is the rise in energy from one window to the next
+  const flux = energyProfile.map((energy, i) => (i > 0 ? Math.max(0, energy - energyProfile[i - 1]) : 0));
+  const threshold = calculateDynamicThreshold(flux);
+
   const onsets: number[] = [];
-  const threshold = calculateDynamicThreshold(energyProfile);
-  
-  for (let i = 1; i < energyProfile.length - 1; i++) {
-    if (energyProfile[i] > threshold && 
-        energyProfile[i] > energyProfile[i-1] && 
-        energyProfile[i] >= energyProfile[i+1]) {
-      onsets.push(i);
+  const minGapWindows = 3; // ignore re-triggers within 60ms of the previous onset
+
+  for (let i = 1; i < flux.length - 1; i++) {
+    if (flux[i] > threshold &&
+        flux[i] > flux[i - 1] &&
+        flux[i] >= flux[i + 1]) {
+      const lastOnset = onsets[onsets.length - 1];
+      if (lastOnset === undefined || i - lastOnset >= minGapWindows) {
+        onsets.push(i);
+      }
     }
   }
-  
+
+  return onsets.map(index => index * windowSeconds);
+};
+
+/**
+ * Estimates the tempo (BPM) of an audio sample using onset detection
+ * Returns tempo in beats per minute, or 0 when there are too few onsets
+ */
+export const estimateTempo = (audioBuffer: AudioBuffer): number => {
+  return estimateTempoFromOnsets(detectOnsets(audioBuffer));
+};
+
+/**
+ * Estimates the tempo (BPM) from a list of onset times in seconds
+ */
+export const estimateTempoFromOnsets = (onsets: number[]): number => {
   // Calculate intervals between onsets
   const intervals: number[] = [];
   for (let i = 1; i < onsets.length; i++) {
     intervals.push(onsets[i] - onsets[i-1]);
   }
-  
-  // Find the most common interval using a histogram approach
+
+  // Find the most common interval using a histogram of 40ms bins
   const histogramBins: {[key: number]: number} = {};
   intervals.forEach(interval => {
-    // Group similar intervals
-    const normalizedInterval = Math.round(interval / 2) * 2;
-    histogramBins[normalizedInterval] = (histogramBins[normalizedInterval] || 0) + 1;
+    const normalizedInterval = Math.round(interval / 0.04);
+    if (normalizedInterval > 0) {
+      histogramBins[normalizedInterval] = (histogramBins[normalizedInterval] || 0) + 1;
+    }
   });
-  
+
   let mostCommonInterval = 0;
   let maxCount = 0;
-  
+
   Object.entries(histogramBins).forEach(([interval, count]) => {
     if (count > maxCount) {
       maxCount = count;
       mostCommonInterval = parseInt(interval);
     }
   });
-  
-  // Convert interval to BPM
-  // Time between windows = windowSize / sampleRate (in seconds)
-  // Time between peaks = mostCommonInterval * (windowSize / sampleRate)
-  // BPM = 60 / time between peaks
-  const secondsPerWindow = windowSize / sampleRate;
-  const secondsPerBeat = mostCommonInterval * secondsPerWindow;
+
+  if (mostCommonInterval === 0) return 0;
+
+  // Refine the bin to the mean of the intervals that fell into it
+  const binIntervals = intervals.filter(interval => Math.round(interval / 0.04) === mostCommonInterval);
+  const secondsPerBeat = binIntervals.reduce((acc, interval) => acc + interval, 0) / binIntervals.length;
   let bpm = 60 / secondsPerBeat;
-  
-  // Adjust if BPM is outside typical range
-  if (bpm > 240) bpm /= 2;
-  if (bpm < 60) bpm *= 2;
-  
+
+  // Fold into the typical range
+  while (bpm > 240) bpm /= 2;
+  while (bpm < 60) bpm *= 2;
+
   return Math.round(bpm);
 };
 
+/**
+ * Least-squares line through (beat index, time) pairs
+ * Returns the time of beat 0 and the seconds per beat, or null when the
+ * points don't span at least two different beats.
+ */
+const fitBeatLine = (points: { index: number; time: number }[]): { offset: number; period: number } | null => {
+  if (points.length < 2) return null;
+
+  const n = points.length;
+  const meanIndex = points.reduce((acc, p) => acc + p.index, 0) / n;
+  const meanTime = points.reduce((acc, p) => acc + p.time, 0) / n;
+
+  let covariance = 0;
+  let indexVariance = 0;
+  points.forEach(p => {
+    covariance += (p.index - meanIndex) * (p.time - meanTime);
+    indexVariance += (p.index - meanIndex) ** 2;
+  });
+
+  if (indexVariance === 0) return null;
+
+  const period = covariance / indexVariance;
+  return period > 0 ? { offset: meanTime - period * meanIndex, period } : null;
+};
+
+/**
+ * Measures how evenly onsets follow a beat
+ * Onsets are walked in order and given beat numbers using a running estimate
+ * of the beat length, so gradual tempo drift doesn't throw the counting off.
+ * A steady grid is then fitted to the numbered onsets: deviations from it
+ * show rushing and dragging, and grids fitted over short windows give the
+ * tempo curve. Onsets between beats (subdivisions) are left out.
+ * @param onsets Onset times in seconds
+ * @param bpm Tempo at the beat level to measure against
+ * @returns null when there are too few on-beat onsets to fit a grid
+ */
+export const analyzeTiming = (onsets: number[], bpm: number): TimingAnalysis | null => {
+  if (bpm <= 0 || onsets.length < 4) return null;
+
+  // Number the on-beat onsets
+  const beats: { index: number; time: number }[] = [{ index: 0, time: onsets[0] }];
+  let period = 60 / bpm;
+
+  for (let i = 1; i < onsets.length; i++) {
+    const last = beats[beats.length - 1];
+    const elapsed = onsets[i] - last.time;
+    const beatsElapsed = Math.round(elapsed / period);
+
+    if (beatsElapsed === 0 || Math.abs(elapsed / period - beatsElapsed) > ON_BEAT_TOLERANCE) continue;
+
+    beats.push({ index: last.index + beatsElapsed, time: onsets[i] });
+    period = 0.8 * period + 0.2 * (elapsed / beatsElapsed);
+  }
+
+  const grid = fitBeatLine(beats);
+  if (!grid || beats.length < 4) return null;
+
+  const deviations = beats.map(beat => ({
+    time: Math.round(beat.time * 1000) / 1000,
+    deviationMs: Math.round((beat.time - (grid.offset + grid.period * beat.index)) * 1000),
+  }));
+
+  // Local tempo from a grid fitted to each window
+  const tempoCurve: TempoPoint[] = [];
+  const end = beats[beats.length - 1].time;
+  for (let start = beats[0].time; start + TEMPO_WINDOW_SECONDS <= end + TEMPO_HOP_SECONDS; start += TEMPO_HOP_SECONDS) {
+    const local = fitBeatLine(beats.filter(beat => beat.time >= start && beat.time < start + TEMPO_WINDOW_SECONDS));
+    if (local) {
+      tempoCurve.push({
+        time: Math.round((start + TEMPO_WINDOW_SECONDS / 2) * 10) / 10,
+        bpm: Math.round((60 / local.period) * 10) / 10,
+      });
+    }
+  }
+
+  const meanAbsDeviation = deviations.reduce((acc, d) => acc + Math.abs(d.deviationMs), 0) / deviations.length;
+  const rmsDeviation = Math.sqrt(deviations.reduce((acc, d) => acc + d.deviationMs ** 2, 0) / deviations.length) / 1000;
+
+  // Stability combines note-to-note evenness (an RMS error of 15% of a beat
+  // scores zero) with how much the tempo wanders (a 10% spread scores zero)
+  const evenness = Math.max(0, 1 - rmsDeviation / grid.period / 0.15);
+  let stability = evenness;
+  if (tempoCurve.length > 1) {
+    const meanBpm = tempoCurve.reduce((acc, p) => acc + p.bpm, 0) / tempoCurve.length;
+    const spread = Math.sqrt(tempoCurve.reduce((acc, p) => acc + (p.bpm - meanBpm) ** 2, 0) / tempoCurve.length) / meanBpm;
+    stability = 0.6 * evenness + 0.4 * Math.max(0, 1 - spread / 0.1);
+  }
+
+  return {
+    bpm: Math.round((60 / grid.period) * 10) / 10,
+    deviations,
+    tempoCurve,
+    meanAbsDeviationMs: Math.round(meanAbsDeviation),
+    stability: Math.round(stability * 100),
+  };
+};
+
+/**
+ * Measures the loudness of an audio sample as an RMS envelope in dBFS
+ * Silent windows are left out of the average and range.
+ */
+export const computeDynamics = (audioBuffer: AudioBuffer): DynamicsProfile => {
+  const samples = getMonoSamples(audioBuffer);
+  const sampleRate = audioBuffer.sampleRate;
+  const envelopeInterval = 0.1;
+
+  const envelope = computeRmsEnvelope(samples, sampleRate, envelopeInterval).map(toDbfs);
+  const active = envelope.filter(level => level > SILENCE_DB).sort((a, b) => a - b);
+
+  if (active.length === 0) {
+    return { average: -100, min: -100, max: -100, envelope, envelopeInterval };
+  }
+
+  const average = active.reduce((acc, level) => acc + level, 0) / active.length;
+  // The 10th percentile keeps a few near-silent windows from swamping the range
+  const min = active[Math.floor(active.length * 0.1)];
+  const max = active[active.length - 1];
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    average: round(average),
+    min: round(min),
+    max: round(max),
+    envelope: envelope.map(round),
+    envelopeInterval,
+  };
+};
+
+/**
+ * Splits a pitch track into notes
+ * A note is a run of at least MIN_NOTE_SECONDS that stays on the same semitone.
+ */
+export const segmentNotes = (track: PitchFrame[]): NoteSegment[] => {
+  const frameSeconds = track.length > 1 ? track[1].time - track[0].time : 0.01;
+  const minFrames = Math.max(1, Math.round(MIN_NOTE_SECONDS / frameSeconds));
+
+  const notes: NoteSegment[] = [];
+  let run: PitchFrame[] = [];
+  let runSemitone = 0;
+
+  const closeRun = () => {
+    if (run.length >= minFrames) {
+      const sorted = run.map(frame => 69 + 12 * Math.log2(frame.f0 / 440)).sort((a, b) => a - b);
+      notes.push({
+        start: run[0].time,
+        end: run[run.length - 1].time + frameSeconds,
+        midi: sorted[Math.floor(sorted.length / 2)],
+      });
+    }
+    run = [];
+  };
+
+  track.forEach(frame => {
+    if (frame.f0 <= 0) {
+      closeRun();
+      return;
+    }
+    const semitone = Math.round(69 + 12 * Math.log2(frame.f0 / 440));
+    if (run.length > 0 && semitone !== runSemitone) {
+      closeRun();
+    }
+    runSemitone = semitone;
+    run.push(frame);
+  });
+  closeRun();
+
+  return notes;
+};
+
+/**
+ * Splits a pitch track into notes and counts how many were played in tune
+ * A note is in tune when its median pitch is within IN_TUNE_CENTS of equal
+ * temperament.
+ */
+export const countNotes = (track: PitchFrame[]): NoteStats => {
+  const notes = segmentNotes(track);
+  return {
+    totalNotes: notes.length,
+    inTuneNotes: notes.filter(note => Math.abs(note.midi - Math.round(note.midi)) * 100 <= IN_TUNE_CENTS).length,
+  };
+};
+
+/**
+ * Finds where a recording clipped: samples at full scale in any channel
+ */
+export const detectClipping = (audioBuffer: AudioBuffer): ClippingReport => {
+  const clipped = new Uint8Array(audioBuffer.length);
+  for (let c = 0; c < audioBuffer.numberOfChannels; c++) {
+    const data = audioBuffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      if (Math.abs(data[i]) >= CLIP_LEVEL) clipped[i] = 1;
+    }
+  }
+
+  const ranges: TimeRange[] = [];
+  let count = 0;
+  for (let i = 0; i < clipped.length; i++) {
+    if (!clipped[i]) continue;
+    count++;
+    const time = i / audioBuffer.sampleRate;
+    const last = ranges[ranges.length - 1];
+    if (last && time - last.end <= CLIP_MERGE_SECONDS) {
+      last.end = time;
+    } else {
+      ranges.push({ start: time, end: time });
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    share: clipped.length > 0 ? count / clipped.length : 0,
+    ranges: ranges.map(range => ({ start: round(range.start), end: round(range.end + 1 / audioBuffer.sampleRate) })),
+  };
+};
+
 /**
  * Helper function to calculate a dynamic threshold for onset detection
  */
 const calculateDynamicThreshold = (energyProfile: number[]): number => {
+  if (energyProfile.length === 0) return 0;
+
   // Calculate mean energy
   const sum = energyProfile.reduce((acc, val) => acc + val, 0);
   const mean = sum / energyProfile.length;
@@ -0,0 +1,164 @@
+// utils/backendResponse.ts
+/**
+ * Mapping from the FastAPI service's /analyze response to AudioAnalysisResult
+ * The service returns an emotion (same model file and labels as the local
+ * analysis, but its own feature measurements; see emotionModel.ts), a CREPE
+ * pitch track (one frequency per 10 ms frame) with note names, a tempo and a
+ * raga recommended for the mood. What it doesn't measure is filled in from its
+ * pitch track with the same helpers the local analysis uses (tonic, raga
+ * recognition, rasa, intonation, ornaments, note accuracy, transcription,
+ * feedback), and the rest is left null.
+ */
+
+import { AudioAnalysisResult, AnalysisOptions, EmotionData, TonicInfo, compareTempo } from './emotionDetector';
+import { PitchFrame, summarizePitch, countNotes } from './audioUtils';
+import { estimateTonic } from './swara';
+import { recognizeRaga } from './ragaRecognizer';
+import { transcribeNotes } from './transcription';
+import { EMOTION_LABELS, toPercentages } from './emotionModel';
+import { analyzeRasa } from './rasa';
+import { measureIntonation } from './intonation';
+import { detectOrnaments } from './ornaments';
+import { collectFeedbackMetrics, combineFeedbackRules, evaluateFeedback, localizeMessage } from './feedback';
+import { DEFAULT_LOCALE } from './feedbackMessages';
+
+/**
+ * Successful response of the FastAPI service (backend/main.py)
+ */
+export interface BackendAnalyzeResponse {
+  emotion: {
+    label: string;      // one of EMOTION_LABELS, or "unknown"
+    confidence: number; // 0-1
+    scores?: Record<string, number>; // 0-1 for every label; older versions of the service leave it out
+  };
+  pitch: {
+    data: number[];     // Hz per frame
+    labels: string[];   // note name per frame, or "silence"
+  };
+  tempo: number;
+  raaga: string;
+}
+
+/**
+ * Error response of the FastAPI service
+ */
+export interface BackendErrorResponse {
+  error: string;
+}
+
+// CREPE's default step between pitch frames, in seconds
+const BACKEND_PITCH_HOP_SECONDS = 0.01;
+
+// Labels of older versions of the service and the nearest shared labels
+const LEGACY_EMOTION_LABELS: Record<string, string> = {
+  happy: 'Joyful',
+  sad: 'Melancholic',
+  calm: 'Peaceful',
+  angry: 'Dramatic',
+  fear: 'Dramatic',
+  surprise: 'Playful',
+  disgust: 'Dramatic',
+  neutral: 'Peaceful',
+};
+
+/**
+ * Check whether a parsed response body has the shape of a successful FastAPI response
+ */
+export const isBackendAnalyzeResponse = (body: unknown): body is BackendAnalyzeResponse => {
+  const candidate = body as Partial<BackendAnalyzeResponse> | null;
+  return !!candidate &&
+    typeof candidate.emotion?.label === 'string' &&
+    Array.isArray(candidate.pitch?.data) &&
+    typeof candidate.tempo === 'number';
+};
+
+/**
+ * Convert a FastAPI /analyze response into an AudioAnalysisResult
+ */
+export const mapBackendResponse = (
+  response: BackendAnalyzeResponse,
+  options: AnalysisOptions = {}
+): AudioAnalysisResult => {
+  // Rebuild a pitch track; the service doesn't send per-frame confidence
+  const pitchTrack: PitchFrame[] = response.pitch.data.map((f0, i) => {
+    const voiced = f0 > 0 && response.pitch.labels[i] !== 'silence';
+    return { time: i * BACKEND_PITCH_HOP_SECONDS, f0: voiced ? f0 : 0, clarity: voiced ? 1 : 0 };
+  });
+  const { average: pitchAverage, variance: pitchVariance } = summarizePitch(pitchTrack);
+
+  let tonic: TonicInfo | null = null;
+  if (options.tonicHz) {
+    tonic = { hz: options.tonicHz, source: 'manual', confidence: 1 };
+  } else {
+    const estimate = estimateTonic(pitchTrack);
+    tonic = estimate ? { hz: estimate.hz, source: 'detected', confidence: estimate.confidence } : null;
+  }
+  const raga = tonic ? recognizeRaga(pitchTrack, { tonic }) : null;
+  const intonation = tonic ? measureIntonation(pitchTrack, tonic.hz) : null;
+  const ornaments = detectOrnaments(pitchTrack, tonic?.hz);
+
+  const { totalNotes, inTuneNotes } = countNotes(pitchTrack);
+  const accuracyPercentage = totalNotes > 0 ? Math.round((inTuneNotes / totalNotes) * 100) : 0;
+
+  const label = response.emotion.label;
+  const known = EMOTION_LABELS.includes(label) ? label : LEGACY_EMOTION_LABELS[label.toLowerCase()];
+
+  // Every label's confidence when the service sends them, otherwise just the top one
+  const scores = Object.entries(response.emotion.scores ?? {})
+    .filter(([emotion, score]) => EMOTION_LABELS.includes(emotion) && score >= 0);
+  let emotions: EmotionData[];
+  if (scores.length > 0) {
+    const percentages = toPercentages(scores.map(([, score]) => score));
+    emotions = scores
+      .map(([emotion], i) => ({ emotion, confidence: percentages[i] }))
+      .sort((a, b) => b.confidence - a.confidence);
+  } else {
+    emotions = [{ emotion: known || 'Unknown', confidence: Math.round(response.emotion.confidence * 100) }];
+  }
+  const primaryEmotion = emotions[0];
+
+  const tempo = Math.round(response.tempo);
+  const tempoTarget = options.intendedTempo ? compareTempo(tempo, options.intendedTempo, options.taal) : null;
+
+  const result = {
+    primaryEmotion,
+    emotions,
+    rasa: analyzeRasa({ raga, tempo: tempoTarget ? tempoTarget.bpm : tempo, dynamics: null }),
+    tempo,
+    tempoTarget,
+    timing: null,
+    duration: Math.round(pitchTrack.length * BACKEND_PITCH_HOP_SECONDS * 100) / 100,
+    pitch: {
+      average: Math.round(pitchAverage * 10) / 10,
+      variance: Math.round(pitchVariance * 10) / 10,
+    },
+    intonation,
+    ornaments,
+    notes: {
+      totalNotes,
+      correctNotes: inTuneNotes,
+      accuracyPercentage,
+    },
+    reference: null,
+    transcription: transcribeNotes(pitchTrack, { tonicHz: tonic?.hz }),
+    dynamics: null,
+    tonic,
+    raga,
+  };
+
+  // The service sends no samples, so there's nothing to check for clipping
+  const feedback = evaluateFeedback(
+    collectFeedbackMetrics({ result, pitchTrack, clipping: null, recommendedRaga: response.raaga }),
+    combineFeedbackRules(options.feedbackRules),
+    options.locale
+  );
+
+  return {
+    ...result,
+    summary: known
+      ? localizeMessage('summary.service', options.locale ?? DEFAULT_LOCALE, { 'emotion.primary': primaryEmotion.emotion.toLowerCase() })
+      : localizeMessage('summary.serviceUnknown', options.locale ?? DEFAULT_LOCALE),
+    feedback,
+    suggestions: feedback.map(item => item.message),
+  };
+};
@@ -1,159 +1,288 @@
 // utils/emotionDetector.ts
 
+import {
+  getAudioBuffer,
+  trackPitch,
+  summarizePitch,
+  detectOnsets,
+  estimateTempoFromOnsets,
+  computeDynamics,
+  computeSpectrogram,
+  countNotes,
+  analyzeTiming,
+  detectClipping,
+  TimingAnalysis,
+} from './audioUtils';
+import { recognizeRaga, RagaAnalysis } from './ragaRecognizer';
+import { estimateTonic } from './swara';
+import { getRhythmCycle } from './taal';
+import { ReferenceAudio, ReferenceScore, scoreAgainstReference } from './referenceScoring';
+import { createAudioBuffer } from './wavDecoder';
+import { TranscribedNote, transcribeNotes } from './transcription';
+import { classifyEmotion, measureMode, measureTimbre } from './emotionModel';
+import { RasaAnalysis, analyzeRasa } from './rasa';
+import { SwaraIntonation, measureIntonation } from './intonation';
+import { OrnamentAnalysis, detectOrnaments } from './ornaments';
+import {
+  FeedbackItem,
+  FeedbackRule,
+  collectFeedbackMetrics,
+  combineFeedbackRules,
+  evaluateFeedback,
+  summarizeEmotion,
+} from './feedback';
+
 export interface EmotionData {
-  emotion: string;
-  confidence: number;
+  emotion: string;    // one of EMOTION_LABELS (see emotionModel.ts)
+  confidence: number; // percent; the confidences of a result add up to 100
+}
+
+export interface TonicInfo {
+  hz: number;
+  source: 'detected' | 'manual';
+  confidence: number; // 0-1; 1 for a manually set tonic
+}
+
+export interface TempoTarget {
+  bpm: number;              // tempo the performer was playing along to
+  taal: string | null;      // name of the taal or meter, when known
+  playedBpm: number;        // detected tempo, at the same beat level as bpm
+  deviationPercent: number; // positive when played faster than intended
+}
+
+// Version of the analysis, stored with saved results. Bump it when a change
+// would give different results for the same recording.
+export const ANALYZER_VERSION = 8;
+
+// Steps of the analysis, in the order they run
+export type AnalysisStage = 'decode' | 'pitch' | 'reference' | 'tempo' | 'emotion';
+
+/**
+ * Reports how far an analysis has got
+ * @param stage The step running now
+ * @param fraction How much of that step is done, 0-1
+ */
+export type AnalysisProgressCallback = (stage: AnalysisStage, fraction: number) => void;
+
+export interface AnalysisOptions {
+  tonicHz?: number;       // the performer's Sa; detected from the audio when omitted
+  intendedTempo?: number; // metronome tempo during the take, in BPM
+  taal?: string;          // ID of the taal or meter played along to (see taal.ts)
+  reference?: ReferenceAudio; // reference take of the same piece to score the notes against
+  feedbackRules?: FeedbackRule[]; // the teacher's own rules, run alongside the built-in ones
+  locale?: string;                // language of the feedback, e.g. "en-GB"; English when omitted
 }
 
 export interface AudioAnalysisResult {
   primaryEmotion: EmotionData;
   emotions: EmotionData[];
+  rasa: RasaAnalysis | null; // null when neither raga, tempo nor loudness was measured
   tempo: number;
+  tempoTarget: TempoTarget | null; // null when there was no reference tempo
+  timing: TimingAnalysis | null;   // null when there were too few beats to fit a grid
+  duration: number; // seconds
   pitch: {
-    average: number;
-    variance: number;
+    average: number;  // Hz, over pitched frames only
+    variance: number; // Hz squared
   };
+  intonation: SwaraIntonation[] | null; // how sharp or flat each swara was held; null without a tonic
+  ornaments: OrnamentAnalysis;          // vibrato, gamak, meend and kan swar found on the pitch contour
   notes: {
-    totalNotes: number;
-    correctNotes: number;
+    totalNotes: number;        // notes of the reference when there is one, otherwise notes found in the take
+    correctNotes: number;      // matching the reference, or in tune with equal temperament without one
     accuracyPercentage: number;
   };
+  reference: ReferenceScore | null; // null when there was no reference take to score against
+  transcription: TranscribedNote[]; // the notes as played, in order
   dynamics: {
-    average: number;
+    average: number; // dBFS, over non-silent windows only
     range: {
       min: number;
       max: number;
     };
-  };
+    envelope: number[];       // dBFS per envelope window
+    envelopeInterval: number; // seconds per envelope window
+  } | null; // null when the analysis backend doesn't measure loudness
+  tonic: TonicInfo | null;   // null when nothing pitched was found
+  raga: RagaAnalysis | null; // null when nothing pitched was found
   summary: string;
-  suggestions: string[];
+  feedback: FeedbackItem[]; // most severe first
+  suggestions: string[];    // the feedback messages alone, as older results stored them
 }
 
+/**
+ * Compares a detected tempo with the intended one
+ * Onset-based tempo can lock onto half or double the beat (e.g. when playing
+ * eighth notes), so the detected tempo is first moved by octaves to the beat
+ * level closest to the intended one.
+ */
+export const compareTempo = (detected: number, intended: number, taal?: string): TempoTarget | null => {
+  if (detected <= 0 || intended <= 0) return null;
+
+  let played = detected;
+  while (played > intended * Math.SQRT2) played /= 2;
+  while (played < intended / Math.SQRT2) played *= 2;
+
+  return {
+    bpm: intended,
+    taal: getRhythmCycle(taal)?.name ?? null,
+    playedBpm: Math.round(played),
+    deviationPercent: Math.round(((played - intended) / intended) * 1000) / 10,
+  };
+};
+
+/**
+ * Format seconds as m:ss
+ */
+export const formatClock = (seconds: number): string => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
 /**
  * Analyzes an audio blob to detect emotional qualities and performance metrics
- * 
- * Note: In a real application, this would connect to a backend service
- * that performs actual audio analysis. This is a mock implementation
- * that returns random but plausible data.
+ * The audio is decoded in the browser and analyzed with the DSP helpers in
+ * audioUtils, so the same recording always produces the same result.
  */
-export async function analyzeAudio(audioBlob: Blob): Promise<AudioAnalysisResult> {
-  // In a real implementation, this would send the audio to a backend service
-  // and receive actual analysis results
-  
-  // For demo purposes, we'll simulate a processing delay
-  await new Promise(resolve => setTimeout(resolve, 2000));
-  
-  // Mock emotions with random confidences
-  const emotionOptions = [
-    'Joyful', 'Melancholic', 'Peaceful', 'Energetic', 
-    'Nostalgic', 'Playful', 'Tender', 'Dramatic'
-  ];
-  
-  const emotions: EmotionData[] = emotionOptions.map(emotion => ({
-    emotion,
-    confidence: Math.random() * 100
-  }));
-  
-  // Sort by confidence (highest first)
-  emotions.sort((a, b) => b.confidence - a.confidence);
-  
-  // Get primary emotion (highest confidence)
-  const primaryEmotion = emotions[0];
-  
-  // Generate random but plausible performance metrics
-  const tempo = 60 + Math.floor(Math.random() * 60); // 60-120 BPM
-  
-  const pitchAverage = 220 + Math.floor(Math.random() * 440); // 220-660 Hz
-  const pitchVariance = Math.floor(Math.random() * 50);
-  
-  const totalNotes = 50 + Math.floor(Math.random() * 100);
-  const correctNotes = Math.floor(totalNotes * (0.7 + Math.random() * 0.3));
-  const accuracyPercentage = Math.round((correctNotes / totalNotes) * 100);
-  
-  const dynamicsAverage = 30 + Math.floor(Math.random() * 40);
-  const dynamicsMin = Math.max(10, dynamicsAverage - 20);
-  const dynamicsMax = Math.min(90, dynamicsAverage + 20);
-  
-  // Generate appropriate feedback based on the primary emotion
-  let summary = '';
-  const suggestions = [];
-  
-  switch (primaryEmotion.emotion) {
-    case 'Joyful':
-      summary = "Your playing has a bright, uplifting quality that conveys joy and positivity.";
-      suggestions.push("Try adding some quick rhythmic strums to enhance the joyful feel.");
-      suggestions.push("Focus on maintaining consistent tempo to keep the joyful energy.");
-      break;
-    case 'Melancholic':
-      summary = "Your playing captures a gentle melancholy with thoughtful phrasing.";
-      suggestions.push("Consider using more vibrato to enhance emotional expression.");
-      suggestions.push("Experiment with slower tempos to further deepen the melancholic feel.");
-      break;
-    case 'Peaceful':
-      summary = "Your playing has a calm, peaceful quality with smooth transitions.";
-      suggestions.push("Work on sustaining notes longer to enhance the peaceful atmosphere.");
-      suggestions.push("Try reducing pick/finger noise for an even smoother sound.");
-      break;
-    case 'Energetic':
-      summary = "Your playing is energetic and lively with good rhythmic drive.";
-      suggestions.push("Focus on maintaining consistent energy throughout your performance.");
-      suggestions.push("Try adding dynamic contrasts to make energetic sections stand out more.");
-      break;
-    case 'Nostalgic':
-      summary = "Your playing evokes a nostalgic feeling with warm tonal qualities.";
-      suggestions.push("Try employing more rubato (flexible timing) to enhance the nostalgic mood.");
-      suggestions.push("Consider using gentler attacks on the strings for a warmer sound.");
-      break;
-    case 'Playful':
-      summary = "Your playing has a playful character with good articulation.";
-      suggestions.push("Experiment with short, staccato notes to enhance the playful character.");
-      suggestions.push("Try adding more dynamic contrast to emphasize the playful elements.");
-      break;
-    case 'Tender':
-      summary = "Your playing conveys tenderness and sensitivity with careful phrasing.";
-      suggestions.push("Work on making smoother transitions between chords.");
-      suggestions.push("Focus on playing with a lighter touch for an even more tender sound.");
-      break;
-    case 'Dramatic':
-      summary = "Your playing has dramatic elements with effective use of dynamics.";
-      suggestions.push("Try creating more contrast between soft and loud sections.");
-      suggestions.push("Work on sustaining tension through strategic pauses and tempo variations.");
-      break;
-    default:
-      summary = "Your playing shows good technical control and musical expression.";
-      suggestions.push("Continue working on consistent timing and rhythm.");
-      suggestions.push("Focus on clear articulation of each note.");
+export async function analyzeAudio(
+  audioBlob: Blob,
+  options: AnalysisOptions = {},
+  onProgress?: AnalysisProgressCallback
+): Promise<AudioAnalysisResult> {
+  onProgress?.('decode', 0);
+  const audioBuffer = await getAudioBuffer(audioBlob);
+  return analyzeAudioBuffer(audioBuffer, options, onProgress);
+}
+
+/**
+ * Analyzes decoded audio to detect emotional qualities and performance metrics
+ */
+export function analyzeAudioBuffer(
+  audioBuffer: AudioBuffer,
+  options: AnalysisOptions = {},
+  onProgress?: AnalysisProgressCallback
+): AudioAnalysisResult {
+  const duration = audioBuffer.duration;
+
+  // Pitch
+  const pitchTrack = trackPitch(audioBuffer, {
+    onProgress: onProgress && (fraction => onProgress('pitch', fraction)),
+  });
+  const { average: pitchAverage, variance: pitchVariance } = summarizePitch(pitchTrack);
+
+  // Tonic and raga; a manually set Sa always wins over detection
+  let tonic: TonicInfo | null = null;
+  if (options.tonicHz) {
+    tonic = { hz: options.tonicHz, source: 'manual', confidence: 1 };
+  } else {
+    const estimate = estimateTonic(pitchTrack);
+    tonic = estimate ? { hz: estimate.hz, source: 'detected', confidence: estimate.confidence } : null;
   }
-  
-  // Add some general feedback based on the note accuracy
-  if (accuracyPercentage < 75) {
-    suggestions.push("Work on improving pitch accuracy, particularly during chord transitions.");
-  } else if (accuracyPercentage > 90) {
-    suggestions.push("Excellent pitch accuracy! Consider focusing on more expressive elements.");
+  const raga = tonic ? recognizeRaga(pitchTrack, { tonic }) : null;
+  const intonation = tonic ? measureIntonation(pitchTrack, tonic.hz) : null;
+  const ornaments = detectOrnaments(pitchTrack, tonic?.hz);
+
+  // Score against the reference take, when there is one
+  let reference: ReferenceScore | null = null;
+  if (options.reference) {
+    onProgress?.('reference', 0);
+    const referenceBuffer = createAudioBuffer(options.reference.channels, options.reference.sampleRate);
+    reference = scoreAgainstReference(options.reference, referenceBuffer, audioBuffer, pitchTrack, tonic?.hz);
   }
-  
-  // Return the complete analysis result
-  return {
+
+  // Rhythm
+  onProgress?.('tempo', 0);
+  const onsets = detectOnsets(audioBuffer);
+  const tempo = estimateTempoFromOnsets(onsets);
+  const tempoTarget = options.intendedTempo
+    ? compareTempo(tempo, options.intendedTempo, options.taal)
+    : null;
+  // Measure against the metronome's beat level when there was one
+  const timing = analyzeTiming(onsets, tempoTarget ? tempoTarget.playedBpm : tempo);
+
+  // Notes: right against the reference if there is one, otherwise in tune
+  const noteStats = countNotes(pitchTrack);
+  const totalNotes = reference ? reference.totalNotes : noteStats.totalNotes;
+  const correctNotes = reference ? reference.correctNotes : noteStats.inTuneNotes;
+  const accuracyPercentage = totalNotes > 0 ? Math.round((correctNotes / totalNotes) * 100) : 0;
+
+  // Dynamics
+  onProgress?.('emotion', 0);
+  const dynamics = computeDynamics(audioBuffer);
+
+  // The notes as played, for the note strip and notation export
+  const transcription = transcribeNotes(pitchTrack, {
+    tonicHz: tonic?.hz,
+    onsets,
+    envelope: dynamics.envelope,
+    envelopeInterval: dynamics.envelopeInterval,
+  });
+
+  // Emotions, sorted by confidence (highest first)
+  const emotions = classifyEmotion({
+    ...measureTimbre(computeSpectrogram(audioBuffer)),
+    tempo,
+    onsetRate: duration > 0 ? onsets.length / duration : 0,
+    mode: measureMode(pitchTrack),
+    loudness: dynamics.average,
+    dynamicRange: dynamics.max - dynamics.min,
+  });
+
+  // Get primary emotion (highest confidence)
+  const primaryEmotion = emotions[0];
+
+  // Rasa, from the raga, the laya the performer chose and the dynamics
+  const rasa = analyzeRasa({
+    raga,
+    tempo: tempoTarget ? tempoTarget.bpm : tempo,
+    dynamics,
+  });
+
+  const result = {
     primaryEmotion,
     emotions,
+    rasa,
     tempo,
+    tempoTarget,
+    timing,
+    duration: Math.round(duration * 100) / 100,
     pitch: {
-      average: pitchAverage,
-      variance: pitchVariance
+      average: Math.round(pitchAverage * 10) / 10,
+      variance: Math.round(pitchVariance * 10) / 10
     },
+    intonation,
+    ornaments,
     notes: {
       totalNotes,
       correctNotes,
       accuracyPercentage
     },
+    reference,
+    transcription,
     dynamics: {
-      average: dynamicsAverage,
+      average: dynamics.average,
       range: {
-        min: dynamicsMin,
-        max: dynamicsMax
-      }
+        min: dynamics.min,
+        max: dynamics.max
+      },
+      envelope: dynamics.envelope,
+      envelopeInterval: dynamics.envelopeInterval
     },
-    summary,
-    suggestions
+    tonic,
+    raga,
+  };
+
+  // Feedback from the rules, the built-in ones and any the teacher added
+  const feedback = evaluateFeedback(
+    collectFeedbackMetrics({ result, pitchTrack, clipping: detectClipping(audioBuffer) }),
+    combineFeedbackRules(options.feedbackRules),
+    options.locale
+  );
+
+  return {
+    ...result,
+    summary: summarizeEmotion(primaryEmotion.emotion, options.locale),
+    feedback,
+    suggestions: feedback.map(item => item.message),
   };
 }
\ No newline at end of file
@@ -0,0 +1,243 @@
+// utils/emotionModel.ts
+/**
+ * Emotion classifier that runs in the browser
+ * A handful of features are measured from the take (MFCCs and the spectral
+ * centroid for timbre, tempo and onset rate for pace, major/minor mode from
+ * the pitch classes, loudness and dynamic range) and fed through the small
+ * softmax model in models/emotionModel.json.
+ *
+ * The weights were fitted by scripts/train-emotion-model.mjs on synthetic
+ * examples drawn from hand-written per-emotion Gaussian profiles
+ * (scripts/emotion-prototypes.json), not on labelled recordings, so the
+ * labels and confidences are heuristic. The script can add labelled
+ * recordings to the training set when there are some.
+ *
+ * The analysis service (backend/utils/emotion_detector.py) reads the same
+ * model file and label set, but measures pace and mode its own way: tempo
+ * from librosa's beat_track, onsets from onset_detect and mode from the CREPE
+ * pitch track, where this module uses its own onset flux, tempo histogram and
+ * YIN. The two can disagree on the same take.
+ */
+
+import { PitchFrame, Spectrogram } from './audioUtils';
+import { hzToMidi } from './noteNames';
+import model from '../models/emotionModel.json';
+
+/**
+ * Measurements of a take the classifier works from
+ */
+export interface EmotionFeatures {
+  mfcc: number[];           // mean of each mel-frequency cepstral coefficient over non-silent frames
+  spectralCentroid: number; // Hz, mean over non-silent frames
+  tempo: number;            // BPM; 0 when no beat was found
+  onsetRate: number;        // onsets per second
+  mode: number;             // about -1 (minor) to 1 (major); 0 when undecided
+  loudness: number;         // average dBFS
+  dynamicRange: number;     // dB
+}
+
+/**
+ * A softmax classifier over standardized features
+ */
+interface EmotionModel {
+  version: number;
+  labels: string[];
+  features: string[];  // feature names, in the order the weights expect them
+  mean: number[];      // per feature, subtracted before scaling
+  scale: number[];     // per feature, divided by after centering
+  weights: number[][]; // one row per label
+  bias: number[];      // one per label
+  temperature: number; // divides the logits; chosen on held-out synthetic examples
+}
+
+const EMOTION_MODEL: EmotionModel = model;
+
+/**
+ * The emotions the classifier tells apart, shared with the analysis service
+ */
+export const EMOTION_LABELS: readonly string[] = EMOTION_MODEL.labels;
+
+// Number of mel bands and cepstral coefficients
+const MEL_BANDS = 40;
+const MFCC_COUNT = 13;
+
+// Frames whose loudest bin is below this level are left out, in dBFS
+const SILENT_FRAME_DB = -60;
+
+// Log floor for empty mel bands, in dB
+const MEL_FLOOR_DB = -100;
+
+// Fewest voiced pitch frames the mode is judged from (half a second at 10 ms)
+const MIN_MODE_FRAMES = 50;
+
+// Krumhansl-Kessler key profiles, from the tonic upwards
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+/**
+ * Triangular mel filters (HTK spacing, peak 1) over the bins of a spectrum
+ */
+const melFilterbank = (binCount: number, binHz: number): { first: number; weights: number[] }[] => {
+  const topMel = hzToMel(binCount * binHz);
+  const edges = Array.from({ length: MEL_BANDS + 2 }, (_, i) => melToHz((topMel * i) / (MEL_BANDS + 1)));
+
+  return Array.from({ length: MEL_BANDS }, (_, band) => {
+    const [low, centre, high] = [edges[band], edges[band + 1], edges[band + 2]];
+    const first = Math.ceil(low / binHz);
+    const weights: number[] = [];
+    for (let bin = first; bin * binHz < high && bin < binCount; bin++) {
+      const hz = bin * binHz;
+      weights.push(hz <= centre ? (hz - low) / (centre - low) : (high - hz) / (high - centre));
+    }
+    return { first, weights };
+  });
+};
+
+/**
+ * Mean MFCCs and spectral centroid of the non-silent frames of a spectrogram
+ */
+export const measureTimbre = (spectrogram: Spectrogram): { mfcc: number[]; spectralCentroid: number } => {
+  const { frames, binHz } = spectrogram;
+  const mfcc = new Array<number>(MFCC_COUNT).fill(0);
+  if (frames.length === 0) return { mfcc, spectralCentroid: 0 };
+
+  const filters = melFilterbank(frames[0].length, binHz);
+  let centroidSum = 0;
+  let count = 0;
+
+  for (const levels of frames) {
+    if (Math.max(...levels) < SILENT_FRAME_DB) continue;
+
+    let weighted = 0;
+    let total = 0;
+    for (let bin = 0; bin < levels.length; bin++) {
+      const magnitude = Math.pow(10, levels[bin] / 20);
+      weighted += bin * binHz * magnitude;
+      total += magnitude;
+    }
+    centroidSum += total > 0 ? weighted / total : 0;
+
+    const logMel = filters.map(({ first, weights }) => {
+      let power = 0;
+      weights.forEach((weight, i) => {
+        power += weight * Math.pow(10, levels[first + i] / 10);
+      });
+      return Math.max(MEL_FLOOR_DB, 10 * Math.log10(power));
+    });
+
+    // Orthonormal DCT-II of the log mel energies
+    for (let n = 0; n < MFCC_COUNT; n++) {
+      let sum = 0;
+      for (let m = 0; m < MEL_BANDS; m++) {
+        sum += logMel[m] * Math.cos((Math.PI * n * (m + 0.5)) / MEL_BANDS);
+      }
+      mfcc[n] += sum * Math.sqrt((n === 0 ? 1 : 2) / MEL_BANDS);
+    }
+    count++;
+  }
+
+  if (count === 0) return { mfcc, spectralCentroid: 0 };
+  return {
+    mfcc: mfcc.map(value => value / count),
+    spectralCentroid: centroidSum / count,
+  };
+};
+
+const correlation = (a: number[], b: number[]): number => {
+  const meanA = a.reduce((acc, x) => acc + x, 0) / a.length;
+  const meanB = b.reduce((acc, x) => acc + x, 0) / b.length;
+  let product = 0;
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < a.length; i++) {
+    product += (a[i] - meanA) * (b[i] - meanB);
+    sumA += (a[i] - meanA) ** 2;
+    sumB += (b[i] - meanB) ** 2;
+  }
+  return sumA > 0 && sumB > 0 ? product / Math.sqrt(sumA * sumB) : 0;
+};
+
+/**
+ * How major or minor the pitch classes of a take sound
+ * The pitch-class histogram is matched against the major and minor key
+ * profiles in every key; the result is the best major fit minus the best
+ * minor fit. The semitone grid follows the take's own tuning, so an
+ * instrument tuned off A440 doesn't smear the histogram.
+ */
+export const measureMode = (track: PitchFrame[]): number => {
+  const voiced = track.filter(frame => frame.f0 > 0).map(frame => hzToMidi(frame.f0));
+  if (voiced.length < MIN_MODE_FRAMES) return 0;
+
+  // Tuning offset as the circular mean of the fractional semitones
+  let sin = 0;
+  let cos = 0;
+  for (const midi of voiced) {
+    sin += Math.sin(2 * Math.PI * midi);
+    cos += Math.cos(2 * Math.PI * midi);
+  }
+  const offset = Math.atan2(sin, cos) / (2 * Math.PI);
+
+  const histogram = new Array<number>(12).fill(0);
+  for (const midi of voiced) {
+    histogram[((Math.round(midi - offset) % 12) + 12) % 12]++;
+  }
+
+  let major = -1;
+  let minor = -1;
+  for (let key = 0; key < 12; key++) {
+    const rotated = histogram.map((_, i) => histogram[(i + key) % 12]);
+    major = Math.max(major, correlation(rotated, MAJOR_PROFILE));
+    minor = Math.max(minor, correlation(rotated, MINOR_PROFILE));
+  }
+  return major - minor;
+};
+
+/**
+ * Round probabilities to percentages with one decimal that add up to exactly 100
+ * The tenths lost to rounding down go to the largest remainders.
+ */
+export const toPercentages = (probabilities: number[]): number[] => {
+  const total = probabilities.reduce((acc, p) => acc + p, 0);
+  if (total <= 0) return probabilities.map(() => 0);
+
+  const tenths = probabilities.map(p => (p / total) * 1000);
+  const rounded = tenths.map(Math.floor);
+  let missing = 1000 - rounded.reduce((acc, t) => acc + t, 0);
+  const byRemainder = tenths.map((_, i) => i).sort((a, b) => (tenths[b] - rounded[b]) - (tenths[a] - rounded[a]));
+  for (const i of byRemainder) {
+    if (missing <= 0) break;
+    rounded[i]++;
+    missing--;
+  }
+  return rounded.map(t => t / 10);
+};
+
+const featureValue = (features: EmotionFeatures, name: string): number => {
+  const coefficient = /^mfcc(\d+)$/.exec(name);
+  if (coefficient) return features.mfcc[Number(coefficient[1]) - 1] ?? 0;
+  const value = features[name as keyof Omit<EmotionFeatures, 'mfcc'>];
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+};
+
+/**
+ * Classify a take's emotion from its features
+ * @returns A confidence for every label, in percent adding up to 100, highest first
+ */
+export const classifyEmotion = (features: EmotionFeatures): { emotion: string; confidence: number }[] => {
+  const { labels, mean, scale, weights, bias, temperature } = EMOTION_MODEL;
+  const inputs = EMOTION_MODEL.features.map((name, i) => (featureValue(features, name) - mean[i]) / scale[i]);
+
+  const logits = labels.map((_, row) => (
+    weights[row].reduce((acc, weight, i) => acc + weight * inputs[i], bias[row]) / temperature
+  ));
+  const top = Math.max(...logits);
+  const exponentials = logits.map(logit => Math.exp(logit - top));
+  const percentages = toPercentages(exponentials);
+
+  return labels
+    .map((emotion, i) => ({ emotion, confidence: percentages[i] }))
+    .sort((a, b) => b.confidence - a.confidence);
+};
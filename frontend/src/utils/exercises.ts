@@ -0,0 +1,433 @@
+// utils/exercises.ts
+/**
+ * Practice exercises written as notation, and scoring takes against them
+ * An exercise (an alankar, a scale, a simple song) is a sequence of sargam
+ * or Western note tokens played at a set tempo over a taal. Sargam is sung
+ * against the tanpura's Sa; Western notes are absolute. Custom exercises are
+ * kept in localStorage and can be moved between devices as JSON.
+ */
+
+import { PitchFrame } from './audioUtils';
+import { SWARAS, Swara } from './swara';
+import { formatSwara, hzToMidi, midiToHz } from './noteNames';
+import { getRhythmCycle, getCycleLength, MIN_BPM, MAX_BPM } from './taal';
+import { foldCents, playedPitch } from './referenceScoring';
+
+export type ExerciseKind = 'alankar' | 'scale' | 'song';
+
+export type ExerciseNotation = 'sargam' | 'western';
+
+export const EXERCISE_KIND_LABELS: Record<ExerciseKind, string> = {
+  alankar: 'Alankar',
+  scale: 'Scale',
+  song: 'Song',
+};
+
+/**
+ * A practice exercise
+ * Notes are space-separated tokens, one per slot (see parseExerciseNotes):
+ * sargam swaras such as "S r R g G m M P d D n N", with a leading "." per
+ * octave below Sa and a trailing "'" per octave above (".N", "S'"), or
+ * Western notes such as "C4", "F#3", "Bb4". "-" holds the previous note for
+ * another slot, "_" is a rest, and "|" marks a bar line for readability.
+ */
+export interface Exercise {
+  id: string;
+  name: string;
+  kind: ExerciseKind;
+  notation: ExerciseNotation;
+  notes: string;
+  tempoBpm: number;
+  taal: string;          // ID of the taal or meter it is played over (see taal.ts)
+  notesPerBeat?: number; // slots per beat; 1 when unset
+}
+
+/**
+ * One note of a parsed exercise
+ */
+export interface ExpectedNote {
+  label: string;     // display name, with sargam octave dots
+  pitch: number;     // semitones above Sa for sargam, MIDI note number for Western
+  startBeat: number; // beats from the start of the exercise
+  beats: number;
+}
+
+/**
+ * How one expected note was played
+ */
+export interface ExerciseNoteScore {
+  label: string;
+  startBeat: number;
+  expectedHz: number;
+  playedHz: number | null;       // null when nothing pitched was played there
+  deviationCents: number | null; // signed, octave-folded; negative is flat
+  correct: boolean;
+}
+
+export interface ExerciseScore {
+  exerciseId: string;
+  exerciseName: string;
+  totalNotes: number;
+  correctNotes: number;
+  accuracyPercentage: number;
+  meanDeviationCents: number | null; // signed, over the notes that were played
+  offsetMs: number;                  // how far the take ran ahead (negative) or behind the beat
+  tolerances: {
+    pitchCents: number;
+  };
+  notes: ExerciseNoteScore[];
+}
+
+// Key for storing custom exercises in localStorage
+const LIBRARY_KEY = 'exercise-library';
+
+// Version of the JSON written by exportExercises
+const LIBRARY_FORMAT_VERSION = 1;
+
+// A note counts as correct within this distance of the expected pitch
+const PITCH_TOLERANCE_CENTS = 50;
+
+// Only the middle of each note is compared, leaving out the glide into and out of it
+const NOTE_CORE_MARGIN = 0.2;
+
+// The take may run this far ahead of or behind the metronome before notes are missed
+const MAX_OFFSET_SECONDS = 0.3;
+const OFFSET_STEP_SECONDS = 0.025;
+
+const MAX_NOTES_PER_BEAT = 4;
+
+const HOLD_TOKEN = '-';
+const REST_TOKEN = '_';
+const BAR_TOKEN = '|';
+
+const SARGAM_TOKEN = /^(\.*)([SrRgGmMPdDnN])('*)$/;
+const WESTERN_TOKEN = /^([A-G])([#b]?)(-?\d)$/;
+const WESTERN_STEPS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+export const BUILT_IN_EXERCISES: Exercise[] = [
+  {
+    id: 'builtin-bilawal-scale',
+    name: 'Bilawal aroha and avaroha',
+    kind: 'scale',
+    notation: 'sargam',
+    notes: "S R G m P D N S' | S' N D P m G R S",
+    tempoBpm: 70,
+    taal: 'teentaal',
+  },
+  {
+    id: 'builtin-alankar-threes',
+    name: 'Alankar: groups of three',
+    kind: 'alankar',
+    notation: 'sargam',
+    notes: "S R G | R G m | G m P | m P D | P D N | D N S' | S' N D | N D P | D P m | P m G | m G R | G R S",
+    tempoBpm: 60,
+    taal: '3/4',
+    notesPerBeat: 3,
+  },
+  {
+    id: 'builtin-yaman-scale',
+    name: 'Yaman aroha and avaroha',
+    kind: 'scale',
+    notation: 'sargam',
+    notes: ".N R G M D N S' - | S' N D P M G R S",
+    tempoBpm: 70,
+    taal: 'teentaal',
+  },
+  {
+    id: 'builtin-c-major-scale',
+    name: 'C major scale',
+    kind: 'scale',
+    notation: 'western',
+    notes: 'C4 D4 E4 F4 | G4 A4 B4 C5 | C5 B4 A4 G4 | F4 E4 D4 C4',
+    tempoBpm: 80,
+    taal: '4/4',
+  },
+  {
+    id: 'builtin-twinkle',
+    name: 'Twinkle, Twinkle, Little Star',
+    kind: 'song',
+    notation: 'western',
+    notes: 'C4 C4 G4 G4 | A4 A4 G4 - | F4 F4 E4 E4 | D4 D4 C4 -',
+    tempoBpm: 90,
+    taal: '4/4',
+  },
+];
+
+const BUILT_IN_IDS = new Set(BUILT_IN_EXERCISES.map(exercise => exercise.id));
+
+export const isBuiltInExercise = (id: string): boolean => BUILT_IN_IDS.has(id);
+
+const createExerciseId = () => `ex_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+const parseSargamToken = (token: string): { label: string; pitch: number } | null => {
+  const match = SARGAM_TOKEN.exec(token);
+  if (!match) return null;
+  const octave = match[3].length - match[1].length;
+  const swara = match[2] as Swara;
+  return { label: formatSwara(swara, octave), pitch: SWARAS.indexOf(swara) + 12 * octave };
+};
+
+const parseWesternToken = (token: string): { label: string; pitch: number } | null => {
+  const match = WESTERN_TOKEN.exec(token);
+  if (!match) return null;
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  return { label: token, pitch: 12 * (Number(match[3]) + 1) + WESTERN_STEPS[match[1]] + accidental };
+};
+
+/**
+ * Parse an exercise's notation into timed notes
+ * @throws Error naming the first token that isn't a note in the exercise's notation
+ */
+export const parseExerciseNotes = (exercise: Pick<Exercise, 'notes' | 'notation' | 'notesPerBeat'>): ExpectedNote[] => {
+  const slotBeats = 1 / (exercise.notesPerBeat || 1);
+  const parseToken = exercise.notation === 'sargam' ? parseSargamToken : parseWesternToken;
+  const notes: ExpectedNote[] = [];
+  let slot = 0;
+  let holding = false; // whether "-" extends the last note or the last rest
+
+  for (const token of exercise.notes.split(/\s+/).filter(Boolean)) {
+    if (token === BAR_TOKEN) continue;
+
+    if (token === HOLD_TOKEN) {
+      if (holding) notes[notes.length - 1].beats += slotBeats;
+    } else if (token === REST_TOKEN) {
+      holding = false;
+    } else {
+      const note = parseToken(token);
+      if (!note) {
+        const example = exercise.notation === 'sargam' ? "S, .N or S'" : 'C4, F#3 or Bb4';
+        throw new Error(`"${token}" is not a ${exercise.notation} note (write notes like ${example})`);
+      }
+      notes.push({ ...note, startBeat: slot * slotBeats, beats: slotBeats });
+      holding = true;
+    }
+    slot++;
+  }
+
+  return notes;
+};
+
+/**
+ * Total length of an exercise in beats, including trailing holds and rests
+ */
+export const getExerciseBeats = (exercise: Pick<Exercise, 'notes' | 'notesPerBeat'>): number => {
+  const slots = exercise.notes.split(/\s+/).filter(token => token && token !== BAR_TOKEN).length;
+  return slots / (exercise.notesPerBeat || 1);
+};
+
+/**
+ * Beats of metronome played before the exercise starts: one full cycle, so
+ * the first note falls on sam
+ */
+export const getCountInBeats = (exercise: Pick<Exercise, 'taal'>): number => {
+  const cycle = getRhythmCycle(exercise.taal);
+  return cycle ? getCycleLength(cycle) : 4;
+};
+
+/**
+ * Index of the note sounding at a beat of the exercise, or -1 during rests
+ */
+export const getNoteIndexAtBeat = (notes: ExpectedNote[], beat: number): number =>
+  notes.findIndex(note => beat >= note.startBeat && beat < note.startBeat + note.beats);
+
+/**
+ * Frequency of an expected note
+ * @param tonicHz Sa, for sargam exercises
+ */
+export const expectedNoteHz = (note: ExpectedNote, notation: ExerciseNotation, tonicHz: number): number =>
+  notation === 'sargam' ? tonicHz * Math.pow(2, note.pitch / 12) : midiToHz(note.pitch);
+
+/**
+ * Check that something read from storage or a file is a usable exercise
+ * @throws Error describing the first problem found
+ */
+export const validateExercise = (candidate: unknown): Exercise => {
+  if (!candidate || typeof candidate !== 'object') {
+    throw new Error('Exercise is not an object');
+  }
+  const value = candidate as Record<string, unknown>;
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (!name) throw new Error('Exercise has no name');
+
+  const fail = (problem: string): never => {
+    throw new Error(`"${name}": ${problem}`);
+  };
+
+  const kind = value.kind as ExerciseKind;
+  if (!Object.keys(EXERCISE_KIND_LABELS).includes(kind)) fail(`unknown kind "${String(value.kind)}"`);
+  const notation = value.notation as ExerciseNotation;
+  if (notation !== 'sargam' && notation !== 'western') fail(`unknown notation "${String(value.notation)}"`);
+  if (typeof value.notes !== 'string') fail('notes must be a string');
+  const tempoBpm = Number(value.tempoBpm);
+  if (!(tempoBpm >= MIN_BPM && tempoBpm <= MAX_BPM)) fail(`tempo must be between ${MIN_BPM} and ${MAX_BPM} BPM`);
+  if (typeof value.taal !== 'string' || !getRhythmCycle(value.taal)) fail(`unknown taal "${String(value.taal)}"`);
+  const notesPerBeat = value.notesPerBeat === undefined ? undefined : Number(value.notesPerBeat);
+  if (notesPerBeat !== undefined && !(Number.isInteger(notesPerBeat) && notesPerBeat >= 1 && notesPerBeat <= MAX_NOTES_PER_BEAT)) {
+    fail(`notes per beat must be a whole number from 1 to ${MAX_NOTES_PER_BEAT}`);
+  }
+
+  const exercise: Exercise = {
+    id: typeof value.id === 'string' && value.id ? value.id : createExerciseId(),
+    name,
+    kind,
+    notation,
+    notes: (value.notes as string).trim(),
+    tempoBpm,
+    taal: value.taal as string,
+    ...(notesPerBeat !== undefined && notesPerBeat > 1 ? { notesPerBeat } : {}),
+  };
+
+  let notes: ExpectedNote[] = [];
+  try {
+    notes = parseExerciseNotes(exercise);
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+  if (notes.length === 0) fail('has no notes');
+
+  return exercise;
+};
+
+/**
+ * Read the custom exercises, leaving out any that no longer validate
+ */
+export const getCustomExercises = (): Exercise[] => {
+  try {
+    const libraryJson = localStorage.getItem(LIBRARY_KEY);
+    const stored: unknown[] = libraryJson ? JSON.parse(libraryJson) : [];
+    return stored.flatMap(candidate => {
+      try {
+        return [validateExercise(candidate)];
+      } catch (error) {
+        console.error('Skipping invalid stored exercise:', error);
+        return [];
+      }
+    });
+  } catch (error) {
+    console.error('Error reading exercise library:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the custom exercises
+ */
+export const saveCustomExercises = (exercises: Exercise[]): void => {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(exercises));
+};
+
+/**
+ * Built-in exercises followed by the custom ones
+ */
+export const getExerciseLibrary = (): Exercise[] => [...BUILT_IN_EXERCISES, ...getCustomExercises()];
+
+/**
+ * Add exercises to the custom library, replacing any with the same ID
+ * Exercises that reuse a built-in ID are added under a new one.
+ * @returns The updated custom exercises
+ */
+export const addCustomExercises = (exercises: Exercise[]): Exercise[] => {
+  const library = getCustomExercises();
+  for (const exercise of exercises) {
+    const added = isBuiltInExercise(exercise.id) ? { ...exercise, id: createExerciseId() } : exercise;
+    const index = library.findIndex(existing => existing.id === added.id);
+    if (index === -1) library.push(added);
+    else library[index] = added;
+  }
+  saveCustomExercises(library);
+  return library;
+};
+
+/**
+ * Remove a custom exercise
+ * @returns The updated custom exercises
+ */
+export const deleteCustomExercise = (id: string): Exercise[] => {
+  const library = getCustomExercises().filter(exercise => exercise.id !== id);
+  saveCustomExercises(library);
+  return library;
+};
+
+/**
+ * Serialize exercises for sharing
+ */
+export const exportExercises = (exercises: Exercise[]): string =>
+  JSON.stringify({ version: LIBRARY_FORMAT_VERSION, exercises }, null, 2);
+
+/**
+ * Read exercises from JSON written by exportExercises, or a bare array of them
+ * @throws Error when the JSON is malformed or any exercise is invalid
+ */
+export const importExercises = (json: string): Exercise[] => {
+  const parsed: unknown = JSON.parse(json);
+  const list = Array.isArray(parsed) ? parsed : (parsed as { exercises?: unknown })?.exercises;
+  if (!Array.isArray(list)) {
+    throw new Error('The file does not contain a list of exercises');
+  }
+  return list.map(validateExercise);
+};
+
+/**
+ * Score a take played along with an exercise
+ * Each expected note is compared with the median pitch played during the
+ * middle of its slot. Pitch is folded into one octave so the exercise can be
+ * sung in any register; the whole take may sit slightly off the beat, and the
+ * best-fitting offset within MAX_OFFSET_SECONDS is used.
+ * @param track Pitch track of the take
+ * @param tonicHz Sa the take was sung against, for sargam exercises
+ * @param startSeconds Time in the take where the exercise's first beat falls
+ */
+export const scoreExercise = (
+  exercise: Exercise,
+  track: PitchFrame[],
+  tonicHz: number,
+  startSeconds: number
+): ExerciseScore => {
+  const notes = parseExerciseNotes(exercise);
+  const secondsPerBeat = 60 / exercise.tempoBpm;
+
+  const scoreAt = (offset: number): ExerciseNoteScore[] => notes.map(note => {
+    const start = startSeconds + offset + note.startBeat * secondsPerBeat;
+    const length = note.beats * secondsPerBeat;
+    const expectedHz = expectedNoteHz(note, exercise.notation, tonicHz);
+    const played = playedPitch(track, start + length * NOTE_CORE_MARGIN, start + length * (1 - NOTE_CORE_MARGIN));
+    const deviationCents = played === null ? null : Math.round(foldCents((played - hzToMidi(expectedHz)) * 100));
+    return {
+      label: note.label,
+      startBeat: note.startBeat,
+      expectedHz: Math.round(expectedHz * 100) / 100,
+      playedHz: played === null ? null : Math.round(midiToHz(played) * 100) / 100,
+      deviationCents,
+      correct: deviationCents !== null && Math.abs(deviationCents) <= PITCH_TOLERANCE_CENTS,
+    };
+  });
+
+  // Try offsets outwards from zero so ties go to the smallest
+  let best = { offset: 0, scores: scoreAt(0), correct: -1 };
+  best.correct = best.scores.filter(score => score.correct).length;
+  for (let step = OFFSET_STEP_SECONDS; step <= MAX_OFFSET_SECONDS + 1e-9; step += OFFSET_STEP_SECONDS) {
+    for (const offset of [-step, step]) {
+      const scores = scoreAt(offset);
+      const correct = scores.filter(score => score.correct).length;
+      if (correct > best.correct) best = { offset, scores, correct };
+    }
+  }
+
+  const deviations = best.scores.flatMap(score => (score.deviationCents === null ? [] : [score.deviationCents]));
+
+  return {
+    exerciseId: exercise.id,
+    exerciseName: exercise.name,
+    totalNotes: notes.length,
+    correctNotes: best.correct,
+    accuracyPercentage: notes.length > 0 ? Math.round((best.correct / notes.length) * 100) : 0,
+    meanDeviationCents: deviations.length > 0
+      ? Math.round(deviations.reduce((sum, d) => sum + d, 0) / deviations.length)
+      : null,
+    offsetMs: Math.round(best.offset * 1000),
+    tolerances: {
+      pitchCents: PITCH_TOLERANCE_CENTS,
+    },
+    notes: best.scores,
+  };
+};
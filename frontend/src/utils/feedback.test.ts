@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BUILT_IN_FEEDBACK_RULES,
+  FeedbackMetric,
+  FeedbackRule,
+  combineFeedbackRules,
+  evaluateFeedback,
+  importFeedbackRules,
+  localizeMessage,
+  validateFeedbackRule,
+} from './feedback';
+
+const metric = (name: string, value: number | string, extra: Partial<FeedbackMetric> = {}): FeedbackMetric => ({
+  name, value, ranges: [], ...extra,
+});
+
+const rule = (id: string, when: FeedbackRule['when'], message: FeedbackRule['message'] = id, severity: FeedbackRule['severity'] = 'suggestion'): FeedbackRule => ({
+  id, severity, when, message,
+});
+
+describe('evaluateFeedback', () => {
+  it('fires a rule only when every condition holds', () => {
+    const rules = [
+      rule('both', [{ metric: 'a', op: '>', value: 1 }, { metric: 'b', op: '<=', value: 2 }]),
+      rule('one-fails', [{ metric: 'a', op: '>', value: 1 }, { metric: 'b', op: '<', value: 2 }]),
+      rule('missing', [{ metric: 'a', op: '>', value: 1 }, { metric: 'c', op: '>', value: 0 }]),
+      rule('no-conditions', []),
+    ];
+    const items = evaluateFeedback([metric('a', 5), metric('b', 2)], rules);
+    expect(items.map(item => item.ruleId)).toEqual(['both']);
+  });
+
+  it('compares strings only for equality', () => {
+    const metrics = [metric('raga.recommended', 'Yaman')];
+    const fired = (op: FeedbackRule['when'][number]['op'], value: number | string) =>
+      evaluateFeedback(metrics, [rule('r', [{ metric: 'raga.recommended', op, value }])]).length > 0;
+    expect(fired('==', 'Yaman')).toBe(true);
+    expect(fired('!=', '')).toBe(true);
+    expect(fired('!=', 'Yaman')).toBe(false);
+    expect(fired('>', 'A')).toBe(false);
+    expect(fired('<', 5)).toBe(false);
+  });
+
+  it('fires once per subject, preferring metrics of the same subject', () => {
+    const metrics = [
+      metric('swara.meanCents', 22, { subject: 'G', label: 'Ga', ranges: [{ start: 1, end: 2 }] }),
+      metric('swara.seconds', 3, { subject: 'G', ranges: [{ start: 1.5, end: 3 }] }),
+      metric('swara.meanCents', -30, { subject: 'M', label: 'Ma' }),
+      metric('swara.seconds', 0.5, { subject: 'M' }),
+      metric('swara.meanCents', 40, { subject: 'P', label: 'Pa' }),
+      metric('swara.seconds', 2), // take-wide, used where a subject has none
+    ];
+    const items = evaluateFeedback(metrics, BUILT_IN_FEEDBACK_RULES.filter(r => r.id.endsWith('-swara')));
+    expect(items).toEqual([
+      {
+        ruleId: 'sharp-swara',
+        severity: 'suggestion',
+        message: 'Your Ga tends to be 22 cents sharp. Sing or play it against the tanpura and let it settle lower.',
+        ranges: [{ start: 1, end: 3 }],
+      },
+      expect.objectContaining({ ruleId: 'sharp-swara', message: expect.stringContaining('Your Pa tends to be 40 cents sharp') }),
+    ]);
+  });
+
+  it('orders items by severity, then by rule order', () => {
+    const rules = [
+      rule('note', [{ metric: 'x', op: '>', value: 0 }], 'n', 'info'),
+      rule('first-suggestion', [{ metric: 'x', op: '>', value: 0 }], 's', 'suggestion'),
+      rule('fix', [{ metric: 'x', op: '>', value: 0 }], 'w', 'warning'),
+      rule('second-suggestion', [{ metric: 'x', op: '>', value: 0 }], 's', 'suggestion'),
+    ];
+    expect(evaluateFeedback([metric('x', 1)], rules).map(item => item.ruleId))
+      .toEqual(['fix', 'first-suggestion', 'second-suggestion', 'note']);
+  });
+
+  it('fills placeholders from take-wide metrics and the matched value', () => {
+    const rules = [rule('r', [{ metric: 'tempo.driftPercent', op: '<', value: -5 }], 'Drift {value} ({abs}) over {notes.total} notes, {unknown}')];
+    const [item] = evaluateFeedback([metric('tempo.driftPercent', -8), metric('notes.total', 40)], rules);
+    expect(item.message).toBe('Drift -8 (8) over 40 notes, {unknown}');
+  });
+
+  it('runs the built-in rules on typical metrics', () => {
+    const items = evaluateFeedback([
+      metric('notes.total', 20),
+      metric('notes.accuracy', 60),
+      metric('clipping.percent', 0),
+      metric('dynamics.rangeDb', 12),
+    ], BUILT_IN_FEEDBACK_RULES);
+    expect(items.map(item => item.ruleId)).toEqual(['low-accuracy']);
+    expect(items[0].message).toContain('Only 60% of the notes were on pitch');
+  });
+});
+
+describe('localizeMessage', () => {
+  it('looks up message keys and passes plain text through', () => {
+    expect(localizeMessage('lowAccuracy', 'en', { value: 50 })).toMatch(/^Only 50% of the notes/);
+    expect(localizeMessage('Keep going!', 'en')).toBe('Keep going!');
+  });
+
+  it('falls back from region to language to English to the first text', () => {
+    const message = { en: 'Hello', hi: 'Namaste', 'hi-IN': 'Namaste ji' };
+    expect(localizeMessage(message, 'hi-IN')).toBe('Namaste ji');
+    expect(localizeMessage(message, 'hi-Latn')).toBe('Namaste');
+    expect(localizeMessage(message, 'fr-FR')).toBe('Hello');
+    expect(localizeMessage({ ta: 'Vanakkam' }, 'fr')).toBe('Vanakkam');
+    expect(localizeMessage('lowAccuracy', 'fr', { value: 1 })).toMatch(/^Only 1%/);
+  });
+});
+
+describe('validateFeedbackRule', () => {
+  const valid = { id: ' slow ', severity: 'info', when: [{ metric: 'tempo.bpm', op: '<', value: 60 }], message: { en: 'Slow' } };
+
+  it('accepts a well-formed rule and trims its id', () => {
+    expect(validateFeedbackRule(valid)).toEqual({ ...valid, id: 'slow' });
+  });
+
+  it.each([
+    [null, 'Rule is not an object'],
+    [{ ...valid, id: '  ' }, 'Rule has no id'],
+    [{ ...valid, severity: 'urgent' }, '"slow": unknown severity "urgent"'],
+    [{ ...valid, when: [] }, '"slow": "when" must be a list of conditions'],
+    [{ ...valid, when: 'tempo < 60' }, '"slow": "when" must be a list of conditions'],
+    [{ ...valid, when: [{ op: '<', value: 1 }] }, '"slow": condition 1 has no metric'],
+    [{ ...valid, when: [valid.when[0], { metric: 'a', op: '=>', value: 1 }] }, '"slow": condition 2 has unknown operator "=>"'],
+    [{ ...valid, when: [{ metric: 'a', op: '<', value: null }] }, '"slow": condition 1 must compare with a number or a string'],
+    [{ ...valid, message: '' }, '"slow": "message" must be'],
+    [{ ...valid, message: { en: 5 } }, '"slow": "message" must be'],
+    [{ ...valid, message: ['Slow'] }, '"slow": "message" must be'],
+  ])('rejects %j', (candidate, problem) => {
+    expect(() => validateFeedbackRule(candidate)).toThrow(problem);
+  });
+});
+
+describe('importFeedbackRules', () => {
+  const json = JSON.stringify([{ id: 'r', severity: 'warning', when: [{ metric: 'a', op: '==', value: 'b' }], message: 'Text' }]);
+
+  it('reads a list of rules or an exported file', () => {
+    expect(importFeedbackRules(json)).toHaveLength(1);
+    expect(importFeedbackRules(`{ "version": 1, "rules": ${json} }`)[0].id).toBe('r');
+  });
+
+  it('rejects anything else', () => {
+    expect(() => importFeedbackRules('{ "rule": {} }')).toThrow('The file does not contain a list of rules');
+    expect(() => importFeedbackRules('null')).toThrow('The file does not contain a list of rules');
+    expect(() => importFeedbackRules('[{ "id": "r" }]')).toThrow('"r": unknown severity');
+    expect(() => importFeedbackRules('not json')).toThrow(SyntaxError);
+  });
+});
+
+describe('combineFeedbackRules', () => {
+  it('adds custom rules and lets them replace built-in ones by id', () => {
+    const custom = [rule('low-accuracy', [{ metric: 'notes.accuracy', op: '<', value: 50 }]), rule('mine', [{ metric: 'x', op: '>', value: 0 }])];
+    const combined = combineFeedbackRules(custom);
+    expect(combined).toHaveLength(BUILT_IN_FEEDBACK_RULES.length + 1);
+    expect(combined.filter(r => r.id === 'low-accuracy')).toEqual([custom[0]]);
+    expect(combined.slice(-2)).toEqual(custom);
+    expect(combineFeedbackRules()).toEqual(BUILT_IN_FEEDBACK_RULES);
+  });
+});
@@ -0,0 +1,467 @@
+// utils/feedback.ts
+/**
+ * Feedback engine: declarative rules run over measured metrics
+ * The analysis is first boiled down to named metrics (tempo drift, timing
+ * stability, how steady held notes are, how sharp or flat each swara is,
+ * dynamic range, clipping...), each with the time ranges it was measured
+ * from. A rule is a list of conditions on those metrics, a severity and a
+ * message; it fires when every condition holds, once for each subject (each
+ * swara, say) of the metric it is about. Messages are keys into
+ * FEEDBACK_MESSAGES or texts by locale, so they can be translated.
+ *
+ * Teachers can add rules of their own as JSON; they are kept in
+ * localStorage, and a custom rule with the id of a built-in one replaces it.
+ */
+
+import type { AudioAnalysisResult } from './emotionDetector';
+import { ClippingReport, PitchFrame, TimeRange } from './audioUtils';
+import { SWARA_FULL_NAMES } from './noteNames';
+import { ORNAMENT_KINDS } from './ornaments';
+import { DEFAULT_LOCALE, FEEDBACK_MESSAGES } from './feedbackMessages';
+
+export type FeedbackSeverity = 'info' | 'suggestion' | 'warning';
+
+export type FeedbackOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+export interface FeedbackCondition {
+  metric: string; // name of a metric, e.g. "tempo.driftPercent"
+  op: FeedbackOperator;
+  value: number | string;
+}
+
+/**
+ * A rule, in the shape teachers write it as JSON
+ */
+export interface FeedbackRule {
+  id: string;
+  severity: FeedbackSeverity;
+  when: FeedbackCondition[];                // all must hold; the first is the metric the rule is about
+  message: string | Record<string, string>; // key into FEEDBACK_MESSAGES or plain text, or texts by locale
+}
+
+/**
+ * One measurement of a take
+ */
+export interface FeedbackMetric {
+  name: string;
+  subject?: string;    // what the metric describes when it is measured more than once, e.g. a swara
+  label?: string;      // how to name the subject in a message
+  value: number | string;
+  ranges: TimeRange[]; // where in the take it was measured; empty for the take as a whole
+}
+
+/**
+ * A rule that fired
+ */
+export interface FeedbackItem {
+  ruleId: string;
+  severity: FeedbackSeverity;
+  message: string;
+  ranges: TimeRange[]; // parts of the take that triggered it; empty for the take as a whole
+}
+
+/**
+ * What the metrics are measured from
+ */
+export interface FeedbackInput {
+  result: Pick<
+    AudioAnalysisResult,
+    'primaryEmotion' | 'notes' | 'tempoTarget' | 'timing' | 'reference' | 'dynamics' | 'intonation' | 'ornaments' | 'transcription'
+  >;
+  pitchTrack: PitchFrame[];
+  clipping: ClippingReport | null; // null when the samples weren't available
+  recommendedRaga?: string;        // raga suggested by the analysis service
+}
+
+export const FEEDBACK_SEVERITY_LABELS: Record<FeedbackSeverity, string> = {
+  warning: 'Fix first',
+  suggestion: 'Suggestion',
+  info: 'Note',
+};
+
+const SEVERITY_ORDER: FeedbackSeverity[] = ['warning', 'suggestion', 'info'];
+
+const OPERATORS: FeedbackOperator[] = ['<', '<=', '>', '>=', '==', '!='];
+
+export const BUILT_IN_FEEDBACK_RULES: FeedbackRule[] = [
+  { id: 'clipping', severity: 'warning', when: [{ metric: 'clipping.percent', op: '>', value: 0.01 }], message: 'clipping' },
+  { id: 'no-notes', severity: 'warning', when: [{ metric: 'notes.total', op: '==', value: 0 }], message: 'noNotes' },
+  {
+    id: 'low-accuracy',
+    severity: 'warning',
+    when: [{ metric: 'notes.accuracy', op: '<', value: 75 }, { metric: 'notes.total', op: '>', value: 0 }],
+    message: 'lowAccuracy',
+  },
+  {
+    id: 'sharp-swara',
+    severity: 'suggestion',
+    when: [{ metric: 'swara.meanCents', op: '>', value: 15 }, { metric: 'swara.seconds', op: '>=', value: 1 }],
+    message: 'sharpSwara',
+  },
+  {
+    id: 'flat-swara',
+    severity: 'suggestion',
+    when: [{ metric: 'swara.meanCents', op: '<', value: -15 }, { metric: 'swara.seconds', op: '>=', value: 1 }],
+    message: 'flatSwara',
+  },
+  { id: 'unsteady-pitch', severity: 'suggestion', when: [{ metric: 'pitch.spreadCents', op: '>', value: 20 }], message: 'unsteadyPitch' },
+  { id: 'wide-vibrato', severity: 'suggestion', when: [{ metric: 'vibrato.extentCents', op: '>', value: 50 }], message: 'wideVibrato' },
+  { id: 'tempo-rushing', severity: 'suggestion', when: [{ metric: 'tempo.driftPercent', op: '>', value: 5 }], message: 'tempoRushing' },
+  { id: 'tempo-dragging', severity: 'suggestion', when: [{ metric: 'tempo.driftPercent', op: '<', value: -5 }], message: 'tempoDragging' },
+  { id: 'uneven-timing', severity: 'suggestion', when: [{ metric: 'timing.stability', op: '<', value: 60 }], message: 'unevenTiming' },
+  {
+    id: 'ahead-of-target',
+    severity: 'suggestion',
+    when: [{ metric: 'tempo.targetDeviationPercent', op: '>', value: 5 }],
+    message: 'aheadOfTarget',
+  },
+  {
+    id: 'behind-target',
+    severity: 'suggestion',
+    when: [{ metric: 'tempo.targetDeviationPercent', op: '<', value: -5 }],
+    message: 'behindTarget',
+  },
+  { id: 'flat-dynamics', severity: 'suggestion', when: [{ metric: 'dynamics.rangeDb', op: '<', value: 6 }], message: 'flatDynamics' },
+  {
+    id: 'reference-strayed',
+    severity: 'suggestion',
+    when: [{ metric: 'reference.deviatedPhrases', op: '>', value: 0 }],
+    message: 'referenceStrayed',
+  },
+  {
+    id: 'reference-close',
+    severity: 'info',
+    when: [{ metric: 'reference.deviatedPhrases', op: '==', value: 0 }, { metric: 'reference.totalNotes', op: '>', value: 0 }],
+    message: 'referenceClose',
+  },
+  { id: 'high-accuracy', severity: 'info', when: [{ metric: 'notes.accuracy', op: '>', value: 90 }], message: 'highAccuracy' },
+  { id: 'raga-recommendation', severity: 'info', when: [{ metric: 'raga.recommended', op: '!=', value: '' }], message: 'ragaRecommendation' },
+];
+
+// Key for storing custom rules in localStorage
+const RULES_KEY = 'feedback-rules';
+
+// Local tempo has to stray this far from the opening tempo for a window to count as drift, in percent
+const DRIFT_EVIDENCE_PERCENT = 5;
+
+// Onsets this far off the beat count as uneven, in ms
+const OFF_BEAT_MS = 80;
+
+// Notes at least this long, and not ornamented, show how steadily pitch is held
+const MIN_HELD_NOTE_SECONDS = 0.3;
+
+// Held notes marked as the least steady
+const UNSTEADY_NOTES_SHOWN = 5;
+
+// Ranges closer together than this are shown as one, in seconds
+const MERGE_GAP_SECONDS = 1;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Sort ranges and join those that overlap or nearly touch
+ */
+const mergeRanges = (ranges: TimeRange[], gap = MERGE_GAP_SECONDS): TimeRange[] => {
+  const merged: TimeRange[] = [];
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start - last.end <= gap) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged.map(range => ({ start: Math.max(0, round(range.start)), end: round(range.end) }));
+};
+
+/**
+ * Boil an analysis down to the metrics rules are written against
+ */
+export const collectFeedbackMetrics = ({ result, pitchTrack, clipping, recommendedRaga }: FeedbackInput): FeedbackMetric[] => {
+  const metrics: FeedbackMetric[] = [];
+  const add = (name: string, value: number | string, ranges: TimeRange[] = [], subject?: string, label?: string) => {
+    metrics.push({ name, value, ranges, ...(subject !== undefined ? { subject, label: label ?? subject } : {}) });
+  };
+
+  add('emotion.primary', result.primaryEmotion.emotion);
+  add('notes.total', result.notes.totalNotes);
+  add('notes.accuracy', result.notes.accuracyPercentage);
+
+  // Tempo drift from the opening to the closing tempo
+  const curve = result.timing?.tempoCurve ?? [];
+  if (curve.length > 1 && curve[0].bpm > 0) {
+    const first = curve[0].bpm;
+    const drifted = curve
+      .filter(point => Math.abs(point.bpm - first) / first * 100 > DRIFT_EVIDENCE_PERCENT)
+      .map(point => ({ start: point.time - 0.5, end: point.time + 0.5 }));
+    add('tempo.driftPercent', round(((curve[curve.length - 1].bpm - first) / first) * 100), mergeRanges(drifted));
+  }
+  if (result.timing) {
+    const offBeat = result.timing.deviations
+      .filter(deviation => Math.abs(deviation.deviationMs) > OFF_BEAT_MS)
+      .map(deviation => ({ start: deviation.time - 0.1, end: deviation.time + 0.1 }));
+    add('timing.stability', result.timing.stability, mergeRanges(offBeat));
+    add('timing.meanOffMs', result.timing.meanAbsDeviationMs);
+  }
+  if (result.tempoTarget) {
+    add('tempo.targetBpm', result.tempoTarget.bpm);
+    add('tempo.playedBpm', result.tempoTarget.playedBpm);
+    add('tempo.targetDeviationPercent', result.tempoTarget.deviationPercent);
+  }
+
+  // How far held notes waver around their own pitch, leaving out deliberate vibrato and gamak
+  const oscillations = result.ornaments.events.filter(event => event.kind === 'vibrato' || event.kind === 'gamak');
+  const held = (result.transcription ?? [])
+    .filter(note => note.end - note.start >= MIN_HELD_NOTE_SECONDS && !note.ornamented)
+    .filter(note => !oscillations.some(event => event.start < note.end && event.end > note.start))
+    .flatMap(note => {
+      const cents = pitchTrack
+        .filter(frame => frame.f0 > 0 && frame.time >= note.start && frame.time < note.end)
+        .map(frame => 1200 * Math.log2(frame.f0 / 440) + 6900 - note.midi * 100);
+      if (cents.length < 2) return [];
+      const mean = cents.reduce((acc, c) => acc + c, 0) / cents.length;
+      const spread = Math.sqrt(cents.reduce((acc, c) => acc + (c - mean) ** 2, 0) / cents.length);
+      return [{ start: note.start, end: note.end, spread }];
+    });
+  if (held.length > 0) {
+    const spreads = held.map(note => note.spread).sort((a, b) => a - b);
+    const shakiest = [...held].sort((a, b) => b.spread - a.spread).slice(0, UNSTEADY_NOTES_SHOWN);
+    add('pitch.spreadCents', round(spreads[Math.floor(spreads.length / 2)]), mergeRanges(shakiest, 0));
+  }
+
+  // Sharp or flat tendencies of each swara
+  if (result.intonation) {
+    for (const swara of result.intonation) {
+      const label = SWARA_FULL_NAMES[swara.swara];
+      const ranges = mergeRanges(swara.ranges, 0.2);
+      add('swara.meanCents', swara.meanCents, ranges, swara.swara, label);
+      add('swara.spreadCents', swara.spreadCents, ranges, swara.swara, label);
+      add('swara.seconds', swara.seconds, ranges, swara.swara, label);
+    }
+  }
+
+  // Ornaments: how many of each, and what the vibrato is like
+  for (const kind of ORNAMENT_KINDS) {
+    const events = result.ornaments.events.filter(event => event.kind === kind);
+    add(`ornaments.${kind}`, events.length, mergeRanges(events, 0));
+  }
+  if (result.ornaments.vibrato) {
+    const vibratoRanges = mergeRanges(result.ornaments.events.filter(event => event.kind === 'vibrato'), 0);
+    add('vibrato.rateHz', result.ornaments.vibrato.rateHz, vibratoRanges);
+    add('vibrato.extentCents', result.ornaments.vibrato.extentCents, vibratoRanges);
+  }
+
+  if (result.dynamics) {
+    add('dynamics.rangeDb', round(result.dynamics.range.max - result.dynamics.range.min));
+    add('dynamics.averageDb', result.dynamics.average);
+  }
+  if (clipping) {
+    add('clipping.percent', Math.round(clipping.share * 100000) / 1000, mergeRanges(clipping.ranges, 0.5));
+  }
+
+  if (result.reference) {
+    const deviated = result.reference.phrases.filter(phrase => phrase.deviated);
+    add('reference.name', result.reference.referenceName);
+    add('reference.phrases', result.reference.phrases.length);
+    add('reference.deviatedPhrases', deviated.length, deviated.map(phrase => ({ start: phrase.start, end: phrase.end })));
+    add('reference.totalNotes', result.reference.totalNotes);
+  }
+  if (recommendedRaga) {
+    add('raga.recommended', recommendedRaga);
+  }
+
+  return metrics;
+};
+
+const holds = (actual: number | string, op: FeedbackOperator, expected: number | string): boolean => {
+  if (op === '==') return actual === expected;
+  if (op === '!=') return actual !== expected;
+  if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+  switch (op) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+  }
+};
+
+/**
+ * Locales to try for a message, most specific first
+ */
+const localeChain = (locale: string): string[] => [locale, locale.split('-')[0], DEFAULT_LOCALE];
+
+/**
+ * Resolve a message key or text for a locale and fill in its placeholders
+ */
+export const localizeMessage = (
+  message: FeedbackRule['message'],
+  locale: string,
+  values: Record<string, number | string> = {}
+): string => {
+  const chain = localeChain(locale);
+  let text: string;
+  if (typeof message === 'string') {
+    const catalog = chain.map(code => FEEDBACK_MESSAGES[code]?.[message]).find(found => found !== undefined);
+    text = catalog ?? message;
+  } else {
+    text = chain.map(code => message[code]).find(found => found !== undefined) ?? Object.values(message)[0] ?? '';
+  }
+  return text.replace(/\{([\w.]+)\}/g, (placeholder, name: string) => (
+    values[name] !== undefined ? String(values[name]) : placeholder
+  ));
+};
+
+/**
+ * Run rules over the metrics of a take
+ * @returns The rules that fired, most severe first
+ */
+export const evaluateFeedback = (
+  metrics: FeedbackMetric[],
+  rules: FeedbackRule[],
+  locale = DEFAULT_LOCALE
+): FeedbackItem[] => {
+  // A metric measured for the same subject wins over the take-wide one
+  const lookup = (name: string, subject?: string) =>
+    metrics.find(metric => metric.name === name && metric.subject === subject) ??
+    metrics.find(metric => metric.name === name && metric.subject === undefined);
+
+  const items: FeedbackItem[] = [];
+  for (const rule of rules) {
+    const [primary] = rule.when;
+    if (!primary) continue;
+
+    for (const subjectMetric of metrics.filter(metric => metric.name === primary.metric)) {
+      const found = rule.when.map(condition => lookup(condition.metric, subjectMetric.subject));
+      const fires = rule.when.every((condition, i) => {
+        const metric = found[i];
+        return metric !== undefined && holds(metric.value, condition.op, condition.value);
+      });
+      if (!fires) continue;
+
+      const values: Record<string, number | string> = {};
+      for (const metric of metrics) {
+        if (metric.subject === undefined || metric.subject === subjectMetric.subject) values[metric.name] = metric.value;
+      }
+      values.value = subjectMetric.value;
+      values.abs = typeof subjectMetric.value === 'number' ? Math.abs(subjectMetric.value) : subjectMetric.value;
+      values.subject = subjectMetric.label ?? '';
+
+      items.push({
+        ruleId: rule.id,
+        severity: rule.severity,
+        message: localizeMessage(rule.message, locale, values),
+        ranges: mergeRanges(found.flatMap(metric => metric?.ranges ?? []), 0),
+      });
+    }
+  }
+
+  return items
+    .map((item, order) => ({ item, order }))
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.item.severity) - SEVERITY_ORDER.indexOf(b.item.severity) || a.order - b.order)
+    .map(({ item }) => item);
+};
+
+/**
+ * The built-in rules with custom ones added; a custom rule replaces a built-in one with its id
+ */
+export const combineFeedbackRules = (custom: FeedbackRule[] = []): FeedbackRule[] => {
+  const customIds = new Set(custom.map(rule => rule.id));
+  return [...BUILT_IN_FEEDBACK_RULES.filter(rule => !customIds.has(rule.id)), ...custom];
+};
+
+/**
+ * One-line summary of the take's mood
+ */
+export const summarizeEmotion = (emotion: string, locale = DEFAULT_LOCALE): string => {
+  const key = `summary.${emotion}`;
+  const known = localeChain(locale).some(code => FEEDBACK_MESSAGES[code]?.[key] !== undefined);
+  return localizeMessage(known ? key : 'summary.default', locale);
+};
+
+/**
+ * Check that a value is a well-formed rule
+ * @throws Error describing the first problem found
+ */
+export const validateFeedbackRule = (candidate: unknown): FeedbackRule => {
+  if (!candidate || typeof candidate !== 'object') {
+    throw new Error('Rule is not an object');
+  }
+  const value = candidate as Record<string, unknown>;
+  const id = typeof value.id === 'string' ? value.id.trim() : '';
+  if (!id) throw new Error('Rule has no id');
+
+  const fail = (problem: string): never => {
+    throw new Error(`"${id}": ${problem}`);
+  };
+
+  const severity = value.severity as FeedbackSeverity;
+  if (!SEVERITY_ORDER.includes(severity)) fail(`unknown severity "${String(value.severity)}" (use ${SEVERITY_ORDER.join(', ')})`);
+
+  if (!Array.isArray(value.when) || value.when.length === 0) fail('"when" must be a list of conditions');
+  const when = (value.when as unknown[]).map((raw, i): FeedbackCondition => {
+    const condition = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    if (typeof condition.metric !== 'string' || !condition.metric) fail(`condition ${i + 1} has no metric`);
+    if (!OPERATORS.includes(condition.op as FeedbackOperator)) {
+      fail(`condition ${i + 1} has unknown operator "${String(condition.op)}" (use ${OPERATORS.join(' ')})`);
+    }
+    if (typeof condition.value !== 'number' && typeof condition.value !== 'string') {
+      fail(`condition ${i + 1} must compare with a number or a string`);
+    }
+    return { metric: condition.metric as string, op: condition.op as FeedbackOperator, value: condition.value as number | string };
+  });
+
+  const message = value.message;
+  const validMessage = (typeof message === 'string' && message.trim() !== '') ||
+    (!!message && typeof message === 'object' && !Array.isArray(message) &&
+      Object.values(message).length > 0 && Object.values(message).every(text => typeof text === 'string'));
+  if (!validMessage) fail('"message" must be a text, a message key, or texts by locale such as { "en": "..." }');
+
+  return { id, severity, when, message: message as FeedbackRule['message'] };
+};
+
+/**
+ * Read the custom rules, skipping any that no longer validate
+ */
+export const getCustomFeedbackRules = (): FeedbackRule[] => {
+  try {
+    const rulesJson = localStorage.getItem(RULES_KEY);
+    const stored: unknown[] = rulesJson ? JSON.parse(rulesJson) : [];
+    return stored.flatMap(candidate => {
+      try {
+        return [validateFeedbackRule(candidate)];
+      } catch (error) {
+        console.error('Skipping invalid stored feedback rule:', error);
+        return [];
+      }
+    });
+  } catch (error) {
+    console.error('Error reading feedback rules:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the custom rules
+ */
+export const saveCustomFeedbackRules = (rules: FeedbackRule[]): void => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+/**
+ * Serialize rules for sharing
+ */
+export const exportFeedbackRules = (rules: FeedbackRule[]): string =>
+  JSON.stringify({ version: 1, rules }, null, 2);
+
+/**
+ * Parse rules from JSON: either a list of rules or { "rules": [...] }
+ * @throws Error when the JSON or any rule in it is invalid
+ */
+export const importFeedbackRules = (json: string): FeedbackRule[] => {
+  const parsed: unknown = JSON.parse(json);
+  const list = Array.isArray(parsed) ? parsed : (parsed as { rules?: unknown })?.rules;
+  if (!Array.isArray(list)) {
+    throw new Error('The file does not contain a list of rules');
+  }
+  return list.map(validateFeedbackRule);
+};
@@ -0,0 +1,44 @@
+// utils/feedbackMessages.ts
+/**
+ * Texts of the feedback engine's built-in rules and summaries, by locale
+ * Messages may use placeholders: {value} is the value of the metric the rule
+ * is about, {abs} the same without its sign, {subject} what the metric
+ * describes (a swara, for example) and {metric.name} any other metric. A
+ * locale only needs the keys it translates; the rest fall back to English.
+ */
+
+export const DEFAULT_LOCALE = 'en';
+
+export const FEEDBACK_MESSAGES: Record<string, Record<string, string>> = {
+  en: {
+    'summary.Joyful': 'Your playing has a bright, uplifting quality that conveys joy and positivity.',
+    'summary.Melancholic': 'Your playing captures a gentle melancholy with thoughtful phrasing.',
+    'summary.Peaceful': 'Your playing has a calm, peaceful quality with smooth transitions.',
+    'summary.Energetic': 'Your playing is energetic and lively with good rhythmic drive.',
+    'summary.Nostalgic': 'Your playing evokes a nostalgic feeling with warm tonal qualities.',
+    'summary.Playful': 'Your playing has a playful character with good articulation.',
+    'summary.Tender': 'Your playing conveys tenderness and sensitivity with careful phrasing.',
+    'summary.Dramatic': 'Your playing has dramatic elements with effective use of dynamics.',
+    'summary.default': 'Your playing shows good technical control and musical expression.',
+    'summary.service': 'The analysis service hears a {emotion.primary} mood in your playing.',
+    'summary.serviceUnknown': "The analysis service couldn't make out the mood of this recording.",
+
+    noNotes: 'No clear notes were detected. Try recording closer to the microphone in a quieter room.',
+    lowAccuracy: 'Only {value}% of the notes were on pitch. Work on improving pitch accuracy, particularly during chord transitions.',
+    highAccuracy: 'Excellent pitch accuracy ({value}%)! Consider focusing on more expressive elements.',
+    tempoRushing: 'Your tempo crept up by {abs}% over the take. Practise with a metronome and listen for rushing.',
+    tempoDragging: 'Your tempo slowed down by {abs}% over the take. Keep the pulse going through the harder passages.',
+    unevenTiming: 'Note timing is uneven (stability {value}/100). Try counting the beats aloud or practising slowly with a click.',
+    aheadOfTarget: 'You played at about {tempo.playedBpm} BPM against a target of {tempo.targetBpm} BPM. Try holding back to sit with the click.',
+    behindTarget: 'You played at about {tempo.playedBpm} BPM against a target of {tempo.targetBpm} BPM. Try pushing forward to sit with the click.',
+    unsteadyPitch: 'Held notes waver by about {value} cents. Support the breath or the fretting hand so long notes stay put.',
+    wideVibrato: 'Your vibrato swings about {value} cents either way, which blurs the swara. Try a narrower, slower vibrato.',
+    sharpSwara: 'Your {subject} tends to be {abs} cents sharp. Sing or play it against the tanpura and let it settle lower.',
+    flatSwara: 'Your {subject} tends to be {abs} cents flat. Sing or play it against the tanpura and lift it slightly.',
+    flatDynamics: 'Your loudness stays within {value} dB. Try creating more contrast between soft and loud sections.',
+    clipping: 'The recording clipped ({value}% of samples), which distorts the sound and the analysis. Move back from the microphone or lower the input level.',
+    referenceStrayed: 'Compared with "{reference.name}", {value} of {reference.phrases} phrases strayed. Listen to those phrases in the reference and try them again.',
+    referenceClose: 'Every phrase stayed close to "{reference.name}". Well done!',
+    ragaRecommendation: 'For this mood, the analysis service suggests exploring Raag {value}.',
+  },
+};
@@ -0,0 +1,91 @@
+// utils/intonation.ts
+/**
+ * Intonation of each swara relative to the tonic
+ * Only steady stretches count: frames where the pitch is gliding (meend,
+ * the swings of a gamak, a slide into a note) would otherwise drag every
+ * swara towards its neighbours. Each octave of a swara is pooled, since a
+ * komal Re that is sharp tends to be sharp in every octave.
+ */
+
+import { PitchFrame, TimeRange } from './audioUtils';
+import { Swara, SWARAS, hzToSwara, hzToCents } from './swara';
+
+/**
+ * How one swara was pitched over a take
+ */
+export interface SwaraIntonation {
+  swara: Swara;
+  meanCents: number;   // average deviation from the swara; positive is sharp
+  spreadCents: number; // standard deviation of that deviation
+  seconds: number;     // time held steadily on the swara
+  ranges: TimeRange[]; // where it was held
+}
+
+// Frames either side compared to judge whether the pitch is steady
+const STEADY_SPAN_FRAMES = 2;
+
+// Most the pitch may move across that span and still count as steady, in cents
+const STEADY_CENTS = 30;
+
+// Shortest hold on a swara that counts, in seconds
+const MIN_HOLD_SECONDS = 0.1;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Measure how sharp or flat each swara was held
+ * @returns One entry per swara that was held, in the order of SWARAS
+ */
+export const measureIntonation = (track: PitchFrame[], tonicHz: number): SwaraIntonation[] => {
+  const frameSeconds = track.length > 1 ? track[1].time - track[0].time : 0.01;
+  const cents = track.map(frame => (frame.f0 > 0 ? hzToCents(frame.f0, tonicHz) : null));
+
+  const isSteady = (i: number) => {
+    const before = cents[i - STEADY_SPAN_FRAMES] ?? null;
+    const after = cents[i + STEADY_SPAN_FRAMES] ?? null;
+    return cents[i] !== null && before !== null && after !== null && Math.abs(after - before) <= STEADY_CENTS;
+  };
+
+  // Runs of steady frames on one swara and octave
+  const holds: { swara: Swara; start: number; end: number; deviations: number[] }[] = [];
+  let current: (typeof holds)[number] | null = null;
+  let currentOctave = 0;
+
+  const close = () => {
+    if (current && current.end - current.start >= MIN_HOLD_SECONDS) holds.push(current);
+    current = null;
+  };
+
+  track.forEach((frame, i) => {
+    if (!isSteady(i)) {
+      close();
+      return;
+    }
+    const { swara, octave, cents: deviation } = hzToSwara(frame.f0, tonicHz);
+    if (current && current.swara === swara && currentOctave === octave) {
+      current.end = frame.time + frameSeconds;
+      current.deviations.push(deviation);
+    } else {
+      close();
+      current = { swara, start: frame.time, end: frame.time + frameSeconds, deviations: [deviation] };
+      currentOctave = octave;
+    }
+  });
+  close();
+
+  return SWARAS.flatMap(swara => {
+    const own = holds.filter(hold => hold.swara === swara);
+    const deviations = own.flatMap(hold => hold.deviations);
+    if (deviations.length === 0) return [];
+
+    const mean = deviations.reduce((acc, d) => acc + d, 0) / deviations.length;
+    const variance = deviations.reduce((acc, d) => acc + (d - mean) ** 2, 0) / deviations.length;
+    return [{
+      swara,
+      meanCents: round(mean),
+      spreadCents: round(Math.sqrt(variance)),
+      seconds: round(deviations.length * frameSeconds),
+      ranges: own.map(hold => ({ start: Math.round(hold.start * 100) / 100, end: Math.round(hold.end * 100) / 100 })),
+    }];
+  });
+};
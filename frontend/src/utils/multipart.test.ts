@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { getBoundary, parseMultipart } from './multipart';
+
+const BOUNDARY = '----form123';
+
+const body = (...sections: (string | Buffer)[]) =>
+  Buffer.concat(sections.map(section => (typeof section === 'string' ? Buffer.from(section, 'binary') : section)));
+
+describe('getBoundary', () => {
+  it('reads plain and quoted boundaries', () => {
+    expect(getBoundary(`multipart/form-data; boundary=${BOUNDARY}`)).toBe(BOUNDARY);
+    expect(getBoundary('Multipart/Form-Data; boundary="a b;c"; charset=utf-8')).toBe('a b;c');
+  });
+
+  it('returns null for other content types or a missing boundary', () => {
+    expect(getBoundary(undefined)).toBeNull();
+    expect(getBoundary('application/json')).toBeNull();
+    expect(getBoundary('multipart/form-data')).toBeNull();
+    expect(getBoundary('multipart/mixed; boundary=x')).toBeNull();
+  });
+});
+
+describe('parseMultipart', () => {
+  it('splits text and file fields', () => {
+    const audio = Buffer.from([0x52, 0x49, 0x46, 0x46, 0x0d, 0x0a, 0x00, 0xff]);
+    const parts = parseMultipart(body(
+      `--${BOUNDARY}\r\n`,
+      'Content-Disposition: form-data; name="tonicHz"\r\n\r\n',
+      '261.63\r\n',
+      `--${BOUNDARY}\r\n`,
+      'Content-Disposition: form-data; name="audio"; filename="take.wav"\r\n',
+      'Content-Type: audio/wav\r\n\r\n',
+      audio,
+      `\r\n--${BOUNDARY}--\r\n`,
+    ), BOUNDARY);
+
+    expect(parts).toHaveLength(2);
+    expect(parts[0]).toMatchObject({ name: 'tonicHz', filename: undefined });
+    expect(parts[0].data.toString()).toBe('261.63');
+    expect(parts[1]).toMatchObject({ name: 'audio', filename: 'take.wav', contentType: 'audio/wav' });
+    expect(parts[1].data.equals(audio)).toBe(true);
+  });
+
+  it('keeps an empty filename apart from a text field', () => {
+    const parts = parseMultipart(body(
+      `--${BOUNDARY}\r\n`,
+      'Content-Disposition: form-data; name="audio"; filename=""\r\n\r\n',
+      `\r\n--${BOUNDARY}--`,
+    ), BOUNDARY);
+    expect(parts[0].filename).toBe('');
+    expect(parts[0].data.length).toBe(0);
+  });
+
+  it('skips parts without a name or headers', () => {
+    const parts = parseMultipart(body(
+      `--${BOUNDARY}\r\n`,
+      'Content-Disposition: form-data\r\n\r\n',
+      'anonymous\r\n',
+      `--${BOUNDARY}\r\n`,
+      'no header separator\r\n',
+      `--${BOUNDARY}\r\n`,
+      'Content-Disposition: form-data; name="taal"\r\n\r\n',
+      'teentaal\r\n',
+      `--${BOUNDARY}--\r\n`,
+    ), BOUNDARY);
+    expect(parts.map(part => part.name)).toEqual(['taal']);
+  });
+
+  it('ignores the preamble and anything after the closing delimiter', () => {
+    const parts = parseMultipart(body(
+      'preamble\r\n',
+      `--${BOUNDARY}\r\n`,
+      'Content-Disposition: form-data; name="locale"\r\n\r\n',
+      'hi-IN\r\n',
+      `--${BOUNDARY}--\r\n`,
+      `--${BOUNDARY}\r\n`,
+      'Content-Disposition: form-data; name="after"\r\n\r\n',
+      'x\r\n',
+    ), BOUNDARY);
+    expect(parts.map(part => part.name)).toEqual(['locale']);
+  });
+
+  it('returns what it has when the body is cut off', () => {
+    const parts = parseMultipart(body(
+      `--${BOUNDARY}\r\n`,
+      'Content-Disposition: form-data; name="tonicHz"\r\n\r\n',
+      '220\r\n',
+      `--${BOUNDARY}\r\n`,
+      'Content-Disposition: form-data; name="audio"; filename="take.wav"\r\n\r\n',
+      'RIFF',
+    ), BOUNDARY);
+    expect(parts.map(part => part.name)).toEqual(['tonicHz']);
+  });
+
+  it('returns nothing for a body without the boundary', () => {
+    expect(parseMultipart(Buffer.from('{"audio": null}'), BOUNDARY)).toEqual([]);
+  });
+});
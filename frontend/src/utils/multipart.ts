@@ -0,0 +1,81 @@
+// utils/multipart.ts
+/**
+ * Minimal multipart/form-data parser for API routes
+ * Next.js only parses JSON and URL-encoded bodies, so routes that accept file
+ * uploads turn off its body parser, read the raw body and split it here.
+ * Server-side only (uses Node's Buffer).
+ */
+
+export interface MultipartPart {
+  name: string;
+  filename?: string;    // set for file fields
+  contentType?: string;
+  data: Buffer;
+}
+
+/**
+ * Get the boundary from a multipart/form-data Content-Type header
+ * @returns null when the header isn't multipart/form-data
+ */
+export const getBoundary = (contentType: string | undefined): string | null => {
+  if (!contentType || !/^multipart\/form-data\b/i.test(contentType)) return null;
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  return match ? (match[1] || match[2]).trim() : null;
+};
+
+/**
+ * Parse the headers of one part into lower-cased names
+ */
+const parsePartHeaders = (block: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  block.split('\r\n').forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+  });
+  return headers;
+};
+
+/**
+ * Split a multipart/form-data body into its parts
+ * Parts without a Content-Disposition name are skipped.
+ */
+export const parseMultipart = (body: Buffer, boundary: string): MultipartPart[] => {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const parts: MultipartPart[] = [];
+
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const afterDelimiter = start + delimiter.length;
+
+    // "--" straight after the delimiter marks the end of the body
+    if (body.subarray(afterDelimiter, afterDelimiter + 2).toString() === '--') break;
+
+    const next = body.indexOf(delimiter, afterDelimiter);
+    if (next === -1) break;
+
+    // Each part is CRLF, headers, a blank line, then content ending in CRLF
+    const part = body.subarray(afterDelimiter + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = parsePartHeaders(part.subarray(0, headerEnd).toString('utf8'));
+      const disposition = headers['content-disposition'] || '';
+      const name = disposition.match(/\bname="([^"]*)"/i);
+      const filename = disposition.match(/\bfilename="([^"]*)"/i);
+
+      if (name) {
+        parts.push({
+          name: name[1],
+          filename: filename ? filename[1] : undefined,
+          contentType: headers['content-type'],
+          data: part.subarray(headerEnd + 4),
+        });
+      }
+    }
+
+    start = next;
+  }
+
+  return parts;
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { toMidiFile, toMusicXml } from './notationExport';
+import { TranscribedNote } from './transcription';
+
+const note = (start: number, end: number, midi: number, velocity = 100): TranscribedNote => ({
+  start, end, midi, velocity, cents: 0, ornamented: false,
+});
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+/**
+ * Read back the events of a format 0 file as [absolute tick, ...bytes]
+ */
+const readEvents = (bytes: Uint8Array): number[][] => {
+  const events: number[][] = [];
+  let offset = 22; // 14-byte header chunk, then "MTrk" and its length
+  let tick = 0;
+  while (offset < bytes.length) {
+    let delta = 0;
+    let byte: number;
+    do {
+      byte = bytes[offset++];
+      delta = (delta << 7) | (byte & 0x7f);
+    } while (byte & 0x80);
+    tick += delta;
+
+    const status = bytes[offset];
+    const length = status === 0xff ? 3 + bytes[offset + 2] : 3;
+    events.push([tick, ...bytes.subarray(offset, offset + length)]);
+    offset += length;
+  }
+  return events;
+};
+
+describe('toMidiFile', () => {
+  const options = { title: 'Yaman', tempoBpm: 120 };
+
+  it('writes a format 0 header and a track chunk of the right length', () => {
+    const bytes = toMidiFile([note(0, 0.5, 60)], options);
+    expect(Array.from(bytes.subarray(0, 14))).toEqual([
+      0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0x01, 0xe0,
+    ]);
+    expect(String.fromCharCode(...bytes.subarray(14, 18))).toBe('MTrk');
+    expect(readUint32(bytes, 18)).toBe(bytes.length - 22);
+  });
+
+  it('starts with the title, tempo and time signature, and ends the track', () => {
+    const events = readEvents(toMidiFile([note(0, 0.5, 60)], options));
+    expect(events[0]).toEqual([0, 0xff, 0x03, 5, ...Array.from('Yaman', c => c.charCodeAt(0))]);
+    expect(events[1]).toEqual([0, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20]); // 500000 µs per quarter
+    expect(events[2]).toEqual([0, 0xff, 0x58, 0x04, 4, 2, 0x18, 0x08]);
+    expect(events[events.length - 1]).toEqual([480, 0xff, 0x2f, 0x00]);
+  });
+
+  it('places notes at ticks from the tempo, with variable-length deltas', () => {
+    const bytes = toMidiFile([note(0, 0.5, 60, 90), note(1, 3, 62)], options);
+    const events = readEvents(bytes).filter(event => event[1] !== 0xff);
+    // The note-off 480 ticks after the first note-on takes a two-byte delta
+    expect(Array.from(bytes.subarray(-19, -14))).toEqual([0x83, 0x60, 0x80, 60, 0x40]);
+    expect(events).toEqual([
+      [0, 0x90, 60, 90],
+      [480, 0x80, 60, 0x40],
+      [960, 0x90, 62, 100],
+      [2880, 0x80, 62, 0x40],
+    ]);
+  });
+
+  it('ends a repeated note before starting it again', () => {
+    const events = readEvents(toMidiFile([note(0, 0.5, 64), note(0.5, 1, 64)], options)).filter(event => event[1] !== 0xff);
+    expect(events.map(event => event.slice(0, 2))).toEqual([[0, 0x90], [480, 0x80], [480, 0x90], [960, 0x80]]);
+  });
+
+  it('keeps notes at least a tick long and keys within 0-127', () => {
+    const events = readEvents(toMidiFile([note(0, 0, 130), note(0.5, 0.6, -4)], options)).filter(event => event[1] !== 0xff);
+    expect(events[0]).toEqual([0, 0x90, 127, 100]);
+    expect(events[1]).toEqual([1, 0x80, 127, 0x40]);
+    expect(events[2][2]).toBe(0);
+  });
+
+  it('falls back to 120 bpm without a tempo', () => {
+    const events = readEvents(toMidiFile([], { title: '', tempoBpm: 0 }));
+    expect(events[1]).toEqual([0, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20]);
+  });
+});
+
+describe('toMusicXml', () => {
+  const options = { title: 'Raag <Yaman> & Co', tempoBpm: 60 };
+  const measures = (xml: string) => xml.match(/<measure number="\d+">.*<\/measure>/g) ?? [];
+  const noteElements = (xml: string) => xml.match(/<note>.*?<\/note>/g) ?? [];
+
+  it('writes a partwise score with escaped title, tempo and 4/4 time', () => {
+    const xml = toMusicXml([note(0, 1, 67)], options);
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n<!DOCTYPE score-partwise')).toBe(true);
+    expect(xml).toContain('<work-title>Raag &lt;Yaman&gt; &amp; Co</work-title>');
+    expect(xml).toContain('<divisions>4</divisions>');
+    expect(xml).toContain('<time><beats>4</beats><beat-type>4</beat-type></time>');
+    expect(xml).toContain('<per-minute>60</per-minute>');
+    expect(xml).toContain('<sound tempo="60"/>');
+    expect(xml).toContain('<clef><sign>G</sign><line>2</line></clef>');
+  });
+
+  it('fills every measure to four beats with rests', () => {
+    const xml = toMusicXml([note(1, 2, 60)], options);
+    expect(measures(xml)).toHaveLength(1);
+    expect(noteElements(xml)).toEqual([
+      '<note><rest/><duration>4</duration><type>quarter</type></note>',
+      '<note><pitch><step>C</step><octave>4</octave></pitch><duration>4</duration><type>quarter</type></note>',
+      '<note><rest/><duration>8</duration><type>half</type></note>',
+    ]);
+  });
+
+  it('ties notes across bar lines and writes dotted values', () => {
+    const xml = toMusicXml([note(2.5, 5, 61)], options);
+    const [first, second] = measures(xml);
+    expect(first).toContain('<rest/><duration>8</duration><type>half</type>');
+    expect(first).toContain('<step>C</step><alter>1</alter><octave>4</octave></pitch><duration>6</duration><tie type="start"/><type>quarter</type><dot/>');
+    expect(first).toContain('<notations><tied type="start"/></notations>');
+    expect(second).toContain('<duration>4</duration><tie type="stop"/><type>quarter</type>');
+    expect(second).toContain('<notations><tied type="stop"/></notations>');
+  });
+
+  it('keeps quantized notes from overlapping', () => {
+    const xml = toMusicXml([note(0, 1.1, 60), note(1.05, 2, 62)], options);
+    const durations = noteElements(xml).map(element => element.match(/<duration>(\d+)<\/duration>/)?.[1]);
+    expect(durations).toEqual(['4', '4', '8']);
+  });
+
+  it('adds sargam lyrics with a tonic and uses the bass clef for low parts', () => {
+    const xml = toMusicXml([note(0, 1, 48), note(1, 2, 50)], { ...options, tonicHz: 130.81 });
+    expect(xml).toContain('<clef><sign>F</sign><line>4</line></clef>');
+    expect(xml.match(/<lyric><text>([^<]*)<\/text><\/lyric>/g)).toHaveLength(2);
+    expect(xml).toContain('<octave>3</octave>');
+  });
+
+  it('writes a single measure of rest when there are no notes', () => {
+    const xml = toMusicXml([], options);
+    expect(measures(xml)).toHaveLength(1);
+    expect(noteElements(xml)).toEqual(['<note><rest/><duration>16</duration><type>whole</type></note>']);
+  });
+});
@@ -0,0 +1,226 @@
+// utils/notationExport.ts
+/**
+ * Export of transcribed notes for notation software
+ * The Standard MIDI File keeps the timing exactly as played, with the tempo
+ * set so bar lines fall where the beats were. MusicXML needs note values, so
+ * notes are quantized to sixteenths at that tempo and written in 4/4, with
+ * ties across bar lines and sargam names as lyrics when the tonic is known.
+ */
+
+import { TranscribedNote } from './transcription';
+import { hzToSargamNote, midiToHz } from './noteNames';
+
+export interface NotationExportOptions {
+  title: string;
+  tempoBpm: number; // beats per minute the notes are laid out against
+  tonicHz?: number; // Sa, for sargam lyrics in MusicXML
+}
+
+// MIDI ticks per quarter note
+const TICKS_PER_QUARTER = 480;
+
+// MusicXML divisions per quarter note; notes are quantized to sixteenths
+const DIVISIONS = 4;
+const BEATS_PER_MEASURE = 4;
+const MEASURE_DIVISIONS = DIVISIONS * BEATS_PER_MEASURE;
+
+// Tempo used when none was detected
+const DEFAULT_TEMPO_BPM = 120;
+
+// Written note values by length in sixteenths, longest first
+const NOTE_VALUES: { length: number; type: string; dotted: boolean }[] = [
+  { length: 16, type: 'whole', dotted: false },
+  { length: 12, type: 'half', dotted: true },
+  { length: 8, type: 'half', dotted: false },
+  { length: 6, type: 'quarter', dotted: true },
+  { length: 4, type: 'quarter', dotted: false },
+  { length: 3, type: 'eighth', dotted: true },
+  { length: 2, type: 'eighth', dotted: false },
+  { length: 1, type: '16th', dotted: false },
+];
+
+const STEPS: { step: string; alter: number }[] = [
+  { step: 'C', alter: 0 }, { step: 'C', alter: 1 }, { step: 'D', alter: 0 }, { step: 'D', alter: 1 },
+  { step: 'E', alter: 0 }, { step: 'F', alter: 0 }, { step: 'F', alter: 1 }, { step: 'G', alter: 0 },
+  { step: 'G', alter: 1 }, { step: 'A', alter: 0 }, { step: 'A', alter: 1 }, { step: 'B', alter: 0 },
+];
+
+const MIDDLE_C = 60;
+
+const validTempo = (bpm: number) => (bpm > 0 ? bpm : DEFAULT_TEMPO_BPM);
+
+const midiKey = (midi: number) => Math.max(0, Math.min(127, Math.round(midi)));
+
+/**
+ * Encode a number as a MIDI variable-length quantity
+ */
+const variableLength = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+};
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+/**
+ * Write notes as a single-track Standard MIDI File (format 0)
+ */
+export const toMidiFile = (notes: TranscribedNote[], options: NotationExportOptions): Uint8Array<ArrayBuffer> => {
+  const bpm = validTempo(options.tempoBpm);
+  const toTicks = (seconds: number) => Math.round(seconds * (bpm / 60) * TICKS_PER_QUARTER);
+  const microsPerQuarter = Math.round(60000000 / bpm);
+  const title = Array.from(new TextEncoder().encode(options.title));
+
+  // Note-offs sort before note-ons at the same tick so repeated notes retrigger
+  const events: { tick: number; order: number; bytes: number[] }[] = [];
+  for (const note of notes) {
+    const key = midiKey(note.midi);
+    events.push({ tick: toTicks(note.start), order: 1, bytes: [0x90, key, note.velocity] });
+    events.push({ tick: Math.max(toTicks(note.end), toTicks(note.start) + 1), order: 0, bytes: [0x80, key, 0x40] });
+  }
+  events.sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+  const track: number[] = [
+    0x00, 0xff, 0x03, ...variableLength(title.length), ...title,
+    0x00, 0xff, 0x51, 0x03, (microsPerQuarter >> 16) & 0xff, (microsPerQuarter >> 8) & 0xff, microsPerQuarter & 0xff,
+    0x00, 0xff, 0x58, 0x04, BEATS_PER_MEASURE, 0x02, 0x18, 0x08,
+  ];
+  let lastTick = 0;
+  for (const event of events) {
+    track.push(...variableLength(event.tick - lastTick), ...event.bytes);
+    lastTick = event.tick;
+  }
+  track.push(0x00, 0xff, 0x2f, 0x00);
+
+  return new Uint8Array([
+    0x4d, 0x54, 0x68, 0x64, ...uint32(6), 0x00, 0x00, 0x00, 0x01, (TICKS_PER_QUARTER >> 8) & 0xff, TICKS_PER_QUARTER & 0xff,
+    0x4d, 0x54, 0x72, 0x6b, ...uint32(track.length), ...track,
+  ]);
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Split a length in sixteenths into written note values
+ */
+const splitIntoValues = (length: number): typeof NOTE_VALUES => {
+  const values: typeof NOTE_VALUES = [];
+  let rest = length;
+  while (rest > 0) {
+    const value = NOTE_VALUES.find(candidate => candidate.length <= rest) || NOTE_VALUES[NOTE_VALUES.length - 1];
+    values.push(value);
+    rest -= value.length;
+  }
+  return values;
+};
+
+/**
+ * Write notes as a MusicXML score with one part
+ */
+export const toMusicXml = (notes: TranscribedNote[], options: NotationExportOptions): string => {
+  const bpm = validTempo(options.tempoBpm);
+  const toDivisions = (seconds: number) => Math.round(seconds * (bpm / 60) * DIVISIONS);
+
+  // Quantized notes, trimmed so none overlap
+  const placed: { start: number; length: number; key: number; lyric: string | null }[] = [];
+  for (const note of notes) {
+    const previousEnd = placed.length > 0 ? placed[placed.length - 1].start + placed[placed.length - 1].length : 0;
+    const start = Math.max(toDivisions(note.start), previousEnd);
+    const length = Math.max(toDivisions(note.end), start + 1) - start;
+    placed.push({
+      start,
+      length,
+      key: midiKey(note.midi),
+      lyric: options.tonicHz ? hzToSargamNote(midiToHz(note.midi), options.tonicHz).name : null,
+    });
+  }
+
+  // Low parts read better in the bass clef
+  const keys = placed.map(note => note.key).sort((a, b) => a - b);
+  const bass = keys.length > 0 && keys[Math.floor(keys.length / 2)] < MIDDLE_C;
+
+  const end = placed.length > 0 ? placed[placed.length - 1].start + placed[placed.length - 1].length : 0;
+  const measureCount = Math.max(1, Math.ceil(end / MEASURE_DIVISIONS));
+  const measures: string[][] = Array.from({ length: measureCount }, () => []);
+
+  // Lay a note or rest into the measures, tying it across bar lines
+  const write = (start: number, length: number, key: number | null, lyric: string | null) => {
+    let position = start;
+    let remaining = length;
+    const pieces: { measure: number; value: typeof NOTE_VALUES[number] }[] = [];
+    while (remaining > 0) {
+      const measure = Math.floor(position / MEASURE_DIVISIONS);
+      const inMeasure = Math.min(remaining, (measure + 1) * MEASURE_DIVISIONS - position);
+      for (const value of splitIntoValues(inMeasure)) pieces.push({ measure, value });
+      position += inMeasure;
+      remaining -= inMeasure;
+    }
+
+    pieces.forEach(({ measure, value }, i) => {
+      const lines: string[] = ['<note>'];
+      if (key === null) {
+        lines.push('<rest/>');
+      } else {
+        const { step, alter } = STEPS[key % 12];
+        lines.push(`<pitch><step>${step}</step>${alter ? `<alter>${alter}</alter>` : ''}<octave>${Math.floor(key / 12) - 1}</octave></pitch>`);
+      }
+      lines.push(`<duration>${value.length}</duration>`);
+      const tieStart = key !== null && i < pieces.length - 1;
+      const tieStop = key !== null && i > 0;
+      if (tieStop) lines.push('<tie type="stop"/>');
+      if (tieStart) lines.push('<tie type="start"/>');
+      lines.push(`<type>${value.type}</type>`);
+      if (value.dotted) lines.push('<dot/>');
+      if (tieStart || tieStop) {
+        lines.push(`<notations>${tieStop ? '<tied type="stop"/>' : ''}${tieStart ? '<tied type="start"/>' : ''}</notations>`);
+      }
+      if (lyric && i === 0) lines.push(`<lyric><text>${escapeXml(lyric)}</text></lyric>`);
+      lines.push('</note>');
+      measures[measure].push(lines.join(''));
+    });
+  };
+
+  let cursor = 0;
+  for (const note of placed) {
+    if (note.start > cursor) write(cursor, note.start - cursor, null, null);
+    write(note.start, note.length, note.key, note.lyric);
+    cursor = note.start + note.length;
+  }
+  if (cursor < measureCount * MEASURE_DIVISIONS) {
+    write(cursor, measureCount * MEASURE_DIVISIONS - cursor, null, null);
+  }
+
+  const attributes = [
+    '<attributes>',
+    `<divisions>${DIVISIONS}</divisions>`,
+    '<key><fifths>0</fifths></key>',
+    `<time><beats>${BEATS_PER_MEASURE}</beats><beat-type>4</beat-type></time>`,
+    bass ? '<clef><sign>F</sign><line>4</line></clef>' : '<clef><sign>G</sign><line>2</line></clef>',
+    '</attributes>',
+    '<direction placement="above"><direction-type><metronome>',
+    `<beat-unit>quarter</beat-unit><per-minute>${Math.round(bpm)}</per-minute>`,
+    `</metronome></direction-type><sound tempo="${Math.round(bpm)}"/></direction>`,
+  ].join('');
+
+  const body = measures.map((content, i) => (
+    `    <measure number="${i + 1}">${i === 0 ? attributes : ''}${content.join('')}</measure>`
+  ));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="4.0">',
+    `  <work><work-title>${escapeXml(options.title)}</work-title></work>`,
+    '  <part-list><score-part id="P1"><part-name>Performance</part-name></score-part></part-list>',
+    '  <part id="P1">',
+    ...body,
+    '  </part>',
+    '</score-partwise>',
+    '',
+  ].join('\n');
+};
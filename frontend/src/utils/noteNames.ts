@@ -0,0 +1,81 @@
+// utils/noteNames.ts
+/**
+ * Note naming helpers for display
+ * Sargam names are relative to a tonic (Sa); Western names are absolute,
+ * with A4 = 440 Hz.
+ */
+
+import { hzToSwara, Swara } from './swara';
+
+const WESTERN_NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Combining marks for the octave dots of sargam notation
+const DOT_BELOW = '\u0323';
+const DOT_ABOVE = '\u0307';
+
+/**
+ * Converts a MIDI note number to its frequency in Hz
+ */
+export const midiToHz = (midi: number): number => {
+  return 440 * Math.pow(2, (midi - 69) / 12);
+};
+
+/**
+ * Converts a frequency in Hz to a (fractional) MIDI note number
+ */
+export const hzToMidi = (hz: number): number => {
+  return 69 + 12 * Math.log2(hz / 440);
+};
+
+/**
+ * Names a MIDI note number in Western notation, e.g. 61 -> "C#4"
+ */
+export const midiToWesternName = (midi: number): string => {
+  const rounded = Math.round(midi);
+  return `${WESTERN_NOTE_NAMES[((rounded % 12) + 12) % 12]}${Math.floor(rounded / 12) - 1}`;
+};
+
+/**
+ * Names the nearest Western note to a frequency
+ * @returns The note name and the deviation from it in cents
+ */
+export const hzToWesternNote = (hz: number): { name: string; cents: number } => {
+  const midi = hzToMidi(hz);
+  const rounded = Math.round(midi);
+  return { name: midiToWesternName(rounded), cents: (midi - rounded) * 100 };
+};
+
+/**
+ * Writes a swara with its octave dots: one dot below per octave under the
+ * tonic's (mandra saptak), one dot above per octave over it (taar saptak)
+ */
+export const formatSwara = (swara: Swara, octave = 0): string => {
+  const mark = octave < 0 ? DOT_BELOW : DOT_ABOVE;
+  return swara + mark.repeat(Math.abs(octave));
+};
+
+/**
+ * Spoken names of the swaras, e.g. "komal Re" for r
+ */
+export const SWARA_FULL_NAMES: Record<Swara, string> = {
+  S: 'Sa', r: 'komal Re', R: 'Re', g: 'komal Ga', G: 'Ga', m: 'Ma',
+  M: 'tivra Ma', P: 'Pa', d: 'komal Dha', D: 'Dha', n: 'komal Ni', N: 'Ni',
+};
+
+/**
+ * Names the nearest swara to a frequency relative to the tonic
+ * @returns The dotted sargam name and the deviation from it in cents
+ */
+export const hzToSargamNote = (hz: number, tonicHz: number): { name: string; cents: number } => {
+  const { swara, octave, cents } = hzToSwara(hz, tonicHz);
+  return { name: formatSwara(swara, octave), cents };
+};
+
+/**
+ * Candidate tonics offered for manual selection, A2 to B4
+ * This covers low male voices up to ukulele and high female voices.
+ */
+export const TONIC_CHOICES: { name: string; hz: number }[] = Array.from({ length: 27 }, (_, i) => {
+  const midi = 45 + i;
+  return { name: midiToWesternName(midi), hz: Math.round(midiToHz(midi) * 100) / 100 };
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { detectOrnaments } from './ornaments';
+import { PitchFrame } from './audioUtils';
+import { hzToSargamNote } from './noteNames';
+
+const TONIC_HZ = 261.63;
+const FRAME_SECONDS = 0.01;
+
+/**
+ * A pitch track at the analysis hop, from a contour in cents above the tonic (null for silence)
+ */
+const track = (seconds: number, cents: (time: number) => number | null): PitchFrame[] =>
+  Array.from({ length: Math.round(seconds / FRAME_SECONDS) }, (_, i) => {
+    const time = Math.round(i * FRAME_SECONDS * 1000) / 1000;
+    const value = cents(time);
+    return { time, f0: value === null ? 0 : TONIC_HZ * 2 ** (value / 1200), clarity: value === null ? 0 : 0.9 };
+  });
+
+const swaraName = (cents: number) => hzToSargamNote(TONIC_HZ * 2 ** (cents / 1200), TONIC_HZ).name;
+
+// A held Pa with a sine wobble of the given rate and extent either way
+const wobble = (rateHz: number, extentCents: number) =>
+  track(1.5, time => (time < 0.25 || time > 1.25 ? 700 : 700 + extentCents * Math.sin(2 * Math.PI * rateHz * (time - 0.25))));
+
+describe('detectOrnaments', () => {
+  it('finds nothing on a steady note', () => {
+    const result = detectOrnaments(track(1, () => 400), TONIC_HZ);
+    expect(result.events).toEqual([]);
+    expect(result.counts).toEqual({ vibrato: 0, gamak: 0, meend: 0, kan: 0 });
+    expect(result.vibrato).toBeNull();
+  });
+
+  it('counts a 6 Hz wobble of ±30 cents as vibrato', () => {
+    const result = detectOrnaments(wobble(6, 30), TONIC_HZ);
+    expect(result.counts).toMatchObject({ vibrato: 1, gamak: 0 });
+    const [event] = result.events;
+    expect(event).toMatchObject({ kind: 'vibrato', label: swaraName(700) });
+    expect(event.rateHz).toBeGreaterThan(5.5);
+    expect(event.rateHz).toBeLessThan(6.5);
+    expect(event.extentCents).toBeGreaterThan(20);
+    expect(event.extentCents).toBeLessThanOrEqual(30);
+    expect(result.vibrato).toEqual({ rateHz: event.rateHz, extentCents: event.extentCents });
+  });
+
+  it('counts a swing of ±120 cents as gamak', () => {
+    const result = detectOrnaments(wobble(4, 120), TONIC_HZ);
+    expect(result.counts).toMatchObject({ vibrato: 0, gamak: 1 });
+    expect(result.events[0].extentCents).toBeGreaterThanOrEqual(75);
+    expect(result.vibrato).toBeNull();
+  });
+
+  it('ignores wobbles too small or too slow to be ornaments', () => {
+    expect(detectOrnaments(wobble(6, 5), TONIC_HZ).events).toEqual([]);
+    expect(detectOrnaments(wobble(1, 30), TONIC_HZ).counts.vibrato).toBe(0);
+  });
+
+  it('counts a 200 ms glide between swaras as meend', () => {
+    // Sa held, a glide up to Ga, Ga held
+    const glide = track(1, time => (time < 0.3 ? 0 : time < 0.5 ? ((time - 0.3) / 0.2) * 400 : 400));
+    const result = detectOrnaments(glide, TONIC_HZ);
+    expect(result.counts).toMatchObject({ meend: 1, kan: 0 });
+    const [event] = result.events;
+    expect(event).toMatchObject({ kind: 'meend', extentCents: 400, label: `${swaraName(0)} → ${swaraName(400)}` });
+    expect(event.start).toBeGreaterThanOrEqual(0.25);
+    expect(event.end).toBeLessThanOrEqual(0.55);
+  });
+
+  it('does not count a jump between notes as meend', () => {
+    const jump = track(1, time => (time < 0.5 ? 0 : 400));
+    expect(detectOrnaments(jump, TONIC_HZ).counts.meend).toBe(0);
+  });
+
+  it('counts a 60 ms touch before a held note as kan', () => {
+    // Silence, a brief Re, then a held Sa
+    const grace = track(1, time => (time < 0.2 ? null : time < 0.26 ? 200 : 0));
+    const result = detectOrnaments(grace, TONIC_HZ);
+    expect(result.counts).toMatchObject({ kan: 1, meend: 0 });
+    expect(result.events[0]).toMatchObject({
+      kind: 'kan',
+      start: 0.2,
+      extentCents: 200,
+      label: `${swaraName(200)} → ${swaraName(0)}`,
+    });
+  });
+
+  it('does not count a grace note that is held too long, or one before a short note', () => {
+    const long = track(1, time => (time < 0.2 ? null : time < 0.45 ? 200 : 0));
+    const shortMain = track(1, time => (time < 0.2 ? null : time < 0.26 ? 200 : time < 0.36 ? 0 : null));
+    expect(detectOrnaments(long, TONIC_HZ).counts.kan).toBe(0);
+    expect(detectOrnaments(shortMain, TONIC_HZ).counts.kan).toBe(0);
+  });
+
+  it('names notes in western notation without a tonic', () => {
+    const result = detectOrnaments(wobble(6, 30));
+    expect(result.events[0].kind).toBe('vibrato');
+    expect(result.events[0].label).not.toBe(swaraName(700));
+  });
+});
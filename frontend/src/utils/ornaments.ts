@@ -0,0 +1,301 @@
+// utils/ornaments.ts
+/**
+ * Ornament detection on the pitch contour
+ * Four ornaments are told apart by the shape of the contour:
+ * - vibrato: a regular oscillation of a held note, less than a semitone either way
+ * - gamak: a heavy oscillation that swings across neighbouring swaras
+ * - meend: a continuous glide from one swara to another
+ * - kan swar: a grace note touched briefly just before the main note
+ * Oscillations are found first, then glides outside them, then grace notes
+ * outside both, so the swings of a gamak aren't also counted as kan swars.
+ * Notes are named relative to the tonic when it's known.
+ */
+
+import { PitchFrame } from './audioUtils';
+import { hzToCents, centsToHz } from './swara';
+import { hzToSargamNote, hzToWesternNote } from './noteNames';
+
+export type OrnamentKind = 'vibrato' | 'meend' | 'gamak' | 'kan';
+
+/**
+ * One ornament found in a take
+ */
+export interface Ornament {
+  kind: OrnamentKind;
+  start: number;       // seconds
+  end: number;         // seconds
+  rateHz: number;      // oscillations per second; 0 for meend and kan
+  extentCents: number; // vibrato and gamak: half the peak-to-peak swing; meend: the glide; kan: grace note above (+) or below the main note
+  label: string;       // the note it ornaments, or e.g. "R → G" for a meend or kan
+}
+
+export interface OrnamentAnalysis {
+  events: Ornament[]; // in time order
+  counts: Record<OrnamentKind, number>;
+  vibrato: { rateHz: number; extentCents: number } | null; // averaged over the vibrato, weighted by length; null when there was none
+}
+
+export const ORNAMENT_KINDS: OrnamentKind[] = ['vibrato', 'gamak', 'meend', 'kan'];
+
+export const ORNAMENT_LABELS: Record<OrnamentKind, string> = {
+  vibrato: 'Vibrato',
+  gamak: 'Gamak',
+  meend: 'Meend',
+  kan: 'Kan swar',
+};
+
+// Unvoiced gaps shorter than this don't break the contour, in seconds
+const MAX_GAP_SECONDS = 0.05;
+
+// Frames of median smoothing, enough to remove single-frame tracking errors
+const SMOOTHING_FRAMES = 3;
+
+// Smallest reversal that counts as a turn of the contour, in cents
+const MIN_SWING_CENTS = 20;
+
+// Oscillation rates accepted for vibrato and gamak, in Hz
+const MIN_RATE_HZ = 2.5;
+const MAX_RATE_HZ = 10;
+
+// Half-cycles an oscillation needs to count: one and a half cycles
+const MIN_HALF_CYCLES = 3;
+
+// Oscillations swinging further than this either way are gamak rather than vibrato, in cents
+const GAMAK_EXTENT_CENTS = 75;
+
+// The pitch is gliding where it moves at least this fast, measured across this many frames either side
+const MIN_GLIDE_CENTS_PER_SECOND = 200;
+const SLOPE_SPAN_FRAMES = 3;
+
+// A meend has to cover this much and take this long
+const MIN_MEEND_CENTS = 80;
+const MIN_MEEND_SECONDS = 0.08;
+
+// Largest frame-to-frame step inside a glide; bigger ones are jumps between notes, in cents
+const MAX_GLIDE_STEP_CENTS = 40;
+
+// A kan swar is this short, this far from the main note, and the main note at least this long
+const MIN_KAN_SECONDS = 0.03;
+const MAX_KAN_SECONDS = 0.15;
+const MIN_KAN_CENTS = 70;
+const MIN_MAIN_NOTE_SECONDS = 0.2;
+
+interface ContourPoint {
+  time: number;
+  cents: number; // from the tonic, or from A440 without one
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Split a pitch track into voiced stretches in cents, bridging short gaps and smoothing
+ */
+const contourRegions = (track: PitchFrame[], referenceHz: number, frameSeconds: number): ContourPoint[][] => {
+  const regions: ContourPoint[][] = [];
+  let current: ContourPoint[] = [];
+  for (const frame of track) {
+    if (frame.f0 <= 0) continue;
+    const last = current[current.length - 1];
+    if (last && frame.time - last.time > MAX_GAP_SECONDS + frameSeconds) {
+      regions.push(current);
+      current = [];
+    }
+    current.push({ time: frame.time, cents: hzToCents(frame.f0, referenceHz) });
+  }
+  if (current.length > 0) regions.push(current);
+
+  const half = Math.floor(SMOOTHING_FRAMES / 2);
+  return regions.map(region => region.map((point, i) => ({
+    time: point.time,
+    cents: median(region.slice(Math.max(0, i - half), i + half + 1).map(p => p.cents)),
+  })));
+};
+
+/**
+ * Indices where the contour turns back by at least MIN_SWING_CENTS
+ */
+const findTurns = (region: ContourPoint[]): number[] => {
+  const turns: number[] = [];
+  let direction = 0; // 1 rising, -1 falling, 0 not yet known
+  let low = 0;
+  let high = 0;
+  let extreme = 0;
+
+  region.forEach((point, i) => {
+    if (direction === 0) {
+      if (point.cents < region[low].cents) low = i;
+      if (point.cents > region[high].cents) high = i;
+      if (point.cents - region[low].cents >= MIN_SWING_CENTS) {
+        turns.push(low);
+        direction = 1;
+        extreme = i;
+      } else if (region[high].cents - point.cents >= MIN_SWING_CENTS) {
+        turns.push(high);
+        direction = -1;
+        extreme = i;
+      }
+    } else if ((point.cents - region[extreme].cents) * direction > 0) {
+      extreme = i;
+    } else if ((region[extreme].cents - point.cents) * direction >= MIN_SWING_CENTS) {
+      turns.push(extreme);
+      direction = -direction;
+      extreme = i;
+    }
+  });
+  return turns;
+};
+
+/**
+ * Find vibrato, gamak, meend and kan swar in a pitch track
+ * @param tonicHz The performer's Sa, for naming notes; A440 equal temperament when omitted
+ */
+export const detectOrnaments = (track: PitchFrame[], tonicHz?: number): OrnamentAnalysis => {
+  const frameSeconds = track.length > 1 ? track[1].time - track[0].time : 0.01;
+  const referenceHz = tonicHz ?? 440;
+  const noteName = (cents: number) => {
+    const hz = centsToHz(cents, referenceHz);
+    return tonicHz ? hzToSargamNote(hz, tonicHz).name : hzToWesternNote(hz).name;
+  };
+
+  const events: Ornament[] = [];
+  const overlaps = (start: number, end: number) =>
+    events.some(event => start < event.end && end > event.start);
+
+  for (const region of contourRegions(track, referenceHz, frameSeconds)) {
+    const turns = findTurns(region);
+    const regular = (a: number, b: number) => {
+      const halfPeriod = region[b].time - region[a].time;
+      return halfPeriod >= 1 / (2 * MAX_RATE_HZ) && halfPeriod <= 1 / (2 * MIN_RATE_HZ);
+    };
+
+    // Oscillations: runs of turns at a steady rate
+    let first = 0;
+    for (let k = 1; k <= turns.length; k++) {
+      if (k < turns.length && regular(turns[k - 1], turns[k])) continue;
+
+      const run = turns.slice(first, k);
+      first = k;
+      if (run.length - 1 < MIN_HALF_CYCLES) continue;
+
+      const start = region[run[0]].time;
+      const end = region[run[run.length - 1]].time;
+      const swings = run.slice(1).map((turn, i) => Math.abs(region[turn].cents - region[run[i]].cents));
+      const extent = swings.reduce((acc, swing) => acc + swing, 0) / swings.length / 2;
+      const centre = region.slice(run[0], run[run.length - 1] + 1).reduce((acc, point) => acc + point.cents, 0) /
+        (run[run.length - 1] - run[0] + 1);
+      events.push({
+        kind: extent >= GAMAK_EXTENT_CENTS ? 'gamak' : 'vibrato',
+        start: round(start, 2),
+        end: round(end, 2),
+        rateHz: round((run.length - 1) / (2 * (end - start)), 1),
+        extentCents: Math.round(extent),
+        label: noteName(centre),
+      });
+    }
+
+    // Meend: stretches where the pitch keeps moving one way, without jumps
+    const moving = region.map((point, i) => {
+      const before = region[i - SLOPE_SPAN_FRAMES];
+      const after = region[i + SLOPE_SPAN_FRAMES];
+      if (!before || !after || after.time - before.time > (2 * SLOPE_SPAN_FRAMES + 0.5) * frameSeconds) return 0;
+      if (overlaps(point.time, point.time + frameSeconds)) return 0;
+      const slope = (after.cents - before.cents) / (after.time - before.time);
+      return Math.abs(slope) >= MIN_GLIDE_CENTS_PER_SECOND ? Math.sign(slope) : 0;
+    });
+    const glides: { s: number; e: number }[] = [];
+    moving.forEach((direction, i) => {
+      if (direction === 0) return;
+      const last = glides[glides.length - 1];
+      if (last && last.e === i - 1 && moving[last.s] === direction) {
+        last.e = i;
+      } else {
+        glides.push({ s: i, e: i });
+      }
+    });
+
+    for (const { s, e } of glides) {
+      const span = region[e].cents - region[s].cents;
+      const start = region[s].time;
+      const end = region[e].time;
+      const steady = region.slice(s + 1, e + 1).every((point, j) => Math.abs(point.cents - region[s + j].cents) <= MAX_GLIDE_STEP_CENTS);
+      if (
+        Math.abs(span) < MIN_MEEND_CENTS || end - start < MIN_MEEND_SECONDS || !steady ||
+        Math.round(region[s].cents / 100) === Math.round(region[e].cents / 100)
+      ) continue;
+
+      events.push({
+        kind: 'meend',
+        start: round(start, 2),
+        end: round(end, 2),
+        rateHz: 0,
+        extentCents: Math.round(span),
+        label: `${noteName(region[s].cents)} → ${noteName(region[e].cents)}`,
+      });
+    }
+
+    // Kan swar: a brief, isolated note right before a held one
+    const runs: { start: number; end: number; cents: number }[] = [];
+    let runStart = 0;
+    region.forEach((point, i) => {
+      const next = region[i + 1];
+      const continues = next &&
+        Math.round(next.cents / 100) === Math.round(point.cents / 100) &&
+        next.time - point.time <= 1.5 * frameSeconds;
+      if (continues) return;
+      runs.push({
+        start: region[runStart].time,
+        end: point.time + frameSeconds,
+        cents: median(region.slice(runStart, i + 1).map(p => p.cents)),
+      });
+      runStart = i + 1;
+    });
+
+    runs.forEach((run, i) => {
+      const main = runs[i + 1];
+      const before = runs[i - 1];
+      if (!main || main.start - run.end > frameSeconds / 2) return;
+
+      const length = run.end - run.start;
+      const isolated = !before || run.start - before.end > frameSeconds / 2 || before.end - before.start > MAX_KAN_SECONDS;
+      if (
+        length < MIN_KAN_SECONDS || length > MAX_KAN_SECONDS || !isolated ||
+        main.end - main.start < MIN_MAIN_NOTE_SECONDS ||
+        Math.abs(run.cents - main.cents) < MIN_KAN_CENTS ||
+        overlaps(run.start, run.end)
+      ) return;
+
+      events.push({
+        kind: 'kan',
+        start: round(run.start, 2),
+        end: round(run.end, 2),
+        rateHz: 0,
+        extentCents: Math.round(run.cents - main.cents),
+        label: `${noteName(run.cents)} → ${noteName(main.cents)}`,
+      });
+    });
+  }
+
+  events.sort((a, b) => a.start - b.start);
+
+  const counts = Object.fromEntries(
+    ORNAMENT_KINDS.map(kind => [kind, events.filter(event => event.kind === kind).length])
+  ) as Record<OrnamentKind, number>;
+
+  const vibratos = events.filter(event => event.kind === 'vibrato');
+  const vibratoSeconds = vibratos.reduce((acc, event) => acc + (event.end - event.start), 0);
+  const weighted = (value: (event: Ornament) => number) =>
+    vibratos.reduce((acc, event) => acc + value(event) * (event.end - event.start), 0) / vibratoSeconds;
+
+  return {
+    events,
+    counts,
+    vibrato: vibratoSeconds > 0
+      ? { rateHz: round(weighted(event => event.rateHz), 1), extentCents: Math.round(weighted(event => event.extentCents)) }
+      : null,
+  };
+};
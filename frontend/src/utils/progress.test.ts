@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { collectProgressEntries } from './progress';
+import { Recording, StoredAnalysis } from './storage';
+import { AudioAnalysisResult } from './emotionDetector';
+
+const analysis = (analyzedAt: string): StoredAnalysis => ({
+  result: { raga: null } as unknown as AudioAnalysisResult,
+  analyzedAt,
+  analyzerVersion: 1,
+  provider: 'local',
+});
+
+const recording = (id: string, fields: Partial<Recording>): Recording => ({
+  id,
+  name: id,
+  date: '',
+  analysisResults: analysis('2026-05-01T12:00:00.000Z'),
+  ...fields,
+});
+
+describe('collectProgressEntries', () => {
+  it('dates recordings by recordedAt whatever the display date says', () => {
+    const [entry] = collectProgressEntries([
+      recording('a', { date: '03/04/2026, 10:00:00', recordedAt: '2026-04-03T10:00:00.000Z' }),
+    ]);
+    expect(entry.date.toISOString()).toBe('2026-04-03T10:00:00.000Z');
+  });
+
+  it('falls back to the display date, then the analysis time, for older recordings', () => {
+    const entries = collectProgressEntries([
+      recording('unparsable', { date: '19/10/2026, 10:00:00' }),
+      recording('parsable', { date: '2026-01-02T00:00:00.000Z' }),
+    ]);
+    expect(entries.map(entry => [entry.recordingId, entry.date.toISOString()])).toEqual([
+      ['parsable', '2026-01-02T00:00:00.000Z'],
+      ['unparsable', '2026-05-01T12:00:00.000Z'],
+    ]);
+  });
+
+  it('skips recordings without an analysis', () => {
+    expect(collectProgressEntries([recording('a', { analysisResults: undefined, recordedAt: '2026-01-01T00:00:00Z' })])).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+// utils/progress.ts
+/**
+ * Trends across a student's analyzed recordings
+ * Saved analyses are grouped by the day the take was recorded, averaged per
+ * day, and scanned for personal bests and for sessions that fell back.
+ */
+
+import { AudioAnalysisResult } from './emotionDetector';
+import { Recording } from './storage';
+
+export type ProgressMetricId = 'accuracy' | 'stability' | 'pitchVariance' | 'dynamicRange';
+
+export interface ProgressMetric {
+  id: ProgressMetricId;
+  label: string;
+  unit: string;
+  higherIsBetter: boolean;
+  // Drops smaller than this between sessions are treated as noise, not regressions
+  regressionThreshold: number;
+  relativeThreshold: boolean; // threshold is a fraction of the previous value rather than an absolute amount
+  value: (result: AudioAnalysisResult) => number | null; // null when the analysis didn't measure it
+}
+
+export const PROGRESS_METRICS: ProgressMetric[] = [
+  {
+    id: 'accuracy',
+    label: 'Note accuracy',
+    unit: '%',
+    higherIsBetter: true,
+    regressionThreshold: 10,
+    relativeThreshold: false,
+    value: result => (result.notes.totalNotes > 0 ? result.notes.accuracyPercentage : null),
+  },
+  {
+    id: 'stability',
+    label: 'Tempo stability',
+    unit: '/100',
+    higherIsBetter: true,
+    regressionThreshold: 10,
+    relativeThreshold: false,
+    value: result => result.timing?.stability ?? null,
+  },
+  {
+    id: 'pitchVariance',
+    label: 'Pitch variance',
+    unit: 'Hz²',
+    higherIsBetter: false, // a steadier voice wanders less around its notes
+    regressionThreshold: 0.25,
+    relativeThreshold: true,
+    value: result => (result.pitch.average > 0 ? result.pitch.variance : null),
+  },
+  {
+    id: 'dynamicRange',
+    label: 'Dynamic range',
+    unit: 'dB',
+    higherIsBetter: true,
+    regressionThreshold: 6,
+    relativeThreshold: false,
+    value: result => (result.dynamics ? result.dynamics.range.max - result.dynamics.range.min : null),
+  },
+];
+
+/**
+ * One analyzed recording, with the fields progress can be filtered on
+ */
+export interface ProgressEntry {
+  recordingId: string;
+  name: string;
+  date: Date;          // when the take was recorded
+  piece: string | null;
+  raga: string | null; // best raga match of the analysis
+  tags: string[];
+  result: AudioAnalysisResult;
+}
+
+export interface ProgressFilter {
+  piece?: string;
+  raga?: string;
+  tag?: string;
+}
+
+/**
+ * One day's value of a metric
+ */
+export interface ProgressPoint {
+  day: string;          // local date, YYYY-MM-DD
+  date: Date;           // start of that day
+  value: number;        // mean over the day's recordings
+  recordingIds: string[];
+  isPersonalBest: boolean; // best value so far at this point
+  isRegression: boolean;   // clearly worse than the day before
+}
+
+export interface MetricTrend {
+  metric: ProgressMetric;
+  points: ProgressPoint[]; // oldest first
+  best: ProgressPoint | null;
+  latest: ProgressPoint | null;
+  change: number | null;   // latest minus the point before it
+}
+
+/**
+ * Read the date a recording was made
+ * Recordings carry an ISO recordedAt timestamp. Ones saved before it existed
+ * only have the locale-formatted display date, which reads day and month the
+ * wrong way round in some locales and doesn't parse at all in others; the
+ * analysis time stands in when it doesn't parse.
+ */
+const recordingDate = (recording: Recording): Date | null => {
+  if (recording.recordedAt) return new Date(recording.recordedAt);
+
+  const recorded = new Date(recording.date);
+  if (!isNaN(recorded.getTime())) return recorded;
+
+  const analyzedAt = recording.analysisResults?.analyzedAt;
+  return analyzedAt ? new Date(analyzedAt) : null;
+};
+
+const dayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Collect the latest saved analysis of each recording
+ */
+export const collectProgressEntries = (recordings: Recording[]): ProgressEntry[] => {
+  const entries: ProgressEntry[] = [];
+
+  for (const recording of recordings) {
+    const stored = recording.analysisResults;
+    const date = recordingDate(recording);
+    if (!stored || !date) continue;
+
+    entries.push({
+      recordingId: recording.id,
+      name: recording.name,
+      date,
+      piece: recording.piece?.trim() || null,
+      raga: stored.result.raga?.matches[0]?.name ?? null,
+      tags: recording.tags || [],
+      result: stored.result,
+    });
+  }
+
+  return entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/**
+ * Keep the entries matching every set filter
+ */
+export const filterProgressEntries = (entries: ProgressEntry[], filter: ProgressFilter): ProgressEntry[] => {
+  return entries.filter(entry =>
+    (!filter.piece || entry.piece === filter.piece) &&
+    (!filter.raga || entry.raga === filter.raga) &&
+    (!filter.tag || entry.tags.includes(filter.tag))
+  );
+};
+
+/**
+ * Values available for each filter, sorted
+ */
+export const getProgressFilterOptions = (entries: ProgressEntry[]) => {
+  const unique = (values: (string | null)[]) =>
+    Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b));
+
+  return {
+    pieces: unique(entries.map(entry => entry.piece)),
+    ragas: unique(entries.map(entry => entry.raga)),
+    tags: unique(entries.flatMap(entry => entry.tags)),
+  };
+};
+
+/**
+ * Build the day-by-day trend of one metric
+ */
+export const computeMetricTrend = (entries: ProgressEntry[], metric: ProgressMetric): MetricTrend => {
+  // Group by day; entries are already in date order
+  const days = new Map<string, { date: Date; values: number[]; recordingIds: string[] }>();
+  for (const entry of entries) {
+    const value = metric.value(entry.result);
+    if (value === null || !isFinite(value)) continue;
+
+    const key = dayKey(entry.date);
+    let day = days.get(key);
+    if (!day) {
+      day = {
+        date: new Date(entry.date.getFullYear(), entry.date.getMonth(), entry.date.getDate()),
+        values: [],
+        recordingIds: [],
+      };
+      days.set(key, day);
+    }
+    day.values.push(value);
+    day.recordingIds.push(entry.recordingId);
+  }
+
+  const isBetter = (a: number, b: number) => (metric.higherIsBetter ? a > b : a < b);
+
+  const points: ProgressPoint[] = [];
+  let bestSoFar: number | null = null;
+  for (const [key, day] of days) {
+    const value = day.values.reduce((sum, v) => sum + v, 0) / day.values.length;
+    const previous = points.length > 0 ? points[points.length - 1].value : null;
+
+    let isRegression = false;
+    if (previous !== null) {
+      const threshold = metric.relativeThreshold
+        ? Math.abs(previous) * metric.regressionThreshold
+        : metric.regressionThreshold;
+      const drop = metric.higherIsBetter ? previous - value : value - previous;
+      isRegression = drop > threshold;
+    }
+
+    // The first session sets the bar rather than beating it
+    const isPersonalBest = bestSoFar !== null && isBetter(value, bestSoFar);
+    if (bestSoFar === null || isBetter(value, bestSoFar)) {
+      bestSoFar = value;
+    }
+
+    points.push({
+      day: key,
+      date: day.date,
+      value: Math.round(value * 10) / 10,
+      recordingIds: day.recordingIds,
+      isPersonalBest,
+      isRegression,
+    });
+  }
+
+  const best = points.reduce<ProgressPoint | null>(
+    (found, point) => (!found || isBetter(point.value, found.value) ? point : found),
+    null
+  );
+  const latest = points.length > 0 ? points[points.length - 1] : null;
+  const change = points.length > 1
+    ? Math.round((points[points.length - 1].value - points[points.length - 2].value) * 10) / 10
+    : null;
+
+  return { metric, points, best, latest, change };
+};
@@ -0,0 +1,194 @@
+// utils/ragaDefinitions.ts
+/**
+ * Bundled definitions of common Hindustani ragas used by the raga recognizer
+ * Swaras use the notation from swara.ts (S r R g G m M P d D n N). Aarohana
+ * and avarohana are listed within one octave, ending back on Sa. Rasas are
+ * the moods each raga is traditionally performed for, weighted 0-1.
+ */
+
+import { Swara } from './swara';
+import type { Rasa } from './rasa';
+
+export interface RagaDefinition {
+  name: string;
+  thaat: string;
+  aarohana: Swara[];  // ascending line
+  avarohana: Swara[]; // descending line
+  vadi: Swara;        // most important swara
+  samvadi: Swara;     // second most important swara
+  pakad: Swara[][];   // characteristic phrases
+  rasas: Partial<Record<Rasa, number>>; // how strongly the raga evokes each rasa; 0 when left out
+}
+
+export const RAGA_DEFINITIONS: RagaDefinition[] = [
+  {
+    name: 'Yaman',
+    thaat: 'Kalyan',
+    aarohana: ['N', 'R', 'G', 'M', 'D', 'N', 'S'],
+    avarohana: ['S', 'N', 'D', 'P', 'M', 'G', 'R', 'S'],
+    vadi: 'G',
+    samvadi: 'N',
+    pakad: [['N', 'R', 'G', 'R', 'S'], ['P', 'M', 'G', 'R', 'S']],
+    rasas: { shringara: 0.8, shanta: 0.7, adbhuta: 0.3 },
+  },
+  {
+    name: 'Bhupali',
+    thaat: 'Kalyan',
+    aarohana: ['S', 'R', 'G', 'P', 'D', 'S'],
+    avarohana: ['S', 'D', 'P', 'G', 'R', 'S'],
+    vadi: 'G',
+    samvadi: 'D',
+    pakad: [['G', 'R', 'S', 'D'], ['G', 'R', 'P', 'G'], ['D', 'P', 'G', 'R', 'S']],
+    rasas: { shanta: 0.7, shringara: 0.6, veera: 0.3, adbhuta: 0.3 },
+  },
+  {
+    name: 'Hamsadhwani',
+    thaat: 'Bilawal',
+    aarohana: ['S', 'R', 'G', 'P', 'N', 'S'],
+    avarohana: ['S', 'N', 'P', 'G', 'R', 'S'],
+    vadi: 'S',
+    samvadi: 'P',
+    pakad: [['N', 'P', 'G', 'R'], ['G', 'P', 'N', 'S']],
+    rasas: { veera: 0.6, shringara: 0.5, adbhuta: 0.4, hasya: 0.4 },
+  },
+  {
+    name: 'Bilawal',
+    thaat: 'Bilawal',
+    aarohana: ['S', 'R', 'G', 'm', 'P', 'D', 'N', 'S'],
+    avarohana: ['S', 'N', 'D', 'P', 'm', 'G', 'R', 'S'],
+    vadi: 'D',
+    samvadi: 'G',
+    pakad: [['G', 'R', 'G', 'P', 'D', 'N', 'S']],
+    rasas: { shanta: 0.5, shringara: 0.5, hasya: 0.4, veera: 0.3 },
+  },
+  {
+    name: 'Durga',
+    thaat: 'Bilawal',
+    aarohana: ['S', 'R', 'm', 'P', 'D', 'S'],
+    avarohana: ['S', 'D', 'P', 'm', 'R', 'S'],
+    vadi: 'm',
+    samvadi: 'S',
+    pakad: [['m', 'P', 'D', 'm', 'R'], ['R', 'm', 'P', 'D', 'S']],
+    rasas: { veera: 0.6, shringara: 0.5, shanta: 0.4 },
+  },
+  {
+    name: 'Desh',
+    thaat: 'Khamaj',
+    aarohana: ['S', 'R', 'm', 'P', 'N', 'S'],
+    avarohana: ['S', 'n', 'D', 'P', 'm', 'G', 'R', 'S'],
+    vadi: 'R',
+    samvadi: 'P',
+    pakad: [['R', 'm', 'P', 'N', 'S'], ['n', 'D', 'P', 'm', 'G', 'R']],
+    rasas: { shringara: 0.8, karuna: 0.3, shanta: 0.3 },
+  },
+  {
+    name: 'Khamaj',
+    thaat: 'Khamaj',
+    aarohana: ['S', 'G', 'm', 'P', 'D', 'N', 'S'],
+    avarohana: ['S', 'n', 'D', 'P', 'm', 'G', 'R', 'S'],
+    vadi: 'G',
+    samvadi: 'n',
+    pakad: [['n', 'D', 'm', 'P', 'D', 'm', 'G']],
+    rasas: { shringara: 0.9, hasya: 0.4 },
+  },
+  {
+    name: 'Kafi',
+    thaat: 'Kafi',
+    aarohana: ['S', 'R', 'g', 'm', 'P', 'D', 'n', 'S'],
+    avarohana: ['S', 'n', 'D', 'P', 'm', 'g', 'R', 'S'],
+    vadi: 'P',
+    samvadi: 'S',
+    pakad: [['S', 'R', 'g', 'm', 'P'], ['m', 'g', 'R', 'S']],
+    rasas: { shringara: 0.7, hasya: 0.4, karuna: 0.3 },
+  },
+  {
+    name: 'Bageshri',
+    thaat: 'Kafi',
+    aarohana: ['S', 'g', 'm', 'D', 'n', 'S'],
+    avarohana: ['S', 'n', 'D', 'm', 'P', 'D', 'g', 'm', 'g', 'R', 'S'],
+    vadi: 'm',
+    samvadi: 'S',
+    pakad: [['n', 'D', 'S', 'm'], ['m', 'g', 'R', 'S']],
+    rasas: { shringara: 0.7, karuna: 0.6 },
+  },
+  {
+    name: 'Darbari Kanada',
+    thaat: 'Asavari',
+    aarohana: ['S', 'R', 'g', 'm', 'P', 'd', 'n', 'S'],
+    avarohana: ['S', 'd', 'n', 'P', 'm', 'P', 'g', 'm', 'R', 'S'],
+    vadi: 'R',
+    samvadi: 'P',
+    pakad: [['g', 'm', 'R', 'S'], ['d', 'n', 'P']],
+    rasas: { karuna: 0.6, veera: 0.5, shanta: 0.5, bhayanaka: 0.2 },
+  },
+  {
+    name: 'Asavari',
+    thaat: 'Asavari',
+    aarohana: ['S', 'R', 'm', 'P', 'd', 'S'],
+    avarohana: ['S', 'n', 'd', 'P', 'm', 'g', 'R', 'S'],
+    vadi: 'd',
+    samvadi: 'g',
+    pakad: [['R', 'm', 'P', 'n', 'd', 'P']],
+    rasas: { karuna: 0.8, shanta: 0.3 },
+  },
+  {
+    name: 'Malkauns',
+    thaat: 'Bhairavi',
+    aarohana: ['S', 'g', 'm', 'd', 'n', 'S'],
+    avarohana: ['S', 'n', 'd', 'm', 'g', 'S'],
+    vadi: 'm',
+    samvadi: 'S',
+    pakad: [['m', 'g', 'm', 'd', 'n', 'd', 'm'], ['g', 'm', 'g', 'S']],
+    rasas: { veera: 0.6, shanta: 0.6, bhayanaka: 0.3, adbhuta: 0.3 },
+  },
+  {
+    name: 'Bhairavi',
+    thaat: 'Bhairavi',
+    aarohana: ['S', 'r', 'g', 'm', 'P', 'd', 'n', 'S'],
+    avarohana: ['S', 'n', 'd', 'P', 'm', 'g', 'r', 'S'],
+    vadi: 'm',
+    samvadi: 'S',
+    pakad: [['g', 'm', 'd', 'P'], ['g', 'm', 'g', 'r', 'S']],
+    rasas: { karuna: 0.7, shringara: 0.5, shanta: 0.5 },
+  },
+  {
+    name: 'Bhairav',
+    thaat: 'Bhairav',
+    aarohana: ['S', 'r', 'G', 'm', 'P', 'd', 'N', 'S'],
+    avarohana: ['S', 'N', 'd', 'P', 'm', 'G', 'r', 'S'],
+    vadi: 'd',
+    samvadi: 'r',
+    pakad: [['G', 'm', 'd', 'P'], ['G', 'm', 'r', 'S']],
+    rasas: { shanta: 0.7, karuna: 0.5, raudra: 0.2, bhayanaka: 0.2 },
+  },
+  {
+    name: 'Todi',
+    thaat: 'Todi',
+    aarohana: ['S', 'r', 'g', 'M', 'P', 'd', 'N', 'S'],
+    avarohana: ['S', 'N', 'd', 'P', 'M', 'g', 'r', 'S'],
+    vadi: 'd',
+    samvadi: 'g',
+    pakad: [['d', 'N', 'S', 'r', 'g', 'r', 'S']],
+    rasas: { karuna: 0.8, shringara: 0.3 },
+  },
+  {
+    name: 'Marwa',
+    thaat: 'Marwa',
+    aarohana: ['S', 'r', 'G', 'M', 'D', 'N', 'S'],
+    avarohana: ['S', 'N', 'D', 'M', 'G', 'r', 'S'],
+    vadi: 'r',
+    samvadi: 'D',
+    pakad: [['D', 'M', 'G', 'r'], ['N', 'r', 'S']],
+    rasas: { karuna: 0.5, bhayanaka: 0.4, adbhuta: 0.4, raudra: 0.2 },
+  },
+  {
+    name: 'Purvi',
+    thaat: 'Purvi',
+    aarohana: ['S', 'r', 'G', 'M', 'P', 'd', 'N', 'S'],
+    avarohana: ['S', 'N', 'd', 'P', 'M', 'G', 'm', 'G', 'r', 'S'],
+    vadi: 'G',
+    samvadi: 'N',
+    pakad: [['N', 'r', 'G', 'M', 'P'], ['M', 'G', 'm', 'G']],
+    rasas: { karuna: 0.6, shanta: 0.5, bhayanaka: 0.2 },
+  },
+];
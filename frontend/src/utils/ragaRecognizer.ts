@@ -0,0 +1,187 @@
+// utils/ragaRecognizer.ts
+/**
+ * Raga identification from a pitch track
+ * The tonic is estimated (or supplied), a swara histogram is built relative
+ * to it and every raga in RAGA_DEFINITIONS is scored on three things:
+ * - how well the histogram matches the raga's swaras, vadi and samvadi
+ * - whether ascending and descending movements follow its aarohana/avarohana
+ * - how much of its pakad (characteristic phrases) appears in the performance
+ */
+
+import { PitchFrame } from './audioUtils';
+import { RAGA_DEFINITIONS, RagaDefinition } from './ragaDefinitions';
+import {
+  SWARAS,
+  Swara,
+  SwaraNote,
+  TonicEstimate,
+  estimateTonic,
+  buildPitchClassHistogram,
+  extractSwaraSequence,
+} from './swara';
+
+export interface RagaMatch {
+  name: string;
+  thaat: string;
+  score: number;          // 0-100, weighted combination of the parts below
+  histogramScore: number; // 0-1
+  movementScore: number;  // 0-1
+  pakadScore: number;     // 0-1
+}
+
+export interface RagaAnalysis {
+  tonicHz: number;
+  tonicConfidence: number; // 0-1
+  histogram: number[];     // share of pitched time on each swara, from Sa; sums to 1
+  matches: RagaMatch[];    // best match first
+}
+
+export interface RagaRecognitionOptions {
+  tonic?: TonicEstimate; // known or already estimated tonic; estimated from the track when omitted
+  topN?: number;         // number of matches to return, default 5
+}
+
+// How much each part contributes to the final score
+const HISTOGRAM_WEIGHT = 0.6;
+const MOVEMENT_WEIGHT = 0.25;
+const PAKAD_WEIGHT = 0.15;
+
+/**
+ * Builds the expected swara weighting of a raga
+ */
+const ragaTemplate = (raga: RagaDefinition): number[] => {
+  const allowed = new Set<Swara>([...raga.aarohana, ...raga.avarohana]);
+  return SWARAS.map(swara => {
+    if (!allowed.has(swara)) return 0;
+    let weight = 1;
+    if (swara === 'S') weight += 0.5;
+    if (swara === raga.vadi) weight += 1;
+    if (swara === raga.samvadi) weight += 0.5;
+    return weight;
+  });
+};
+
+/**
+ * Cosine similarity of two equal-length vectors
+ */
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Removes immediate repeats of the same swara and octave
+ */
+const collapseRepeats = (notes: SwaraNote[]): SwaraNote[] => {
+  return notes.filter((note, i) =>
+    i === 0 || note.swara !== notes[i - 1].swara || note.octave !== notes[i - 1].octave
+  );
+};
+
+/**
+ * Fraction of melodic steps that use swaras allowed in that direction
+ */
+const scoreMovement = (notes: SwaraNote[], raga: RagaDefinition): number | null => {
+  const ascending = new Set(raga.aarohana);
+  const descending = new Set(raga.avarohana);
+  let consistent = 0;
+  let total = 0;
+
+  for (let i = 1; i < notes.length; i++) {
+    const from = notes[i - 1];
+    const to = notes[i];
+    const step = (to.octave * 12 + SWARAS.indexOf(to.swara)) - (from.octave * 12 + SWARAS.indexOf(from.swara));
+    const allowed = step > 0 ? ascending : descending;
+    total++;
+    if (allowed.has(from.swara) && allowed.has(to.swara)) {
+      consistent++;
+    }
+  }
+
+  return total > 0 ? consistent / total : null;
+};
+
+/**
+ * How completely each pakad phrase appears in the swara sequence
+ * A phrase may be interrupted by one passing note per two swaras.
+ */
+const scorePakad = (sequence: Swara[], raga: RagaDefinition): number => {
+  if (sequence.length === 0 || raga.pakad.length === 0) return 0;
+
+  const phraseScores = raga.pakad.map(phrase => {
+    const target = phrase.filter((swara, i) => i === 0 || swara !== phrase[i - 1]);
+    const window = target.length + Math.ceil(target.length / 2);
+    let best = 0;
+
+    for (let start = 0; start < sequence.length; start++) {
+      if (sequence[start] !== target[0]) continue;
+      let matched = 1;
+      for (let i = start + 1; i < Math.min(sequence.length, start + window) && matched < target.length; i++) {
+        if (sequence[i] === target[matched]) matched++;
+      }
+      best = Math.max(best, matched / target.length);
+      if (best === 1) break;
+    }
+
+    // Partial matches are mostly coincidence, so they count for little
+    return best * best;
+  });
+
+  return phraseScores.reduce((acc, score) => acc + score, 0) / phraseScores.length;
+};
+
+/**
+ * Identifies the most likely ragas of a performance
+ * @returns The ranked matches, or null if the track has no pitched content
+ */
+export const recognizeRaga = (
+  track: PitchFrame[],
+  options: RagaRecognitionOptions = {}
+): RagaAnalysis | null => {
+  const estimate = options.tonic ?? estimateTonic(track);
+  if (!estimate) return null;
+
+  const histogram = buildPitchClassHistogram(track, estimate.hz, 12);
+  if (histogram.every(value => value === 0)) return null;
+
+  // Square roots keep long-held Sa and Pa from drowning out the other swaras
+  const flattened = histogram.map(Math.sqrt);
+  const notes = collapseRepeats(extractSwaraSequence(track, estimate.hz));
+  const sequence = notes.map(note => note.swara);
+
+  const matches: RagaMatch[] = RAGA_DEFINITIONS.map(raga => {
+    const histogramScore = cosineSimilarity(flattened, ragaTemplate(raga));
+    const movementScore = scoreMovement(notes, raga);
+    const pakadScore = scorePakad(sequence, raga);
+
+    // With fewer than two notes there is no melody to judge, only the histogram
+    const score = movementScore === null
+      ? histogramScore
+      : HISTOGRAM_WEIGHT * histogramScore + MOVEMENT_WEIGHT * movementScore + PAKAD_WEIGHT * pakadScore;
+
+    return {
+      name: raga.name,
+      thaat: raga.thaat,
+      score: Math.round(score * 1000) / 10,
+      histogramScore: Math.round(histogramScore * 1000) / 1000,
+      movementScore: Math.round((movementScore ?? 0) * 1000) / 1000,
+      pakadScore: Math.round(pakadScore * 1000) / 1000,
+    };
+  });
+
+  matches.sort((a, b) => b.score - a.score);
+
+  return {
+    tonicHz: estimate.hz,
+    tonicConfidence: Math.round(estimate.confidence * 100) / 100,
+    histogram: histogram.map(value => Math.round(value * 1000) / 1000),
+    matches: matches.slice(0, options.topN ?? 5),
+  };
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeRasa, RasaAnalysis } from './rasa';
+import { RagaAnalysis } from './ragaRecognizer';
+
+const raga = (...matches: [string, number][]): RagaAnalysis => ({
+  tonicHz: 261.63,
+  tonicConfidence: 0.9,
+  histogram: [],
+  matches: matches.map(([name, score]) => ({ name, thaat: '', score, histogramScore: 0, movementScore: 0, pakadScore: 0 })),
+});
+
+const scoreOf = (analysis: RasaAnalysis | null, rasa: string) => analysis?.scores.find(score => score.rasa === rasa);
+
+describe('analyzeRasa', () => {
+  it('returns null when nothing was measured', () => {
+    expect(analyzeRasa({ raga: null, tempo: 0, dynamics: null })).toBeNull();
+    expect(analyzeRasa({ raga: raga(['Yaman', 0]), tempo: 0, dynamics: { average: -100, min: -100, max: -100 } })).toBeNull();
+  });
+
+  it('scores from the raga alone when it is all there is', () => {
+    const analysis = analyzeRasa({ raga: raga(['Yaman', 90]), tempo: 0, dynamics: null });
+    expect(analysis).toMatchObject({ laya: null, layaBpm: 0 });
+    expect(analysis?.scores).toHaveLength(9);
+    expect(analysis?.scores[0]).toMatchObject({ rasa: 'shringara', name: 'Shringara', score: 80 });
+    expect(scoreOf(analysis, 'shanta')?.score).toBe(70);
+    expect(scoreOf(analysis, 'raudra')?.score).toBe(0);
+    expect(analysis?.scores[0].contributions).toEqual([{
+      source: 'raga',
+      points: 80,
+      reason: 'Raag Yaman (90% match) is traditionally performed for shringara',
+    }]);
+    expect(scoreOf(analysis, 'adbhuta')?.contributions[0].reason).toBe('Raag Yaman (90% match) touches on adbhuta');
+    expect(scoreOf(analysis, 'raudra')?.contributions[0].reason).toBe("Raag Yaman (90% match) isn't associated with raudra");
+  });
+
+  it('averages the top candidate ragas by how well they matched', () => {
+    const analysis = analyzeRasa({ raga: raga(['Yaman', 60], ['Asavari', 20], ['Bhupali', 20], ['Malkauns', 20]), tempo: 0, dynamics: null });
+    // Malkauns is the fourth candidate and left out
+    expect(scoreOf(analysis, 'karuna')?.score).toBe(16);
+    expect(scoreOf(analysis, 'shringara')?.score).toBe(60);
+  });
+
+  it('keeps the scores sorted, each the sum of its contributions', () => {
+    const analysis = analyzeRasa({ raga: raga(['Bhairav', 70]), tempo: 100, dynamics: { average: -25, min: -40, max: -15 } });
+    const scores = analysis?.scores ?? [];
+    expect(scores.map(score => score.score)).toEqual([...scores.map(score => score.score)].sort((a, b) => b - a));
+    for (const score of scores) {
+      const total = score.contributions.reduce((acc, contribution) => acc + contribution.points, 0);
+      expect(Math.abs(score.score - total)).toBeLessThanOrEqual(0.5);
+      expect(score.contributions.map(c => c.points)).toEqual([...score.contributions.map(c => c.points)].sort((a, b) => b - a));
+    }
+  });
+
+  it('hears a slow, soft, even take as shanta', () => {
+    const analysis = analyzeRasa({ raga: null, tempo: 45, dynamics: { average: -45, min: -47, max: -44 } });
+    expect(analysis).toMatchObject({ laya: 'vilambit', layaBpm: 45 });
+    expect(analysis?.scores[0]).toMatchObject({ rasa: 'shanta', score: 94 });
+    expect(analysis?.scores[0].contributions.map(c => c.reason)).toEqual([
+      'Vilambit laya (45 BPM) suits shanta',
+      'Soft, even dynamics fit shanta',
+    ]);
+  });
+
+  it('hears a fast, loud, contrasting take as raudra', () => {
+    const analysis = analyzeRasa({ raga: null, tempo: 170, dynamics: { average: -12, min: -40, max: -5 } });
+    expect(analysis?.laya).toBe('drut');
+    expect(analysis?.scores[0]).toMatchObject({ rasa: 'raudra', score: 95 });
+    expect(scoreOf(analysis, 'shanta')?.contributions.find(c => c.source === 'laya')?.reason)
+      .toBe('Drut laya (170 BPM) works against shanta');
+  });
+
+  it('splits tempos between neighbouring layas', () => {
+    expect(analyzeRasa({ raga: null, tempo: 80, dynamics: null })?.laya).toBe('madhya');
+    expect(analyzeRasa({ raga: null, tempo: 140, dynamics: null })?.laya).toBe('drut');
+    // Halfway between madhya and drut: madhya fits shringara fully, drut only partly
+    expect(scoreOf(analyzeRasa({ raga: null, tempo: 125, dynamics: null }), 'shringara')?.score).toBe(80);
+  });
+
+  it('weights the raga by how certain the match is', () => {
+    const certain = analyzeRasa({ raga: raga(['Asavari', 100]), tempo: 170, dynamics: null });
+    const unsure = analyzeRasa({ raga: raga(['Asavari', 20]), tempo: 170, dynamics: null });
+    const ragaPoints = (analysis: RasaAnalysis | null) =>
+      scoreOf(analysis, 'karuna')?.contributions.find(c => c.source === 'raga')?.points ?? 0;
+    // 0.5 x 0.8 of 0.8 total weight, against 0.1 x 0.8 of 0.4
+    expect(ragaPoints(certain)).toBe(50);
+    expect(ragaPoints(unsure)).toBe(20);
+  });
+});
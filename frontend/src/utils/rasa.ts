@@ -0,0 +1,208 @@
+// utils/rasa.ts
+/**
+ * Rasa analysis in the Navarasa framework
+ * Each of the nine rasas is scored out of 100 from three sources:
+ * - the raga, through the rasas each candidate raga is traditionally
+ *   performed for (see ragaDefinitions.ts), weighted by how well it matched
+ * - the laya: vilambit (slow), madhya (medium) or drut (fast)
+ * - the dynamics: how loud the take is and how much its loudness varies
+ * Sources that weren't measured are left out and the others weighted up, and
+ * every score keeps the points each source gave it and why, so the card can
+ * explain what drove it.
+ */
+
+import { RagaAnalysis } from './ragaRecognizer';
+import { RAGA_DEFINITIONS } from './ragaDefinitions';
+
+export type Rasa =
+  | 'shringara'
+  | 'hasya'
+  | 'karuna'
+  | 'raudra'
+  | 'veera'
+  | 'bhayanaka'
+  | 'bibhatsa'
+  | 'adbhuta'
+  | 'shanta';
+
+export type Laya = 'vilambit' | 'madhya' | 'drut';
+
+export type RasaSource = 'raga' | 'laya' | 'dynamics';
+
+/**
+ * What one source added to a rasa's score
+ */
+export interface RasaContribution {
+  source: RasaSource;
+  points: number; // share of the 0-100 score
+  reason: string;
+}
+
+export interface RasaScore {
+  rasa: Rasa;
+  name: string;    // e.g. "Shringara"
+  meaning: string; // English gloss, e.g. "love, longing"
+  score: number;   // 0-100
+  contributions: RasaContribution[]; // largest first
+}
+
+export interface RasaAnalysis {
+  laya: Laya | null; // null when no tempo was found
+  layaBpm: number;   // tempo the laya was judged from; 0 when none
+  scores: RasaScore[]; // highest first
+}
+
+export interface RasaInputs {
+  raga: RagaAnalysis | null;
+  tempo: number; // BPM; the metronome's tempo when there was one
+  dynamics: { average: number; min: number; max: number } | null; // dBFS
+}
+
+/**
+ * How each rasa is expressed outside the raga
+ */
+interface RasaProfile {
+  rasa: Rasa;
+  name: string;
+  meaning: string;
+  laya: Record<Laya, number>; // 0-1 fit of each laya
+  loudness: number;           // 0 (soft) to 1 (loud)
+  contrast: number;           // 0 (even) to 1 (widely varied dynamics)
+}
+
+const RASA_PROFILES: RasaProfile[] = [
+  { rasa: 'shringara', name: 'Shringara', meaning: 'love, longing', laya: { vilambit: 0.6, madhya: 1, drut: 0.6 }, loudness: 0.5, contrast: 0.4 },
+  { rasa: 'hasya', name: 'Hasya', meaning: 'joy, humour', laya: { vilambit: 0.1, madhya: 0.6, drut: 1 }, loudness: 0.6, contrast: 0.6 },
+  { rasa: 'karuna', name: 'Karuna', meaning: 'compassion, sorrow', laya: { vilambit: 1, madhya: 0.5, drut: 0.1 }, loudness: 0.3, contrast: 0.4 },
+  { rasa: 'raudra', name: 'Raudra', meaning: 'fury', laya: { vilambit: 0.1, madhya: 0.5, drut: 1 }, loudness: 0.95, contrast: 0.8 },
+  { rasa: 'veera', name: 'Veera', meaning: 'courage, valour', laya: { vilambit: 0.2, madhya: 0.8, drut: 1 }, loudness: 0.85, contrast: 0.5 },
+  { rasa: 'bhayanaka', name: 'Bhayanaka', meaning: 'fear, unease', laya: { vilambit: 0.3, madhya: 0.6, drut: 0.8 }, loudness: 0.4, contrast: 0.9 },
+  { rasa: 'bibhatsa', name: 'Bibhatsa', meaning: 'aversion', laya: { vilambit: 0.4, madhya: 0.6, drut: 0.5 }, loudness: 0.6, contrast: 0.7 },
+  { rasa: 'adbhuta', name: 'Adbhuta', meaning: 'wonder', laya: { vilambit: 0.4, madhya: 0.8, drut: 0.7 }, loudness: 0.6, contrast: 0.7 },
+  { rasa: 'shanta', name: 'Shanta', meaning: 'peace, stillness', laya: { vilambit: 1, madhya: 0.5, drut: 0.1 }, loudness: 0.2, contrast: 0.1 },
+];
+
+export const LAYA_LABELS: Record<Laya, string> = {
+  vilambit: 'Vilambit',
+  madhya: 'Madhya',
+  drut: 'Drut',
+};
+
+// Tempos at the centre of each laya; in between, a tempo belongs partly to both
+const VILAMBIT_BPM = 50;
+const MADHYA_BPM = 90;
+const DRUT_BPM = 160;
+
+// How much each source counts when all three are available
+const SOURCE_WEIGHTS: Record<RasaSource, number> = { raga: 0.5, laya: 0.3, dynamics: 0.2 };
+
+// Loudness and dynamic range mapped onto 0-1, in dB
+const SOFT_DB = -45;
+const LOUD_DB = -12;
+const EVEN_RANGE_DB = 6;
+const WIDE_RANGE_DB = 30;
+
+// Candidate ragas the raga part is averaged over
+const RAGA_CANDIDATES = 3;
+
+const normalize = (value: number, low: number, high: number): number => {
+  return Math.min(1, Math.max(0, (value - low) / (high - low)));
+};
+
+/**
+ * Share of each laya a tempo belongs to, adding up to 1
+ */
+const layaMembership = (bpm: number): Record<Laya, number> => {
+  if (bpm <= VILAMBIT_BPM) return { vilambit: 1, madhya: 0, drut: 0 };
+  if (bpm >= DRUT_BPM) return { vilambit: 0, madhya: 0, drut: 1 };
+  if (bpm <= MADHYA_BPM) {
+    const madhya = (bpm - VILAMBIT_BPM) / (MADHYA_BPM - VILAMBIT_BPM);
+    return { vilambit: 1 - madhya, madhya, drut: 0 };
+  }
+  const drut = (bpm - MADHYA_BPM) / (DRUT_BPM - MADHYA_BPM);
+  return { vilambit: 0, madhya: 1 - drut, drut };
+};
+
+const describeLevel = (value: number, words: [string, string, string]) =>
+  value < 0.35 ? words[0] : value > 0.65 ? words[2] : words[1];
+
+/**
+ * Score every rasa from the raga, laya and dynamics of a take
+ * @returns null when none of the three was measured
+ */
+export const analyzeRasa = ({ raga, tempo, dynamics }: RasaInputs): RasaAnalysis | null => {
+  const candidates = (raga?.matches ?? []).slice(0, RAGA_CANDIDATES).filter(match => match.score > 0);
+  const hasRaga = candidates.length > 0;
+  const hasLaya = tempo > 0;
+  const hasDynamics = !!dynamics && dynamics.average > -100;
+  if (!hasRaga && !hasLaya && !hasDynamics) return null;
+
+  // The raga part counts as much as the best match is certain
+  const ragaCertainty = hasRaga ? candidates[0].score / 100 : 0;
+  const weights: Record<RasaSource, number> = {
+    raga: hasRaga ? SOURCE_WEIGHTS.raga * ragaCertainty : 0,
+    laya: hasLaya ? SOURCE_WEIGHTS.laya : 0,
+    dynamics: hasDynamics ? SOURCE_WEIGHTS.dynamics : 0,
+  };
+  const totalWeight = weights.raga + weights.laya + weights.dynamics;
+
+  const membership = hasLaya ? layaMembership(tempo) : null;
+  const laya = membership
+    ? (Object.keys(membership) as Laya[]).reduce((best, key) => (membership[key] > membership[best] ? key : best))
+    : null;
+  const loudness = dynamics ? normalize(dynamics.average, SOFT_DB, LOUD_DB) : 0;
+  const contrast = dynamics ? normalize(dynamics.max - dynamics.min, EVEN_RANGE_DB, WIDE_RANGE_DB) : 0;
+
+  const candidateTotal = candidates.reduce((acc, match) => acc + match.score, 0);
+  const rasasOf = (name: string) => RAGA_DEFINITIONS.find(definition => definition.name === name)?.rasas ?? {};
+
+  const scores = RASA_PROFILES.map((profile): RasaScore => {
+    const contributions: RasaContribution[] = [];
+    const points = (source: RasaSource, fit: number) => Math.round((100 * weights[source] * fit) / totalWeight * 10) / 10;
+
+    if (hasRaga) {
+      const fit = candidates.reduce((acc, match) => acc + match.score * (rasasOf(match.name)[profile.rasa] ?? 0), 0) / candidateTotal;
+      const top = candidates[0];
+      const topFit = rasasOf(top.name)[profile.rasa] ?? 0;
+      const reason = topFit >= 0.5
+        ? `Raag ${top.name} (${Math.round(top.score)}% match) is traditionally performed for ${profile.name.toLowerCase()}`
+        : topFit > 0
+          ? `Raag ${top.name} (${Math.round(top.score)}% match) touches on ${profile.name.toLowerCase()}`
+          : `Raag ${top.name} (${Math.round(top.score)}% match) isn't associated with ${profile.name.toLowerCase()}`;
+      contributions.push({ source: 'raga', points: points('raga', fit), reason });
+    }
+
+    if (membership && laya) {
+      const fit = (Object.keys(membership) as Laya[]).reduce((acc, key) => acc + membership[key] * profile.laya[key], 0);
+      const verdict = fit >= 0.7 ? 'suits' : fit >= 0.4 ? 'can carry' : 'works against';
+      contributions.push({
+        source: 'laya',
+        points: points('laya', fit),
+        reason: `${LAYA_LABELS[laya]} laya (${Math.round(tempo)} BPM) ${verdict} ${profile.name.toLowerCase()}`,
+      });
+    }
+
+    if (hasDynamics) {
+      const fit = 1 - (Math.abs(loudness - profile.loudness) + Math.abs(contrast - profile.contrast)) / 2;
+      const level = describeLevel(loudness, ['Soft', 'Moderate', 'Loud']);
+      const variation = describeLevel(contrast, ['even', 'varied', 'strongly contrasting']);
+      contributions.push({
+        source: 'dynamics',
+        points: points('dynamics', fit),
+        reason: `${level}, ${variation} dynamics ${fit >= 0.7 ? 'fit' : fit >= 0.4 ? 'partly fit' : "don't fit"} ${profile.name.toLowerCase()}`,
+      });
+    }
+
+    contributions.sort((a, b) => b.points - a.points);
+    return {
+      rasa: profile.rasa,
+      name: profile.name,
+      meaning: profile.meaning,
+      score: Math.round(contributions.reduce((acc, contribution) => acc + contribution.points, 0)),
+      contributions,
+    };
+  });
+
+  scores.sort((a, b) => b.score - a.score);
+  return { laya, layaBpm: hasLaya ? Math.round(tempo) : 0, scores };
+};
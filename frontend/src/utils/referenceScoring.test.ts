@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { foldCents, playedPitch, scoreAgainstReference } from './referenceScoring';
+import { createAudioBuffer } from './wavDecoder';
+import { trackPitch, PitchFrame } from './audioUtils';
+
+const SAMPLE_RATE = 11025;
+
+// A note of the melody, or a rest when midi is null
+interface Tone {
+  midi: number | null;
+  seconds: number;
+}
+
+const midiToHz = (midi: number) => 440 * 2 ** ((midi - 69) / 12);
+
+/**
+ * Render a melody as a plain sine wave, with short fades so notes start cleanly
+ */
+const render = (tones: Tone[], transpose = 0, stretch = 1): AudioBuffer => {
+  const total = Math.round(tones.reduce((acc, tone) => acc + tone.seconds * stretch, 0) * SAMPLE_RATE);
+  const samples = new Float32Array(total);
+  let offset = 0;
+  for (const tone of tones) {
+    const length = Math.round(tone.seconds * stretch * SAMPLE_RATE);
+    if (tone.midi !== null) {
+      const hz = midiToHz(tone.midi + transpose);
+      const fade = Math.round(0.01 * SAMPLE_RATE);
+      for (let i = 0; i < length; i++) {
+        const gain = Math.min(1, i / fade, (length - i) / fade);
+        samples[offset + i] = 0.5 * gain * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE);
+      }
+    }
+    offset += length;
+  }
+  return createAudioBuffer([samples], SAMPLE_RATE);
+};
+
+// Two phrases of four notes, split by a rest longer than PHRASE_GAP_SECONDS
+const MELODY: Tone[] = [
+  { midi: null, seconds: 0.2 },
+  { midi: 60, seconds: 0.4 },
+  { midi: 62, seconds: 0.4 },
+  { midi: 64, seconds: 0.4 },
+  { midi: 65, seconds: 0.4 },
+  { midi: null, seconds: 0.5 },
+  { midi: 67, seconds: 0.4 },
+  { midi: 65, seconds: 0.4 },
+  { midi: 64, seconds: 0.4 },
+  { midi: 62, seconds: 0.4 },
+  { midi: null, seconds: 0.2 },
+];
+
+const REFERENCE = { id: 'ref', name: 'Teacher' };
+
+const score = (take: AudioBuffer, referenceTonicHz?: number, takeTonicHz?: number) =>
+  scoreAgainstReference({ ...REFERENCE, tonicHz: referenceTonicHz }, render(MELODY), take, trackPitch(take), takeTonicHz);
+
+describe('foldCents', () => {
+  it('folds differences into the nearest octave', () => {
+    expect(foldCents(0)).toBe(0);
+    expect(foldCents(1200)).toBe(0);
+    expect(foldCents(-1230)).toBe(-30);
+    expect(foldCents(700)).toBe(-500);
+    expect(foldCents(-700)).toBe(500);
+  });
+});
+
+describe('playedPitch', () => {
+  const track: PitchFrame[] = Array.from({ length: 10 }, (_, i) => ({ time: i * 0.1, f0: i < 5 ? 440 : 0, clarity: i < 5 ? 0.9 : 0 }));
+
+  it('takes the median MIDI pitch of the voiced frames in the window', () => {
+    expect(playedPitch(track, 0, 0.9)).toBeCloseTo(69, 6);
+  });
+
+  it('returns null when too little of the window was pitched', () => {
+    expect(playedPitch(track, 0.45, 0.95)).toBeNull();
+    expect(playedPitch(track, 5, 6)).toBeNull();
+  });
+});
+
+describe('scoreAgainstReference', () => {
+  it('finds every note of an identical take correct', () => {
+    const result = score(render(MELODY));
+    expect(result.referenceId).toBe('ref');
+    expect(result.phrases).toHaveLength(2);
+    expect(result.totalNotes).toBe(8);
+    expect(result.correctNotes).toBe(8);
+    expect(result.accuracyPercentage).toBe(100);
+    expect(Math.abs(result.meanPitchDeviationCents ?? Infinity)).toBeLessThan(10);
+    expect(result.phrases.every(phrase => !phrase.deviated && phrase.issue === null)).toBe(true);
+  });
+
+  it('aligns a slower take before checking timing', () => {
+    const result = score(render(MELODY, 0, 1.3));
+    expect(result.accuracyPercentage).toBe(100);
+    expect(result.phrases[1].start).toBeGreaterThan(2);
+  });
+
+  it('reports a wrong note as off pitch', () => {
+    const melody = MELODY.map((tone, i) => (i === 3 ? { ...tone, midi: 65 } : tone));
+    const result = score(render(melody));
+    expect(result.correctNotes).toBe(7);
+    expect(result.phrases[0]).toMatchObject({ offPitchNotes: 1, missedNotes: 0, deviated: false });
+    expect(result.phrases[0].meanPitchDeviationCents).toBeGreaterThan(15);
+    expect(result.phrases[1].offPitchNotes).toBe(0);
+  });
+
+  it('flags a phrase played mostly out of tune', () => {
+    const melody = MELODY.map((tone, i) => (i >= 6 && i <= 8 && tone.midi !== null ? { ...tone, midi: tone.midi - 1 } : tone));
+    const result = score(render(melody));
+    expect(result.phrases[0].deviated).toBe(false);
+    expect(result.phrases[1]).toMatchObject({ deviated: true, issue: 'pitch' });
+  });
+
+  it('allows for a change of key when both tonics are known', () => {
+    const take = render(MELODY, 5);
+    expect(score(take).correctNotes).toBe(0);
+    expect(score(take, midiToHz(60), midiToHz(65)).accuracyPercentage).toBe(100);
+  });
+
+  it('counts notes left out as missed', () => {
+    const melody = MELODY.map((tone, i) => (i === 7 || i === 8 ? { ...tone, midi: null } : tone));
+    const result = score(render(melody));
+    expect(result.phrases[0].missedNotes).toBe(0);
+    expect(result.phrases[1].missedNotes).toBe(2);
+    expect(result.phrases[1]).toMatchObject({ deviated: true, issue: 'missed' });
+    expect(result.correctNotes).toBe(6);
+  });
+});
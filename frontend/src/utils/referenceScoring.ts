@@ -0,0 +1,244 @@
+// utils/referenceScoring.ts
+/**
+ * Scoring a take against a reference recording of the same piece
+ * The reference (usually the teacher's take) is split into notes and
+ * phrases, aligned to the student's take with DTW (see takeComparison.ts),
+ * and each reference note is checked against what was played at the
+ * matching moment: was something played, was it in tune with the reference,
+ * and did it start when the phrase's own pace says it should.
+ */
+
+import { PitchFrame, NoteSegment, segmentNotes } from './audioUtils';
+import { compareTakes, mapAlignedTime, TakeAlignment } from './takeComparison';
+
+/**
+ * Raw audio of the reference, as passed along with the analysis options
+ * Kept as plain channel data so it can be posted to the analysis worker.
+ */
+export interface ReferenceAudio {
+  id: string;
+  name: string;
+  channels: Float32Array<ArrayBuffer>[];
+  sampleRate: number;
+  tonicHz?: number; // the reference's manually chosen Sa, if any
+}
+
+export type PhraseIssue = 'missed' | 'pitch' | 'timing';
+
+export const PHRASE_ISSUE_LABELS: Record<PhraseIssue, string> = {
+  missed: 'notes left out',
+  pitch: 'off pitch',
+  timing: 'uneven timing',
+};
+
+/**
+ * How one phrase of the reference was played
+ */
+export interface PhraseScore {
+  start: number;     // seconds into the take
+  end: number;       // seconds into the take
+  totalNotes: number;
+  correctNotes: number;
+  missedNotes: number;    // nothing pitched was played where the note belongs
+  offPitchNotes: number;  // further from the reference than PITCH_TOLERANCE_CENTS
+  offTimeNotes: number;   // started further than TIMING_TOLERANCE_MS from where the phrase's pace puts it
+  meanPitchDeviationCents: number | null; // signed; negative is flat
+  meanTimingDeviationMs: number | null;   // signed; negative is early
+  deviated: boolean;      // fewer than PHRASE_PASS_RATIO of its notes were correct
+  issue: PhraseIssue | null; // the most common problem in a deviated phrase
+}
+
+export interface ReferenceScore {
+  referenceId: string;
+  referenceName: string;
+  totalNotes: number;   // notes in the reference
+  correctNotes: number;
+  accuracyPercentage: number;
+  meanPitchDeviationCents: number | null; // signed, over the notes that were played
+  meanTimingDeviationMs: number | null;   // signed, over the notes that were played
+  tolerances: {
+    pitchCents: number;
+    timingMs: number;
+  };
+  phrases: PhraseScore[];
+}
+
+// A note counts as correct within these tolerances
+const PITCH_TOLERANCE_CENTS = 50;
+const TIMING_TOLERANCE_MS = 150;
+
+// A rest at least this long in the reference ends a phrase
+const PHRASE_GAP_SECONDS = 0.3;
+
+// Phrases with fewer correct notes than this share are reported as deviating
+const PHRASE_PASS_RATIO = 0.7;
+
+// Only the middle of each note is compared, leaving out the glide into and out of it
+const NOTE_CORE_MARGIN = 0.2;
+
+// A note is missed when less than this share of its core was pitched in the take
+const MIN_VOICED_SHARE = 0.3;
+
+interface PlayedNote {
+  pitchDeviationCents: number;
+  timingDeviationMs: number;
+  correct: boolean;
+}
+
+// How one reference note was played; null when it was missed
+type NoteCheck = PlayedNote | null;
+
+const isPlayed = (check: NoteCheck): check is PlayedNote => check !== null;
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+/**
+ * Fold a pitch difference into a single octave, so a student singing an
+ * octave away from the teacher is judged on the note, not the register
+ */
+export const foldCents = (cents: number): number => {
+  const folded = ((cents % 1200) + 1200) % 1200;
+  return folded >= 600 ? folded - 1200 : folded;
+};
+
+/**
+ * Split reference notes into phrases at rests
+ */
+const groupPhrases = (notes: NoteSegment[]): NoteSegment[][] => {
+  const phrases: NoteSegment[][] = [];
+  notes.forEach((note, i) => {
+    if (i === 0 || note.start - notes[i - 1].end >= PHRASE_GAP_SECONDS) {
+      phrases.push([]);
+    }
+    phrases[phrases.length - 1].push(note);
+  });
+  return phrases;
+};
+
+/**
+ * Median pitch (fractional MIDI) of the voiced frames of a track in a time window
+ * Returns null when too little of the window was pitched.
+ */
+export const playedPitch = (track: PitchFrame[], start: number, end: number): number | null => {
+  const window = track.filter(frame => frame.time >= start && frame.time <= end);
+  const voiced = window
+    .filter(frame => frame.f0 > 0)
+    .map(frame => 69 + 12 * Math.log2(frame.f0 / 440))
+    .sort((a, b) => a - b);
+  if (window.length === 0 || voiced.length / window.length < MIN_VOICED_SHARE) return null;
+  return voiced[Math.floor(voiced.length / 2)];
+};
+
+/**
+ * Check every note of one phrase against the take
+ * @param transposeSemitones Key difference between the take and the reference
+ */
+const checkPhrase = (
+  phrase: NoteSegment[],
+  alignment: TakeAlignment,
+  takeTrack: PitchFrame[],
+  transposeSemitones: number
+): NoteCheck[] => {
+  // The phrase's own pace: its start and end mapped into the take
+  const refStart = phrase[0].start;
+  const refEnd = phrase[phrase.length - 1].end;
+  const takeStart = mapAlignedTime(alignment, refStart);
+  const takeEnd = mapAlignedTime(alignment, refEnd);
+  const pace = refEnd > refStart ? (takeEnd - takeStart) / (refEnd - refStart) : 1;
+
+  return phrase.map(note => {
+    const margin = (note.end - note.start) * NOTE_CORE_MARGIN;
+    const played = playedPitch(
+      takeTrack,
+      mapAlignedTime(alignment, note.start + margin),
+      mapAlignedTime(alignment, note.end - margin)
+    );
+    if (played === null) return null;
+
+    const pitchDeviationCents = Math.round(foldCents((played - note.midi - transposeSemitones) * 100));
+    const expectedStart = takeStart + (note.start - refStart) * pace;
+    const timingDeviationMs = Math.round((mapAlignedTime(alignment, note.start) - expectedStart) * 1000);
+
+    return {
+      pitchDeviationCents,
+      timingDeviationMs,
+      correct: Math.abs(pitchDeviationCents) <= PITCH_TOLERANCE_CENTS &&
+        Math.abs(timingDeviationMs) <= TIMING_TOLERANCE_MS,
+    };
+  });
+};
+
+/**
+ * Score a take against a reference recording
+ * @param reference The reference recording
+ * @param referenceBuffer The reference audio
+ * @param takeBuffer The take being scored
+ * @param takeTrack The take's pitch track, already computed by the analysis
+ * @param takeTonicHz The take's manually chosen Sa, used with the reference's to allow for a change of key
+ */
+export const scoreAgainstReference = (
+  reference: Pick<ReferenceAudio, 'id' | 'name' | 'tonicHz'>,
+  referenceBuffer: AudioBuffer,
+  takeBuffer: AudioBuffer,
+  takeTrack: PitchFrame[],
+  takeTonicHz?: number
+): ReferenceScore => {
+  const { alignment, pitchA: referenceTrack } = compareTakes(referenceBuffer, takeBuffer, undefined, takeTrack);
+  const referenceNotes = segmentNotes(referenceTrack);
+
+  const transposeSemitones = reference.tonicHz && takeTonicHz
+    ? foldCents(1200 * Math.log2(takeTonicHz / reference.tonicHz)) / 100
+    : 0;
+
+  const allChecks: NoteCheck[] = [];
+  const phrases: PhraseScore[] = groupPhrases(referenceNotes).map(phrase => {
+    const checks = checkPhrase(phrase, alignment, takeTrack, transposeSemitones);
+    allChecks.push(...checks);
+
+    const played = checks.filter(isPlayed);
+    const correctNotes = played.filter(check => check.correct).length;
+    const missedNotes = checks.length - played.length;
+    const offPitchNotes = played.filter(check => Math.abs(check.pitchDeviationCents) > PITCH_TOLERANCE_CENTS).length;
+    const offTimeNotes = played.filter(check => Math.abs(check.timingDeviationMs) > TIMING_TOLERANCE_MS).length;
+    const deviated = correctNotes < checks.length * PHRASE_PASS_RATIO;
+
+    let issue: PhraseIssue | null = null;
+    if (deviated) {
+      const counts: [PhraseIssue, number][] = [['missed', missedNotes], ['pitch', offPitchNotes], ['timing', offTimeNotes]];
+      issue = counts.reduce((worst, entry) => (entry[1] > worst[1] ? entry : worst))[0];
+    }
+
+    return {
+      start: Math.round(mapAlignedTime(alignment, phrase[0].start) * 100) / 100,
+      end: Math.round(mapAlignedTime(alignment, phrase[phrase.length - 1].end) * 100) / 100,
+      totalNotes: checks.length,
+      correctNotes,
+      missedNotes,
+      offPitchNotes,
+      offTimeNotes,
+      meanPitchDeviationCents: mean(played.map(check => check.pitchDeviationCents)),
+      meanTimingDeviationMs: mean(played.map(check => check.timingDeviationMs)),
+      deviated,
+      issue,
+    };
+  });
+
+  const played = allChecks.filter(isPlayed);
+  const correctNotes = played.filter(check => check.correct).length;
+
+  return {
+    referenceId: reference.id,
+    referenceName: reference.name,
+    totalNotes: allChecks.length,
+    correctNotes,
+    accuracyPercentage: allChecks.length > 0 ? Math.round((correctNotes / allChecks.length) * 100) : 0,
+    meanPitchDeviationCents: mean(played.map(check => check.pitchDeviationCents)),
+    meanTimingDeviationMs: mean(played.map(check => check.timingDeviationMs)),
+    tolerances: {
+      pitchCents: PITCH_TOLERANCE_CENTS,
+      timingMs: TIMING_TOLERANCE_MS,
+    },
+    phrases,
+  };
+};
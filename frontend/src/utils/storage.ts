@@ -1,119 +1,281 @@
 // utils/storage.ts
 /**
  * Storage utility for managing ukulele recordings
- * This module provides functions to store, retrieve, and manage audio recordings
+ * This module provides functions to store, retrieve, and manage audio recordings.
+ * Recording metadata is kept in localStorage, while the audio itself is kept
+ * in IndexedDB (see audioStore.ts) and rehydrated into object URLs on load.
  */
 
+import { putAudio, getAudio, deleteAudio } from './audioStore';
+import { AudioAnalysisResult, ANALYZER_VERSION } from './emotionDetector';
+import { AnalysisProviderId } from './analysisSettings';
+import { ExerciseScore } from './exercises';
+
+/**
+ * One saved analysis of a recording
+ */
+export interface StoredAnalysis {
+  result: AudioAnalysisResult;
+  analyzedAt: string | null;   // ISO timestamp; null for results saved before this was recorded
+  analyzerVersion: number;     // ANALYZER_VERSION when the result was produced; 0 when unknown
+  provider: AnalysisProviderId | null; // where the analysis ran; null when unknown
+  compacted?: boolean;         // per-frame detail was dropped to save space; summaries remain
+}
+
 export interface Recording {
   id: string;
   name: string;
-  date: string;
+  date: string;        // locale-formatted, for display
+  recordedAt?: string; // ISO timestamp; unset on recordings saved before it was recorded
   url?: string;
   blob?: Blob;
   duration?: number;
   size?: number;
   type?: string;
-  analysisResults?: any; // Type for analysis results
+  audioMissing?: boolean; // True when the stored audio for this recording could not be found
+  tonicHz?: number; // Manually chosen Sa for this take; detected from the audio when unset
+  taal?: string; // ID of the taal or meter the metronome played during the take (see taal.ts)
+  tempoBpm?: number; // Metronome tempo during the take
+  piece?: string; // Piece or exercise performed in the take
+  tags?: string[]; // Free-form labels for grouping takes
+  isReference?: boolean; // Other takes of the same piece are scored against this one
+  exerciseId?: string; // Exercise played along with in exercise mode (see exercises.ts)
+  exerciseScore?: ExerciseScore; // How the take matched that exercise's notes
+  analysisResults?: StoredAnalysis; // Latest analysis of this take
+  analysisHistory?: StoredAnalysis[]; // Earlier analyses of this take, newest first
 }
 
 // Key for storing recordings metadata in localStorage
 const STORAGE_KEY = 'ukulele-recordings';
 
+// Key for the version of the metadata format stored under STORAGE_KEY
+const STORAGE_VERSION_KEY = 'ukulele-recordings-version';
+
+// Version 2 moved audio out of session-only blob: URLs and into IndexedDB;
+// version 3 wrapped saved analysis results with their version and timestamp
+const STORAGE_VERSION = 3;
+
+// How many earlier analyses are kept per recording
+const MAX_ANALYSIS_HISTORY = 10;
+
+// Shown when localStorage is full even after dropping the recording's history
+const STORAGE_FULL_MESSAGE = 'Browser storage is full. Delete some recordings to make room for new analyses.';
+
+// Object URLs created for stored audio during this page session, by recording ID
+const objectUrls = new Map<string, string>();
+
+let migrationPromise: Promise<void> | null = null;
+
 /**
- * Get all saved recordings from local storage
- * @returns Promise<Recording[]> Array of recording objects
+ * Read the stored recording metadata from localStorage
  */
-export async function getAllRecordings(): Promise<Recording[]> {
-  return new Promise((resolve) => {
-    try {
-      // Try to get recordings from localStorage
-      const recordingsJson = localStorage.getItem(STORAGE_KEY);
-      
-      // If there are no recordings yet, return an empty array
-      if (!recordingsJson) {
-        resolve([]);
-        return;
+const readStoredRecordings = (): Recording[] => {
+  const recordingsJson = localStorage.getItem(STORAGE_KEY);
+  return recordingsJson ? JSON.parse(recordingsJson) : [];
+};
+
+/**
+ * Copy of a recording without its audio
+ * Blobs can't be serialized and object URLs die with the page, so neither is stored.
+ */
+const toStorable = (recording: Partial<Recording>): Partial<Recording> => {
+  const storable = { ...recording };
+  delete storable.blob;
+  delete storable.url;
+  return storable;
+};
+
+/**
+ * Copy of an analysis without its per-frame detail
+ * Earlier analyses are only compared by their summaries (see progress.ts),
+ * while envelopes, beat deviations and note lists make up most of a result's
+ * size, so only the latest analysis keeps them.
+ */
+const compactAnalysis = (analysis: StoredAnalysis): StoredAnalysis => {
+  if (analysis.compacted) return analysis;
+
+  const { result } = analysis;
+  return {
+    ...analysis,
+    compacted: true,
+    result: {
+      ...result,
+      timing: result.timing && { ...result.timing, deviations: [], tempoCurve: [] },
+      intonation: result.intonation && result.intonation.map(swara => ({ ...swara, ranges: [] })),
+      ornaments: result.ornaments && { ...result.ornaments, events: [] },
+      reference: result.reference && { ...result.reference, phrases: [] },
+      transcription: [],
+      dynamics: result.dynamics && { ...result.dynamics, envelope: [] },
+      feedback: result.feedback?.map(item => ({ ...item, ranges: [] })),
+    },
+  };
+};
+
+/**
+ * Check whether an error is the browser refusing a write because storage is full
+ */
+const isQuotaExceeded = (error: unknown): boolean => {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+};
+
+/**
+ * Write recording metadata to localStorage
+ */
+const writeStoredRecordings = (recordings: Recording[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recordings.map(toStorable)));
+};
+
+/**
+ * Release the object URL created for a recording, if any
+ */
+const revokeObjectUrl = (id: string): void => {
+  const url = objectUrls.get(id);
+  if (url) {
+    URL.revokeObjectURL(url);
+    objectUrls.delete(id);
+  }
+};
+
+/**
+ * Attach the stored audio blob and a playable object URL to a recording
+ * Recordings whose audio can't be found are flagged with audioMissing.
+ */
+const hydrateRecording = async (recording: Recording): Promise<Recording> => {
+  let blob: Blob | null = null;
+  try {
+    blob = await getAudio(recording.id);
+  } catch (error) {
+    console.error('Error reading recording audio:', error);
+  }
+
+  if (!blob) {
+    return { ...recording, url: undefined, blob: undefined, audioMissing: true };
+  }
+
+  let url = objectUrls.get(recording.id);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    objectUrls.set(recording.id, url);
+  }
+
+  return { ...recording, url, blob, audioMissing: false };
+};
+
+/**
+ * Migrate metadata written by older versions
+ * Before version 2, entries only had a blob: URL. If that URL still resolves
+ * (same page session) the audio is copied into IndexedDB; otherwise the entry
+ * is flagged as missing its audio. Before version 3, analysis results were
+ * stored bare, without when or how they were produced. Runs at most once per
+ * page load.
+ */
+const migrateLegacyRecordings = (): Promise<void> => {
+  if (migrationPromise) return migrationPromise;
+
+  migrationPromise = (async () => {
+    const storedVersion = Number(localStorage.getItem(STORAGE_VERSION_KEY) || 1);
+    if (storedVersion >= STORAGE_VERSION) return;
+
+    const recordings = readStoredRecordings();
+
+    for (const recording of recordings) {
+      if (storedVersion < 3 && recording.analysisResults) {
+        recording.analysisResults = {
+          result: recording.analysisResults as unknown as AudioAnalysisResult,
+          analyzedAt: null,
+          analyzerVersion: 0,
+          provider: null,
+        };
       }
-      
-      // Parse the JSON string to get the recordings array
-      const recordings: Recording[] = JSON.parse(recordingsJson);
-      
-      // For each recording, ensure URL is available if one exists in storage
-      const processedRecordings = recordings.map(recording => {
-        // If the recording doesn't have a URL but should (has an object URL stored)
-        if (!recording.url && recording.id) {
-          // Try to get the blob from sessionStorage or another mechanism
-          // In a real implementation with IndexedDB, you'd retrieve the blob here
-          // For now, we'll work with what's stored
+
+      if (storedVersion >= 2) continue;
+      if (await getAudio(recording.id).catch(() => null)) continue;
+
+      let blob: Blob | null = null;
+      if (recording.url && recording.url.startsWith('blob:')) {
+        try {
+          const response = await fetch(recording.url);
+          blob = response.ok ? await response.blob() : null;
+        } catch {
+          // The blob: URL belonged to an earlier page session
+          blob = null;
         }
-        return recording;
-      });
-      
-      resolve(processedRecordings);
-    } catch (error) {
-      console.error('Error getting recordings:', error);
-      resolve([]);
+      }
+
+      if (blob) {
+        await putAudio(recording.id, blob);
+        recording.audioMissing = false;
+      } else {
+        recording.audioMissing = true;
+      }
     }
+
+    writeStoredRecordings(recordings);
+    localStorage.setItem(STORAGE_VERSION_KEY, String(STORAGE_VERSION));
+  })();
+
+  // Allow a later call to retry if the migration failed part way
+  migrationPromise.catch(() => {
+    migrationPromise = null;
   });
+
+  return migrationPromise;
+};
+
+/**
+ * Get all saved recordings from local storage
+ * @returns Promise<Recording[]> Array of recording objects with playable URLs
+ */
+export async function getAllRecordings(): Promise<Recording[]> {
+  try {
+    await migrateLegacyRecordings();
+
+    const recordings = readStoredRecordings();
+    return await Promise.all(recordings.map(hydrateRecording));
+  } catch (error) {
+    console.error('Error getting recordings:', error);
+    return [];
+  }
 }
 
 /**
  * Save a new recording to storage
- * @param recording Recording object to save
+ * @param recording Recording object to save (a blob on the object is used if no audioBlob is given)
  * @param audioBlob Optional audio blob data
  * @returns Promise<string> ID of the saved recording
  */
 export async function saveRecording(
-  recording: Omit<Recording, 'id'>, 
+  recording: Omit<Recording, 'id'>,
   audioBlob?: Blob
 ): Promise<string> {
-  return new Promise((resolve, reject) => {
-    try {
-      // Generate a unique ID for the recording
-      const id = `rec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      // Get current recordings
-      const recordingsJson = localStorage.getItem(STORAGE_KEY);
-      const recordings: Recording[] = recordingsJson ? JSON.parse(recordingsJson) : [];
-      
-      // Add the new recording
-      const newRecording: Recording = {
-        ...recording,
-        id,
-      };
-      
-      // If there's audio blob data, store it
-      if (audioBlob) {
-        // Create a URL for the blob
-        newRecording.url = URL.createObjectURL(audioBlob);
-        // Store blob properties
-        newRecording.size = audioBlob.size;
-        newRecording.type = audioBlob.type;
-        
-        // In a real implementation, you might store the blob in IndexedDB
-        // For now, we'll keep the blob reference for the session
-        // This ensures the analyzer component can access it
-        newRecording.blob = audioBlob;
-      }
-      
-      // Add to recordings array
-      recordings.push(newRecording);
-      
-      // Save back to localStorage
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(
-        recordings.map(rec => {
-          // Remove blob from localStorage JSON (it can't be serialized)
-          const { blob, ...storable } = rec;
-          return storable;
-        })
-      ));
-      
-      resolve(id);
-    } catch (error) {
-      console.error('Error saving recording:', error);
-      reject(error);
+  try {
+    // Generate a unique ID for the recording
+    const id = `rec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const blob = audioBlob || recording.blob;
+
+    const newRecording: Recording = {
+      ...recording,
+      id,
+      audioMissing: !blob,
+    };
+
+    // Store the audio first so metadata never points at audio that wasn't saved
+    if (blob) {
+      await putAudio(id, blob);
+      newRecording.size = blob.size;
+      newRecording.type = blob.type;
     }
-  });
+
+    const recordings = readStoredRecordings();
+    recordings.push(newRecording);
+    writeStoredRecordings(recordings);
+
+    return id;
+  } catch (error) {
+    console.error('Error saving recording:', error);
+    throw error;
+  }
 }
 
 /**
@@ -122,40 +284,18 @@ export async function saveRecording(
  * @returns Promise<void>
  */
 export async function deleteRecording(id: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    try {
-      // Get current recordings
-      const recordingsJson = localStorage.getItem(STORAGE_KEY);
-      
-      if (!recordingsJson) {
-        resolve();
-        return;
-      }
-      
-      const recordings: Recording[] = JSON.parse(recordingsJson);
-      
-      // Find the recording to delete
-      const recordingToDelete = recordings.find(rec => rec.id === id);
-      
-      if (recordingToDelete && recordingToDelete.url) {
-        // If there's a URL, revoke it to free memory
-        if (recordingToDelete.url.startsWith('blob:')) {
-          URL.revokeObjectURL(recordingToDelete.url);
-        }
-      }
-      
-      // Filter out the recording with the matching ID
-      const updatedRecordings = recordings.filter(rec => rec.id !== id);
-      
-      // Save back to localStorage
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedRecordings));
-      
-      resolve();
-    } catch (error) {
-      console.error('Error deleting recording:', error);
-      reject(error);
-    }
-  });
+  try {
+    const recordings = readStoredRecordings();
+
+    // Filter out the recording with the matching ID
+    writeStoredRecordings(recordings.filter(rec => rec.id !== id));
+
+    await deleteAudio(id);
+    revokeObjectUrl(id);
+  } catch (error) {
+    console.error('Error deleting recording:', error);
+    throw error;
+  }
 }
 
 /**
@@ -164,116 +304,165 @@ export async function deleteRecording(id: string): Promise<void> {
  * @returns Promise<Recording | null>
  */
 export async function getRecordingById(id: string): Promise<Recording | null> {
-  return new Promise((resolve) => {
-    try {
-      // Get all recordings
-      const recordingsJson = localStorage.getItem(STORAGE_KEY);
-      
-      if (!recordingsJson) {
-        resolve(null);
-        return;
-      }
-      
-      const recordings: Recording[] = JSON.parse(recordingsJson);
-      
-      // Find the recording with the matching ID
-      const recording = recordings.find(rec => rec.id === id);
-      
-      if (!recording) {
-        resolve(null);
-        return;
-      }
-      
-      resolve(recording);
-    } catch (error) {
-      console.error('Error getting recording by ID:', error);
-      resolve(null);
-    }
-  });
+  try {
+    await migrateLegacyRecordings();
+
+    const recording = readStoredRecordings().find(rec => rec.id === id);
+    return recording ? await hydrateRecording(recording) : null;
+  } catch (error) {
+    console.error('Error getting recording by ID:', error);
+    return null;
+  }
 }
 
 /**
  * Update a recording's metadata
  * @param id ID of the recording to update
- * @param updates Partial recording object with fields to update
+ * @param updates Partial recording object with fields to update (a blob replaces the stored audio)
  * @returns Promise<Recording | null> Updated recording or null if not found
  */
 export async function updateRecording(
-  id: string, 
+  id: string,
   updates: Partial<Recording>
 ): Promise<Recording | null> {
-  return new Promise((resolve, reject) => {
-    try {
-      // Get all recordings
-      const recordingsJson = localStorage.getItem(STORAGE_KEY);
-      
-      if (!recordingsJson) {
-        resolve(null);
-        return;
-      }
-      
-      const recordings: Recording[] = JSON.parse(recordingsJson);
-      
-      // Find the index of the recording to update
-      const index = recordings.findIndex(rec => rec.id === id);
-      
-      if (index === -1) {
-        resolve(null);
-        return;
-      }
-      
-      // Handle special case for blob property
-      const { blob, ...updateWithoutBlob } = updates;
-      
-      // Update the recording
-      const updatedRecording = {
-        ...recordings[index],
-        ...updateWithoutBlob,
-        id, // Ensure ID doesn't change
-      };
-      
-      // If there's a blob in the updates, keep it in memory but don't store in localStorage
-      if (blob) {
-        updatedRecording.blob = blob;
-      }
-      
-      recordings[index] = updatedRecording;
-      
-      // Save back to localStorage (without the blob)
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(
-        recordings.map(rec => {
-          // Remove blob from localStorage JSON (it can't be serialized)
-          const { blob, ...storable } = rec;
-          return storable;
-        })
-      ));
-      
-      resolve(updatedRecording);
-    } catch (error) {
-      console.error('Error updating recording:', error);
-      reject(error);
+  try {
+    const recordings = readStoredRecordings();
+
+    // Find the index of the recording to update
+    const index = recordings.findIndex(rec => rec.id === id);
+
+    if (index === -1) {
+      return null;
     }
-  });
+
+    const blob = updates.blob;
+    const updatedRecording: Recording = {
+      ...recordings[index],
+      ...toStorable(updates),
+      id, // Ensure ID doesn't change
+    };
+
+    // A new blob replaces the stored audio and invalidates the old object URL
+    if (blob) {
+      await putAudio(id, blob);
+      revokeObjectUrl(id);
+      updatedRecording.size = blob.size;
+      updatedRecording.type = blob.type;
+      updatedRecording.audioMissing = false;
+    }
+
+    recordings[index] = updatedRecording;
+    writeStoredRecordings(recordings);
+
+    return await hydrateRecording(updatedRecording);
+  } catch (error) {
+    console.error('Error updating recording:', error);
+    throw error;
+  }
 }
 
 /**
  * Save analysis results for a recording
+ * The recording's previous results, if any, move to the front of its history,
+ * compacted to their summaries. If localStorage is full, older history is
+ * dropped to make room before giving up.
  * @param recordingId ID of the recording
- * @param results Analysis results object 
- * @returns Promise<void>
+ * @param results Analysis results object
+ * @param provider Where the analysis ran
+ * @returns Promise<Recording | null> Updated recording or null if not found
  */
 export async function saveAnalysisResult(
   recordingId: string,
-  results: any
-): Promise<void> {
+  results: AudioAnalysisResult,
+  provider: AnalysisProviderId
+): Promise<Recording | null> {
   try {
-    await updateRecording(recordingId, { analysisResults: results });
+    await migrateLegacyRecordings();
+
+    const recording = readStoredRecordings().find(rec => rec.id === recordingId);
+    if (!recording) {
+      return null;
+    }
+
+    const latest: StoredAnalysis = {
+      result: results,
+      analyzedAt: new Date().toISOString(),
+      analyzerVersion: ANALYZER_VERSION,
+      provider,
+    };
+    const previous = recording.analysisResults;
+    const history = (previous ? [previous, ...(recording.analysisHistory || [])] : recording.analysisHistory || [])
+      .slice(0, MAX_ANALYSIS_HISTORY)
+      .map(compactAnalysis);
+
+    // When storage is full, make room by dropping this recording's oldest analyses
+    for (let keep = history.length; ; keep = Math.floor(keep / 2)) {
+      try {
+        return await updateRecording(recordingId, {
+          analysisResults: latest,
+          analysisHistory: history.slice(0, keep),
+        });
+      } catch (error) {
+        if (!isQuotaExceeded(error)) throw error;
+        if (keep === 0) throw new Error(STORAGE_FULL_MESSAGE);
+      }
+    }
   } catch (error) {
     console.error('Error saving analysis results:', error);
     throw error;
   }
 }
 
+/**
+ * Mark a recording as the reference take for its piece, or unmark it
+ * A piece has at most one reference, so marking a take unmarks any other.
+ * @param id ID of the recording
+ * @param isReference Whether it should be the reference
+ * @returns Promise<Recording | null> Updated recording or null if not found
+ */
+export async function setReferenceRecording(id: string, isReference: boolean): Promise<Recording | null> {
+  try {
+    const recordings = readStoredRecordings();
+    const recording = recordings.find(rec => rec.id === id);
+    if (!recording) {
+      return null;
+    }
+    if (isReference && !recording.piece) {
+      throw new Error('Set the piece for this recording before making it a reference.');
+    }
+
+    if (isReference) {
+      writeStoredRecordings(recordings.map(rec => (
+        rec.id !== id && rec.piece === recording.piece && rec.isReference
+          ? { ...rec, isReference: false }
+          : rec
+      )));
+    }
+
+    return await updateRecording(id, { isReference });
+  } catch (error) {
+    console.error('Error setting reference recording:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the reference take for a piece, with its audio
+ * @param piece Name of the piece
+ * @returns Promise<Recording | null> The reference or null if the piece has none
+ */
+export async function getReferenceRecording(piece: string): Promise<Recording | null> {
+  try {
+    await migrateLegacyRecordings();
+
+    const reference = readStoredRecordings().find(rec => rec.isReference && rec.piece === piece);
+    return reference ? await getRecordingById(reference.id) : null;
+  } catch (error) {
+    console.error('Error getting reference recording:', error);
+    return null;
+  }
+}
+
 /**
  * Get saved recordings for analysis (with complete data)
  * This function is specifically for the analyzer component
@@ -283,4 +472,4 @@ export async function getSavedRecordings(): Promise<Recording[]> {
   // This is a wrapper around getAllRecordings to maintain compatibility
   // with the original analyzer component
   return getAllRecordings();
-}
\ No newline at end of file
+}
@@ -0,0 +1,184 @@
+// utils/swara.ts
+/**
+ * Swara (scale degree) helpers for Indian classical analysis
+ * Everything here works on a pitch track from audioUtils.trackPitch and is
+ * relative to the tonic (Sa).
+ */
+
+import { PitchFrame } from './audioUtils';
+
+// The twelve swaras of an octave, from Sa. Lower case is komal (flat), upper
+// case shuddha (natural); M is tivra (sharp) Ma.
+export const SWARAS = ['S', 'r', 'R', 'g', 'G', 'm', 'M', 'P', 'd', 'D', 'n', 'N'] as const;
+
+export type Swara = typeof SWARAS[number];
+
+/**
+ * A stable note in a swara sequence
+ */
+export interface SwaraNote {
+  swara: Swara;
+  octave: number; // 0 for the tonic's octave, -1 below, +1 above
+  start: number;  // seconds
+  end: number;    // seconds
+}
+
+/**
+ * The estimated tonic of a recording
+ */
+export interface TonicEstimate {
+  hz: number;
+  confidence: number; // 0-1, share of the tonic candidates' score held by the winner
+}
+
+// Frames less periodic than this are left out of histograms
+const MIN_CLARITY = 0.7;
+
+// Shortest run on one swara that counts as a note, in seconds
+const MIN_NOTE_SECONDS = 0.08;
+
+/**
+ * Converts a frequency to cents above a reference frequency
+ */
+export const hzToCents = (hz: number, referenceHz: number): number => {
+  return 1200 * Math.log2(hz / referenceHz);
+};
+
+/**
+ * Converts cents above a reference frequency back to Hz
+ */
+export const centsToHz = (cents: number, referenceHz: number): number => {
+  return referenceHz * Math.pow(2, cents / 1200);
+};
+
+/**
+ * Folds a cent value into a single octave, 0 to 1200
+ */
+const foldCents = (cents: number): number => {
+  return ((cents % 1200) + 1200) % 1200;
+};
+
+/**
+ * Builds an octave-folded pitch histogram relative to a reference frequency
+ * Frames are weighted by clarity and the result sums to 1 (or is all zeros).
+ * @param binsPerOctave 12 for semitone bins; larger values resolve shrutis
+ */
+export const buildPitchClassHistogram = (
+  track: PitchFrame[],
+  referenceHz: number,
+  binsPerOctave = 12
+): number[] => {
+  const histogram = new Array(binsPerOctave).fill(0);
+  const binCents = 1200 / binsPerOctave;
+  let total = 0;
+
+  track.forEach(frame => {
+    if (frame.f0 <= 0 || frame.clarity < MIN_CLARITY) return;
+    // Shift by half a bin so each bin is centred on its swara
+    const cents = foldCents(hzToCents(frame.f0, referenceHz) + binCents / 2);
+    const bin = Math.floor(cents / binCents) % binsPerOctave;
+    histogram[bin] += frame.clarity;
+    total += frame.clarity;
+  });
+
+  return total > 0 ? histogram.map(value => value / total) : histogram;
+};
+
+/**
+ * Estimates the tonic (Sa) of a recording from its pitch track
+ * A fine pitch-class histogram is searched for the pitch class that, together
+ * with its fifth (Pa) or fourth (Ma), is most prominent. The octave is the one
+ * that puts Sa just below the median sung or played pitch.
+ */
+export const estimateTonic = (track: PitchFrame[]): TonicEstimate | null => {
+  const voiced = track.filter(frame => frame.f0 > 0 && frame.clarity >= MIN_CLARITY);
+  if (voiced.length === 0) return null;
+
+  // 10-cent bins relative to A4, lightly smoothed
+  const binsPerOctave = 120;
+  const raw = buildPitchClassHistogram(voiced, 440, binsPerOctave);
+  const histogram = raw.map((_, i) =>
+    (raw[(i + binsPerOctave - 1) % binsPerOctave] + 2 * raw[i] + raw[(i + 1) % binsPerOctave]) / 4
+  );
+
+  const at = (bin: number) => histogram[((bin % binsPerOctave) + binsPerOctave) % binsPerOctave];
+  const pa = binsPerOctave * 7 / 12;
+  const ma = binsPerOctave * 5 / 12;
+
+  let bestBin = 0;
+  let bestScore = -1;
+  let totalScore = 0;
+  histogram.forEach((_, bin) => {
+    const score = at(bin) + 0.5 * Math.max(at(bin + pa), at(bin + ma));
+    totalScore += score;
+    if (score > bestScore) {
+      bestScore = score;
+      bestBin = bin;
+    }
+  });
+
+  // Pick the octave of the winning pitch class
+  const sorted = voiced.map(frame => frame.f0).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const pitchClassCents = bestBin * (1200 / binsPerOctave);
+  const octavesBelow = Math.floor(hzToCents(median, 440) / 1200 - pitchClassCents / 1200);
+  const hz = centsToHz(pitchClassCents + octavesBelow * 1200, 440);
+
+  return {
+    hz: Math.round(hz * 100) / 100,
+    confidence: totalScore > 0 ? Math.min(1, (bestScore / totalScore) * binsPerOctave / 12) : 0,
+  };
+};
+
+/**
+ * Maps a frequency to the nearest swara relative to the tonic
+ * @returns The swara, its octave and the deviation from it in cents
+ */
+export const hzToSwara = (
+  hz: number,
+  tonicHz: number
+): { swara: Swara; octave: number; cents: number } => {
+  const cents = hzToCents(hz, tonicHz);
+  const semitones = Math.round(cents / 100);
+  const index = ((semitones % 12) + 12) % 12;
+
+  return {
+    swara: SWARAS[index],
+    octave: Math.floor(semitones / 12),
+    cents: cents - semitones * 100,
+  };
+};
+
+/**
+ * Splits a pitch track into a sequence of stable swaras
+ * A note is a run of at least MIN_NOTE_SECONDS on the same swara and octave.
+ */
+export const extractSwaraSequence = (track: PitchFrame[], tonicHz: number): SwaraNote[] => {
+  const notes: SwaraNote[] = [];
+  let current: SwaraNote | null = null;
+
+  const close = () => {
+    if (current && current.end - current.start >= MIN_NOTE_SECONDS) {
+      notes.push(current);
+    }
+    current = null;
+  };
+
+  track.forEach(frame => {
+    if (frame.f0 <= 0 || frame.clarity < MIN_CLARITY) {
+      close();
+      return;
+    }
+
+    const { swara, octave } = hzToSwara(frame.f0, tonicHz);
+    if (current && current.swara === swara && current.octave === octave) {
+      current.end = frame.time;
+    } else {
+      close();
+      current = { swara, octave, start: frame.time, end: frame.time };
+    }
+  });
+  close();
+
+  return notes;
+};
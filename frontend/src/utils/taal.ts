@@ -0,0 +1,275 @@
+// utils/taal.ts
+/**
+ * Metronome and taal (rhythm cycle) player built on the Web Audio API
+ * A cycle is split into sections (vibhags for a taal, beat groups for a
+ * Western meter). The first beat of each section is accented: sam, the first
+ * beat of the cycle, loudest of all, tali sections with a clap and khali
+ * (empty) sections with a soft, low wave. Clicks are scheduled ahead on the
+ * audio clock in the same way as the tanpura's plucks.
+ */
+
+export type BeatAccent = 'sam' | 'tali' | 'khali' | 'beat';
+
+export interface CycleSection {
+  beats: number;
+  accent: Exclude<BeatAccent, 'beat'>; // how the section's first beat sounds
+  marker: string;                      // notation above the section: X for sam, 0 for khali, numbers for tali
+}
+
+export interface RhythmCycle {
+  id: string;
+  name: string;
+  kind: 'taal' | 'meter';
+  sections: CycleSection[];
+}
+
+export interface MetronomeSettings {
+  cycleId: string;
+  bpm: number;
+  volume: number; // 0-1
+}
+
+export interface Metronome {
+  start: () => void;
+  stop: () => void;
+  restart: () => void; // begin a fresh cycle with sam right now
+  update: (settings: Partial<MetronomeSettings>) => void;
+  isPlaying: () => boolean;
+}
+
+export const RHYTHM_CYCLES: RhythmCycle[] = [
+  {
+    id: 'teentaal',
+    name: 'Teentaal (16)',
+    kind: 'taal',
+    sections: [
+      { beats: 4, accent: 'sam', marker: 'X' },
+      { beats: 4, accent: 'tali', marker: '2' },
+      { beats: 4, accent: 'khali', marker: '0' },
+      { beats: 4, accent: 'tali', marker: '3' },
+    ],
+  },
+  {
+    id: 'ektaal',
+    name: 'Ektaal (12)',
+    kind: 'taal',
+    sections: [
+      { beats: 2, accent: 'sam', marker: 'X' },
+      { beats: 2, accent: 'khali', marker: '0' },
+      { beats: 2, accent: 'tali', marker: '2' },
+      { beats: 2, accent: 'khali', marker: '0' },
+      { beats: 2, accent: 'tali', marker: '3' },
+      { beats: 2, accent: 'tali', marker: '4' },
+    ],
+  },
+  {
+    // Rupak starts on khali, so its sam is played as a wave rather than a clap
+    id: 'rupak',
+    name: 'Rupak (7)',
+    kind: 'taal',
+    sections: [
+      { beats: 3, accent: 'khali', marker: '0' },
+      { beats: 2, accent: 'tali', marker: '1' },
+      { beats: 2, accent: 'tali', marker: '2' },
+    ],
+  },
+  {
+    id: 'jhaptaal',
+    name: 'Jhaptaal (10)',
+    kind: 'taal',
+    sections: [
+      { beats: 2, accent: 'sam', marker: 'X' },
+      { beats: 3, accent: 'tali', marker: '2' },
+      { beats: 2, accent: 'khali', marker: '0' },
+      { beats: 3, accent: 'tali', marker: '3' },
+    ],
+  },
+  {
+    id: '2/4',
+    name: '2/4',
+    kind: 'meter',
+    sections: [{ beats: 2, accent: 'sam', marker: '1' }],
+  },
+  {
+    id: '3/4',
+    name: '3/4',
+    kind: 'meter',
+    sections: [{ beats: 3, accent: 'sam', marker: '1' }],
+  },
+  {
+    id: '4/4',
+    name: '4/4',
+    kind: 'meter',
+    sections: [{ beats: 4, accent: 'sam', marker: '1' }],
+  },
+  {
+    id: '6/8',
+    name: '6/8',
+    kind: 'meter',
+    sections: [
+      { beats: 3, accent: 'sam', marker: '1' },
+      { beats: 3, accent: 'tali', marker: '2' },
+    ],
+  },
+];
+
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = {
+  cycleId: 'teentaal',
+  bpm: 80,
+  volume: 0.6,
+};
+
+// Tempo range offered by the controls
+export const MIN_BPM = 30;
+export const MAX_BPM = 240;
+
+// Click pitch (Hz) and level for each kind of beat
+const CLICK_SOUNDS: Record<BeatAccent, { frequency: number; gain: number; length: number }> = {
+  sam: { frequency: 1600, gain: 1, length: 0.08 },
+  tali: { frequency: 1200, gain: 0.7, length: 0.06 },
+  khali: { frequency: 500, gain: 0.45, length: 0.12 },
+  beat: { frequency: 1000, gain: 0.35, length: 0.04 },
+};
+
+// How far ahead clicks are scheduled, and how often the scheduler wakes up
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+const SCHEDULER_INTERVAL_MS = 25;
+
+/**
+ * Look up a rhythm cycle by ID
+ */
+export const getRhythmCycle = (id: string | undefined): RhythmCycle | undefined => {
+  return RHYTHM_CYCLES.find(cycle => cycle.id === id);
+};
+
+/**
+ * Number of beats in one round of a cycle
+ */
+export const getCycleLength = (cycle: RhythmCycle): number => {
+  return cycle.sections.reduce((total, section) => total + section.beats, 0);
+};
+
+/**
+ * Accent of every beat in a cycle, in order
+ */
+export const getBeatAccents = (cycle: RhythmCycle): BeatAccent[] => {
+  return cycle.sections.flatMap(section => [
+    section.accent,
+    ...Array<BeatAccent>(section.beats - 1).fill('beat'),
+  ]);
+};
+
+/**
+ * Schedules one click
+ */
+const scheduleClick = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  accent: BeatAccent,
+  time: number
+) => {
+  const { frequency, gain: level, length } = CLICK_SOUNDS[accent];
+
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0, time);
+  gain.gain.linearRampToValueAtTime(level, time + 0.002);
+  gain.gain.exponentialRampToValueAtTime(0.001, time + length);
+  gain.connect(destination);
+
+  const oscillator = context.createOscillator();
+  oscillator.type = accent === 'khali' ? 'sine' : 'triangle';
+  oscillator.frequency.value = frequency;
+  oscillator.connect(gain);
+  oscillator.start(time);
+  oscillator.stop(time + length + 0.02);
+};
+
+/**
+ * Creates a metronome on an audio context
+ * onBeat is called with the beat's index in the cycle as each click sounds,
+ * for driving a visual beat indicator.
+ */
+export const createMetronome = (
+  context: AudioContext,
+  initialSettings: MetronomeSettings = DEFAULT_METRONOME_SETTINGS,
+  onBeat?: (beatIndex: number) => void
+): Metronome => {
+  let settings = { ...initialSettings };
+  let accents = getBeatAccents(getRhythmCycle(settings.cycleId) || RHYTHM_CYCLES[0]);
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let nextBeatTime = 0;
+  let nextBeat = 0;
+  const pendingCallbacks = new Set<ReturnType<typeof setTimeout>>();
+
+  const output = context.createGain();
+  output.gain.value = settings.volume;
+  output.connect(context.destination);
+
+  const schedule = () => {
+    while (nextBeatTime < context.currentTime + SCHEDULE_AHEAD_SECONDS) {
+      const beat = nextBeat;
+      scheduleClick(context, output, accents[beat], nextBeatTime);
+
+      if (onBeat) {
+        const delay = Math.max(0, (nextBeatTime - context.currentTime) * 1000);
+        const callback = setTimeout(() => {
+          pendingCallbacks.delete(callback);
+          onBeat(beat);
+        }, delay);
+        pendingCallbacks.add(callback);
+      }
+
+      nextBeatTime += 60 / settings.bpm;
+      nextBeat = (nextBeat + 1) % accents.length;
+    }
+  };
+
+  const clearPendingCallbacks = () => {
+    pendingCallbacks.forEach(callback => clearTimeout(callback));
+    pendingCallbacks.clear();
+  };
+
+  const start = () => {
+    if (timer) return;
+    if (context.state === 'suspended') {
+      context.resume();
+    }
+    nextBeatTime = context.currentTime + 0.05;
+    nextBeat = 0;
+    schedule();
+    timer = setInterval(schedule, SCHEDULER_INTERVAL_MS);
+  };
+
+  const stop = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+    clearPendingCallbacks();
+  };
+
+  const restart = () => {
+    stop();
+    start();
+  };
+
+  const update = (changes: Partial<MetronomeSettings>) => {
+    settings = { ...settings, ...changes };
+    // A new cycle starts again from sam on the next beat
+    if (changes.cycleId !== undefined) {
+      accents = getBeatAccents(getRhythmCycle(settings.cycleId) || RHYTHM_CYCLES[0]);
+      nextBeat = 0;
+    }
+    if (changes.volume !== undefined) {
+      output.gain.setTargetAtTime(settings.volume, context.currentTime, 0.02);
+    }
+  };
+
+  return {
+    start,
+    stop,
+    restart,
+    update,
+    isPlaying: () => timer !== null,
+  };
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { alignedPlaybackRate, compareTakes, diffAnalysisResults, mapAlignedTime, TakeAlignment } from './takeComparison';
+import { createAudioBuffer } from './wavDecoder';
+import { AudioAnalysisResult } from './emotionDetector';
+
+const SAMPLE_RATE = 11025;
+
+// A note of the melody, or a rest when midi is null
+interface Tone {
+  midi: number | null;
+  seconds: number;
+}
+
+/**
+ * Render a melody as a sine wave, every length scaled by stretch, after some leading silence
+ */
+const render = (tones: Tone[], stretch = 1, leadSeconds = 0): AudioBuffer => {
+  const lead = Math.round(leadSeconds * SAMPLE_RATE);
+  const total = lead + Math.round(tones.reduce((acc, tone) => acc + tone.seconds * stretch, 0) * SAMPLE_RATE);
+  const samples = new Float32Array(total);
+  let offset = lead;
+  for (const tone of tones) {
+    const length = Math.round(tone.seconds * stretch * SAMPLE_RATE);
+    if (tone.midi !== null) {
+      const hz = 440 * 2 ** ((tone.midi - 69) / 12);
+      for (let i = 0; i < length; i++) samples[offset + i] = 0.5 * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE);
+    }
+    offset += length;
+  }
+  return createAudioBuffer([samples], SAMPLE_RATE);
+};
+
+// Notes of distinct pitch classes, so each part of the take is recognisable
+const MELODY: Tone[] = [60, 62, 64, 65, 67, 69, 71, 72].map(midi => ({ midi, seconds: 0.5 }));
+
+// Note boundaries of MELODY, in seconds
+const BOUNDARIES = [0.5, 1, 1.5, 2, 2.5, 3, 3.5];
+
+const isMonotonic = (alignment: TakeAlignment) =>
+  alignment.path.every((point, i) => i === 0 ||
+    (point.timeA >= alignment.path[i - 1].timeA && point.timeB >= alignment.path[i - 1].timeB));
+
+describe('compareTakes', () => {
+  it('aligns a take with itself along the diagonal', () => {
+    const take = render(MELODY);
+    const { alignment } = compareTakes(take, take);
+    expect(alignment.blockSeconds).toBe(0.1);
+    expect(alignment.averageCost).toBeLessThan(0.01);
+    expect(alignment.path.every(point => point.timeA === point.timeB)).toBe(true);
+    for (const time of BOUNDARIES) expect(mapAlignedTime(alignment, time)).toBeCloseTo(time, 6);
+  });
+
+  it('follows a slower take through the stretch', () => {
+    const { alignment } = compareTakes(render(MELODY), render(MELODY, 1.5));
+    expect(isMonotonic(alignment)).toBe(true);
+    for (const time of BOUNDARIES) {
+      expect(Math.abs(mapAlignedTime(alignment, time) - time * 1.5)).toBeLessThanOrEqual(0.15);
+      expect(Math.abs(mapAlignedTime(alignment, time * 1.5, 'b') - time)).toBeLessThanOrEqual(0.15);
+    }
+    expect(alignedPlaybackRate(alignment, 2)).toBeCloseTo(1.5, 0);
+  });
+
+  it('leaves leading silence out of the alignment', () => {
+    const { alignment } = compareTakes(render(MELODY), render(MELODY, 1, 1));
+    expect(alignment.path[0].timeA).toBeLessThan(0.1);
+    expect(Math.abs(alignment.path[0].timeB - 1)).toBeLessThanOrEqual(0.1);
+    for (const time of BOUNDARIES) expect(Math.abs(mapAlignedTime(alignment, time) - (time + 1))).toBeLessThanOrEqual(0.1);
+  });
+
+  it('lengthens the blocks of long takes to keep the cost matrix bounded', () => {
+    // 210 s each would need 2100 x 2100 blocks of 0.1 s, over the 4 million cell limit
+    const long = render([{ midi: 60, seconds: 105 }, { midi: 67, seconds: 105 }]);
+    const { alignment } = compareTakes(long, long, [], []);
+    expect(alignment.blockSeconds).toBeCloseTo(0.105, 6);
+    const blocks = Math.ceil(long.duration / alignment.blockSeconds);
+    expect(blocks * blocks).toBeLessThanOrEqual(4_000_000);
+    expect(isMonotonic(alignment)).toBe(true);
+    expect(alignment.path.length).toBeLessThan(2 * blocks);
+    const end = alignment.path[alignment.path.length - 1];
+    expect(end.timeA).toBe(end.timeB);
+    expect(end.timeA).toBeGreaterThan(long.duration - 2 * alignment.blockSeconds);
+  });
+});
+
+describe('mapAlignedTime', () => {
+  const alignment: TakeAlignment = {
+    path: [{ timeA: 1, timeB: 2 }, { timeA: 2, timeB: 2 }, { timeA: 3, timeB: 4 }],
+    blockSeconds: 0.1,
+    averageCost: 0,
+  };
+
+  it('interpolates between path points', () => {
+    expect(mapAlignedTime(alignment, 2.5)).toBe(3);
+    expect(mapAlignedTime(alignment, 3, 'b')).toBe(2.5);
+  });
+
+  it('moves in step beyond either end, never before zero', () => {
+    expect(mapAlignedTime(alignment, 0.5)).toBe(1.5);
+    expect(mapAlignedTime(alignment, 5)).toBe(6);
+    expect(mapAlignedTime(alignment, 0, 'b')).toBe(0);
+  });
+
+  it('returns the time unchanged without a path', () => {
+    expect(mapAlignedTime({ ...alignment, path: [] }, 7)).toBe(7);
+  });
+});
+
+describe('diffAnalysisResults', () => {
+  const result = (tempoTarget: AudioAnalysisResult['tempoTarget']) => ({
+    primaryEmotion: { emotion: 'Peaceful', confidence: 50 },
+    raga: null,
+    duration: 10,
+    tempo: 80,
+    tempoTarget,
+    timing: null,
+    notes: { totalNotes: 0, correctNotes: 0, accuracyPercentage: 0 },
+    pitch: { average: 0, variance: 0 },
+    tonic: null,
+    dynamics: null,
+  }) as unknown as AudioAnalysisResult;
+
+  it('names the taal the metronome played', () => {
+    const rows = diffAnalysisResults(
+      result({ bpm: 80, taal: 'Teentaal (16)', playedBpm: 80, deviationPercent: 0 }),
+      result({ bpm: 90, taal: null, playedBpm: 90, deviationPercent: 0 }),
+    );
+    expect(rows.find(row => row.label === 'Metronome')).toMatchObject({
+      a: 'Teentaal (16) at 80 BPM',
+      b: 'Metronome at 90 BPM',
+    });
+  });
+});
@@ -0,0 +1,338 @@
+// utils/takeComparison.ts
+/**
+ * Comparison of two takes of the same piece
+ * The takes are aligned with dynamic time warping (DTW) on short blocks of
+ * chroma (energy per pitch class, from the spectrogram) blended with the pitch
+ * class of the sung or played note. The warping path maps any moment of one
+ * take to the matching moment of the other, so both can be overlaid and
+ * played in step.
+ */
+
+import { computeSpectrogram, trackPitch, PitchFrame } from './audioUtils';
+import { AudioAnalysisResult } from './emotionDetector';
+import { PROGRESS_METRICS } from './progress';
+
+/**
+ * Two moments, one in each take, that the alignment matched
+ */
+export interface AlignedPoint {
+  timeA: number; // seconds into take A
+  timeB: number; // seconds into take B
+}
+
+export interface TakeAlignment {
+  path: AlignedPoint[];  // monotonic in both takes, from start to end
+  blockSeconds: number;  // length of the feature blocks that were aligned
+  averageCost: number;   // mean distance along the path, 0 (identical) to 1
+}
+
+/**
+ * Everything the compare view needs about a pair of takes
+ */
+export interface TakeComparison {
+  alignment: TakeAlignment;
+  pitchA: PitchFrame[];
+  pitchB: PitchFrame[];
+}
+
+/**
+ * One row of the metric-by-metric diff
+ */
+export interface MetricDiff {
+  label: string;
+  a: string;
+  b: string;
+  delta: string | null;          // B minus A, for numeric metrics
+  better: 'a' | 'b' | null;      // the stronger take, when the metric has a direction
+}
+
+// Preferred length of a feature block; longer takes use longer blocks to keep
+// the DTW cost matrix within MAX_DTW_CELLS
+const BLOCK_SECONDS = 0.1;
+const MAX_DTW_CELLS = 4_000_000;
+
+// Spectrogram bins outside this range carry little pitch information
+const CHROMA_MIN_HZ = 80;
+const CHROMA_MAX_HZ = 4000;
+
+// Share of each block's feature taken from the pitch track rather than the spectrum
+const PITCH_FEATURE_WEIGHT = 0.5;
+
+// Blocks this far below the loudest block of a take count as silence
+const SILENCE_DB = 40;
+
+// Local playback-rate estimates look this far either side of the current moment
+const RATE_WINDOW_SECONDS = 1;
+
+const pitchClass = (hz: number): number => {
+  const midi = 69 + 12 * Math.log2(hz / 440);
+  return ((Math.round(midi) % 12) + 12) % 12;
+};
+
+const normalize = (vector: Float32Array): Float32Array => {
+  const norm = Math.hypot(...vector);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+};
+
+/**
+ * Compute one 12-bin feature per block of a take
+ * Silent blocks (relative to the take's loudest) get an all-zero feature.
+ */
+const computeBlockFeatures = (audioBuffer: AudioBuffer, pitchTrack: PitchFrame[], blockSeconds: number): Float32Array[] => {
+  const blockCount = Math.max(1, Math.ceil(audioBuffer.duration / blockSeconds));
+  const spectral = Array.from({ length: blockCount }, () => new Float32Array(12));
+  const pitched = Array.from({ length: blockCount }, () => new Float32Array(12));
+
+  // Fold spectrogram power into pitch classes
+  const spectrogram = computeSpectrogram(audioBuffer);
+  const binClasses = new Int8Array(spectrogram.frames[0]?.length ?? 0).fill(-1);
+  for (let k = 0; k < binClasses.length; k++) {
+    const hz = k * spectrogram.binHz;
+    if (hz >= CHROMA_MIN_HZ && hz <= CHROMA_MAX_HZ) binClasses[k] = pitchClass(hz);
+  }
+  spectrogram.frames.forEach((levels, i) => {
+    const block = Math.min(blockCount - 1, Math.floor((i * spectrogram.frameInterval) / blockSeconds));
+    for (let k = 0; k < levels.length; k++) {
+      if (binClasses[k] >= 0) spectral[block][binClasses[k]] += Math.pow(10, levels[k] / 10);
+    }
+  });
+
+  // Count voiced pitch frames per pitch class
+  for (const frame of pitchTrack) {
+    if (frame.f0 <= 0) continue;
+    const block = Math.min(blockCount - 1, Math.floor(frame.time / blockSeconds));
+    pitched[block][pitchClass(frame.f0)] += frame.clarity;
+  }
+
+  const energies = spectral.map(chroma => chroma.reduce((sum, power) => sum + power, 0));
+  const silenceEnergy = Math.max(...energies) * Math.pow(10, -SILENCE_DB / 10);
+
+  return spectral.map((chroma, i) => {
+    const feature = new Float32Array(12);
+    if (energies[i] <= silenceEnergy) return feature;
+
+    const spectrum = normalize(chroma);
+    const pitch = normalize(pitched[i]);
+    for (let c = 0; c < 12; c++) {
+      feature[c] = (1 - PITCH_FEATURE_WEIGHT) * spectrum[c] + PITCH_FEATURE_WEIGHT * pitch[c];
+    }
+    return normalize(feature);
+  });
+};
+
+/**
+ * Distance between two block features, 0 (same) to 1
+ * Two silent blocks match; silence against sound is as far apart as it gets.
+ */
+const featureDistance = (a: Float32Array, b: Float32Array): number => {
+  let dot = 0;
+  let energyA = 0;
+  let energyB = 0;
+  for (let c = 0; c < 12; c++) {
+    dot += a[c] * b[c];
+    energyA += a[c] * a[c];
+    energyB += b[c] * b[c];
+  }
+  if (energyA === 0 && energyB === 0) return 0;
+  if (energyA === 0 || energyB === 0) return 1;
+  return Math.max(0, Math.min(1, 1 - dot));
+};
+
+/**
+ * Align two feature sequences with DTW and return the warping path as block index pairs
+ */
+const dynamicTimeWarp = (a: Float32Array[], b: Float32Array[]): { path: [number, number][]; averageCost: number } => {
+  const n = a.length;
+  const m = b.length;
+  const cost = new Float32Array(n * m);
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      const d = featureDistance(a[i], b[j]);
+      let best: number;
+      if (i === 0 && j === 0) best = 0;
+      else if (i === 0) best = cost[j - 1];
+      else if (j === 0) best = cost[(i - 1) * m];
+      else best = Math.min(cost[(i - 1) * m + j - 1], cost[(i - 1) * m + j], cost[i * m + j - 1]);
+      cost[i * m + j] = best + d;
+    }
+  }
+
+  // Walk back from the end, preferring the diagonal on ties
+  const path: [number, number][] = [[n - 1, m - 1]];
+  let i = n - 1;
+  let j = m - 1;
+  while (i > 0 || j > 0) {
+    if (i === 0) j--;
+    else if (j === 0) i--;
+    else {
+      const diagonal = cost[(i - 1) * m + j - 1];
+      const up = cost[(i - 1) * m + j];
+      const left = cost[i * m + j - 1];
+      if (diagonal <= up && diagonal <= left) {
+        i--;
+        j--;
+      } else if (up < left) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+    path.push([i, j]);
+  }
+  path.reverse();
+
+  return { path, averageCost: cost[n * m - 1] / path.length };
+};
+
+/**
+ * First and last non-silent block of a take; the whole take if it is all silence
+ */
+const soundingRange = (features: Float32Array[]): [number, number] => {
+  const sounding = (feature: Float32Array) => feature.some(value => value !== 0);
+  const first = features.findIndex(sounding);
+  if (first === -1) return [0, features.length - 1];
+
+  let last = features.length - 1;
+  while (!sounding(features[last])) last--;
+  return [first, last];
+};
+
+/**
+ * Align two takes of the same piece
+ * Pitch tracks already computed for either take can be passed in to save tracking it again.
+ */
+export const compareTakes = (
+  bufferA: AudioBuffer,
+  bufferB: AudioBuffer,
+  pitchA: PitchFrame[] = trackPitch(bufferA),
+  pitchB: PitchFrame[] = trackPitch(bufferB)
+): TakeComparison => {
+  const blockSeconds = Math.max(
+    BLOCK_SECONDS,
+    Math.sqrt((bufferA.duration * bufferB.duration) / MAX_DTW_CELLS)
+  );
+
+  const featuresA = computeBlockFeatures(bufferA, pitchA, blockSeconds);
+  const featuresB = computeBlockFeatures(bufferB, pitchB, blockSeconds);
+
+  // Leading and trailing silence is left out, so a late start doesn't skew the alignment
+  const [startA, endA] = soundingRange(featuresA);
+  const [startB, endB] = soundingRange(featuresB);
+  const warp = dynamicTimeWarp(featuresA.slice(startA, endA + 1), featuresB.slice(startB, endB + 1));
+  const path = warp.path.map(([i, j]) => [i + startA, j + startB]);
+  const averageCost = warp.averageCost;
+
+  return {
+    alignment: {
+      // Block centres, clamped to the end of each take
+      path: path.map(([i, j]) => ({
+        timeA: Math.min((i + 0.5) * blockSeconds, bufferA.duration),
+        timeB: Math.min((j + 0.5) * blockSeconds, bufferB.duration),
+      })),
+      blockSeconds,
+      averageCost: Math.round(averageCost * 1000) / 1000,
+    },
+    pitchA,
+    pitchB,
+  };
+};
+
+/**
+ * Map a moment of one take to the matching moment of the other
+ * @param from The take the given time belongs to
+ */
+export const mapAlignedTime = (alignment: TakeAlignment, time: number, from: 'a' | 'b' = 'a'): number => {
+  const { path } = alignment;
+  if (path.length === 0) return time;
+
+  const source = (p: AlignedPoint) => (from === 'a' ? p.timeA : p.timeB);
+  const target = (p: AlignedPoint) => (from === 'a' ? p.timeB : p.timeA);
+
+  if (time <= source(path[0])) return Math.max(0, target(path[0]) - (source(path[0]) - time));
+  const last = path[path.length - 1];
+  if (time >= source(last)) return target(last) + (time - source(last));
+
+  // First point at or after the time; the path never goes backwards
+  let lo = 0;
+  let hi = path.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (source(path[mid]) < time) lo = mid + 1;
+    else hi = mid;
+  }
+  const after = path[lo];
+  const before = path[Math.max(0, lo - 1)];
+  const span = source(after) - source(before);
+  if (span <= 0) return target(after);
+  return target(before) + ((time - source(before)) / span) * (target(after) - target(before));
+};
+
+/**
+ * How fast take B moves relative to take A around a moment of A
+ * Used as B's playback rate so the two stay in step between corrections.
+ */
+export const alignedPlaybackRate = (alignment: TakeAlignment, timeA: number): number => {
+  const start = Math.max(0, timeA - RATE_WINDOW_SECONDS);
+  const end = timeA + RATE_WINDOW_SECONDS;
+  const rate = (mapAlignedTime(alignment, end) - mapAlignedTime(alignment, start)) / (end - start);
+  return isFinite(rate) && rate > 0 ? rate : 1;
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 10) / 10);
+
+const numericDiff = (
+  label: string,
+  a: number | null,
+  b: number | null,
+  unit: string,
+  higherIsBetter: boolean | null
+): MetricDiff => {
+  const show = (value: number | null) => (value === null ? '—' : `${formatNumber(value)} ${unit}`.trim());
+  if (a === null || b === null) {
+    return { label, a: show(a), b: show(b), delta: null, better: null };
+  }
+
+  const delta = b - a;
+  let better: MetricDiff['better'] = null;
+  if (higherIsBetter !== null && delta !== 0) {
+    better = (delta > 0) === higherIsBetter ? 'b' : 'a';
+  }
+  return {
+    label,
+    a: show(a),
+    b: show(b),
+    delta: `${delta > 0 ? '+' : ''}${formatNumber(delta)} ${unit}`.trim(),
+    better,
+  };
+};
+
+/**
+ * Diff two analysis results, metric by metric
+ */
+export const diffAnalysisResults = (a: AudioAnalysisResult, b: AudioAnalysisResult): MetricDiff[] => {
+  const textDiff = (label: string, valueA: string, valueB: string): MetricDiff =>
+    ({ label, a: valueA, b: valueB, delta: null, better: null });
+
+  const tempoLabel = (result: AudioAnalysisResult) => {
+    const target = result.tempoTarget;
+    return target ? `${target.taal ?? 'Metronome'} at ${target.bpm} BPM` : '—';
+  };
+
+  return [
+    textDiff('Mood', a.primaryEmotion.emotion, b.primaryEmotion.emotion),
+    textDiff('Top raga match', a.raga?.matches[0]?.name ?? '—', b.raga?.matches[0]?.name ?? '—'),
+    numericDiff('Duration', a.duration, b.duration, 's', null),
+    numericDiff('Tempo', a.tempo, b.tempo, 'BPM', null),
+    textDiff('Metronome', tempoLabel(a), tempoLabel(b)),
+    ...PROGRESS_METRICS.map(metric =>
+      numericDiff(metric.label, metric.value(a), metric.value(b), metric.unit, metric.higherIsBetter)
+    ),
+    numericDiff('Average pitch', a.pitch.average || null, b.pitch.average || null, 'Hz', null),
+    numericDiff('Sa', a.tonic?.hz ?? null, b.tonic?.hz ?? null, 'Hz', null),
+    numericDiff('Average loudness', a.dynamics?.average ?? null, b.dynamics?.average ?? null, 'dBFS', null),
+  ];
+};
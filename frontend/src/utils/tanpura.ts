@@ -0,0 +1,194 @@
+// utils/tanpura.ts
+/**
+ * Tanpura (shruti drone) synthesizer built on the Web Audio API
+ * Four strings are plucked in a repeating cycle: the pattern string (Pa, Ma
+ * or Ni of the lower octave), two Sa strings and the low (kharaj) Sa.
+ * Plucks are scheduled a little ahead of time on the audio clock so timer
+ * jitter on the main thread doesn't make the cycle uneven.
+ */
+
+export type TanpuraPattern = 'Sa-Pa' | 'Sa-Ma' | 'Sa-Ni';
+
+export interface TanpuraSettings {
+  tonicHz: number;      // Sa of the middle strings
+  pattern: TanpuraPattern;
+  cycleSeconds: number; // time for one round of all four strings
+  brightness: number;   // 0-1, how strongly the jivari buzz brings out upper partials
+  volume: number;       // 0-1
+}
+
+export interface TanpuraDrone {
+  output: GainNode; // connect this to the speakers and, if wanted, a recording
+  start: () => void;
+  stop: () => void;
+  update: (settings: Partial<TanpuraSettings>) => void;
+  isPlaying: () => boolean;
+}
+
+export const TANPURA_PATTERNS: TanpuraPattern[] = ['Sa-Pa', 'Sa-Ma', 'Sa-Ni'];
+
+export const DEFAULT_TANPURA_SETTINGS: TanpuraSettings = {
+  tonicHz: 261.63,
+  pattern: 'Sa-Pa',
+  cycleSeconds: 4,
+  brightness: 0.6,
+  volume: 0.5,
+};
+
+// Semitones above Sa of the first string, which sounds an octave below
+const PATTERN_SEMITONES: Record<TanpuraPattern, number> = {
+  'Sa-Pa': 7,
+  'Sa-Ma': 5,
+  'Sa-Ni': 11,
+};
+
+// Where in the cycle each of the four strings is plucked
+const PLUCK_OFFSETS = [0, 0.25, 0.5, 0.75];
+
+// How far ahead plucks are scheduled, and how often the scheduler wakes up
+const SCHEDULE_AHEAD_SECONDS = 0.2;
+const SCHEDULER_INTERVAL_MS = 50;
+
+/**
+ * Frequencies of the four strings in plucking order
+ */
+const stringFrequencies = (settings: TanpuraSettings): number[] => {
+  const { tonicHz, pattern } = settings;
+  return [
+    (tonicHz / 2) * Math.pow(2, PATTERN_SEMITONES[pattern] / 12),
+    tonicHz,
+    tonicHz,
+    tonicHz / 2,
+  ];
+};
+
+/**
+ * Builds the harmonic spectrum of a string; brighter strings keep more of
+ * their upper partials
+ */
+const createStringWave = (context: BaseAudioContext, brightness: number): PeriodicWave => {
+  const harmonics = 32;
+  const real = new Float32Array(harmonics);
+  const imag = new Float32Array(harmonics);
+  const rolloff = 2 - 1.3 * brightness;
+
+  for (let n = 1; n < harmonics; n++) {
+    imag[n] = 1 / Math.pow(n, rolloff);
+  }
+
+  return context.createPeriodicWave(real, imag);
+};
+
+/**
+ * Schedules one pluck of a string
+ * A lowpass filter that opens after the attack and then closes again gives
+ * the swelling buzz of the jivari bridge.
+ */
+const schedulePluck = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  wave: PeriodicWave,
+  frequency: number,
+  time: number,
+  duration: number,
+  brightness: number
+) => {
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0, time);
+  gain.gain.linearRampToValueAtTime(0.25, time + 0.015);
+  gain.gain.exponentialRampToValueAtTime(0.001, time + duration);
+
+  const filter = context.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.Q.value = 2 + 6 * brightness;
+  filter.frequency.setValueAtTime(frequency * 3, time);
+  filter.frequency.exponentialRampToValueAtTime(frequency * (3 + 25 * brightness), time + duration * 0.3);
+  filter.frequency.exponentialRampToValueAtTime(frequency * 2, time + duration);
+
+  filter.connect(gain);
+  gain.connect(destination);
+
+  // Two slightly detuned voices for the shimmer of a real string
+  [-1.5, 1.5].forEach(detune => {
+    const oscillator = context.createOscillator();
+    oscillator.setPeriodicWave(wave);
+    oscillator.frequency.value = frequency;
+    oscillator.detune.value = detune;
+    oscillator.connect(filter);
+    oscillator.start(time);
+    oscillator.stop(time + duration + 0.05);
+  });
+};
+
+/**
+ * Creates a tanpura drone on an audio context
+ * The drone is silent until start() is called.
+ */
+export const createTanpuraDrone = (
+  context: AudioContext,
+  initialSettings: TanpuraSettings = DEFAULT_TANPURA_SETTINGS
+): TanpuraDrone => {
+  let settings = { ...initialSettings };
+  let wave = createStringWave(context, settings.brightness);
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let nextCycleTime = 0;
+  let nextString = 0;
+
+  const output = context.createGain();
+  output.gain.value = settings.volume;
+
+  const schedule = () => {
+    const cycle = settings.cycleSeconds;
+    const frequencies = stringFrequencies(settings);
+
+    while (true) {
+      const pluckTime = nextCycleTime + PLUCK_OFFSETS[nextString] * cycle;
+      if (pluckTime >= context.currentTime + SCHEDULE_AHEAD_SECONDS) break;
+
+      // Let each string ring on into the next cycle, as on the real instrument
+      schedulePluck(context, output, wave, frequencies[nextString], pluckTime, cycle * 1.2, settings.brightness);
+
+      nextString++;
+      if (nextString === PLUCK_OFFSETS.length) {
+        nextString = 0;
+        nextCycleTime += cycle;
+      }
+    }
+  };
+
+  const start = () => {
+    if (timer) return;
+    if (context.state === 'suspended') {
+      context.resume();
+    }
+    nextCycleTime = context.currentTime + 0.05;
+    nextString = 0;
+    schedule();
+    timer = setInterval(schedule, SCHEDULER_INTERVAL_MS);
+  };
+
+  const stop = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const update = (changes: Partial<TanpuraSettings>) => {
+    settings = { ...settings, ...changes };
+    if (changes.brightness !== undefined) {
+      wave = createStringWave(context, settings.brightness);
+    }
+    if (changes.volume !== undefined) {
+      output.gain.setTargetAtTime(settings.volume, context.currentTime, 0.05);
+    }
+  };
+
+  return {
+    output,
+    start,
+    stop,
+    update,
+    isPlaying: () => timer !== null,
+  };
+};
@@ -0,0 +1,244 @@
+// utils/transcription.ts
+/**
+ * Transcription of a pitch track into a list of notes
+ * Voiced stretches of the track are split wherever the pitch settles on a
+ * new semitone for long enough to be heard as a note, and wherever an onset
+ * re-articulates the same pitch. Ornaments don't become notes of their own:
+ * brief departures (the swings of a gamak, wide vibrato) are folded into the
+ * note they leave and return to, and a kan swar or meend leading into a note
+ * into the note it arrives at. Semitones are counted from the tonic, so a Sa
+ * that isn't on A440 doesn't put every note off.
+ */
+
+import { PitchFrame } from './audioUtils';
+import { hzToMidi } from './noteNames';
+
+/**
+ * One transcribed note
+ */
+export interface TranscribedNote {
+  start: number;       // seconds
+  end: number;         // seconds
+  midi: number;        // semitone the note was quantized to; fractional when the tonic isn't on A440
+  cents: number;       // median deviation of the held pitch from that semitone
+  velocity: number;    // 1-127, from the loudness at the start of the note
+  ornamented: boolean; // ornaments or a glide were folded into the note
+}
+
+export interface TranscriptionOptions {
+  tonicHz?: number;          // semitones are counted from this Sa; A440 equal temperament when omitted
+  onsets?: number[];         // seconds; a held note is split where one re-articulates it
+  envelope?: number[];       // dBFS per window, for note velocities
+  envelopeInterval?: number; // seconds per envelope window
+}
+
+// Frames of median smoothing applied before segmenting, about 50 ms at the tracker's hop
+const SMOOTHING_FRAMES = 5;
+
+// Unvoiced gaps shorter than this (consonants, pick noise) don't end a note
+const MAX_GAP_SECONDS = 0.06;
+
+// The pitch has to move further than this from a note, in semitones, to leave it
+const HYSTERESIS_SEMITONES = 0.7;
+
+// Shortest stretch that counts as a note; shorter departures are ornaments
+const MIN_NOTE_SECONDS = 0.08;
+
+// Notes shorter than this that mostly wander off their semitone are glides
+const MAX_GLIDE_SECONDS = 0.25;
+const MIN_STEADY_SHARE = 0.5;
+
+// Velocity used when no loudness is known, and the loudness mapped onto the lowest velocity
+const DEFAULT_VELOCITY = 80;
+const VELOCITY_FLOOR_DB = -60;
+const MIN_VELOCITY = 16;
+
+interface Segment {
+  frames: { time: number; midi: number }[];
+  semitone: number;
+  ornamented: boolean;
+  end: number;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Split a pitch track into voiced stretches, bridging short unvoiced gaps
+ */
+const voicedRegions = (track: PitchFrame[], frameSeconds: number): { time: number; midi: number }[][] => {
+  const regions: { time: number; midi: number }[][] = [];
+  let current: { time: number; midi: number }[] = [];
+  let lastVoiced = -Infinity;
+
+  for (const frame of track) {
+    if (frame.f0 <= 0) continue;
+    if (frame.time - lastVoiced > MAX_GAP_SECONDS + frameSeconds && current.length > 0) {
+      regions.push(current);
+      current = [];
+    }
+    current.push({ time: frame.time, midi: hzToMidi(frame.f0) });
+    lastVoiced = frame.time;
+  }
+  if (current.length > 0) regions.push(current);
+  return regions;
+};
+
+/**
+ * Segment one voiced stretch into notes with hysteresis
+ */
+const segmentRegion = (
+  region: { time: number; midi: number }[],
+  quantize: (midi: number) => number,
+  frameSeconds: number
+): Segment[] => {
+  const half = Math.floor(SMOOTHING_FRAMES / 2);
+  const smoothed = region.map((_, i) => ({
+    time: region[i].time,
+    midi: median(region.slice(Math.max(0, i - half), i + half + 1).map(frame => frame.midi)),
+  }));
+
+  const segments: Segment[] = [];
+  let current: Segment = { frames: [], semitone: quantize(smoothed[0].midi), ornamented: false, end: 0 };
+  let departure = -1; // index where the pitch left the current note, while it is away
+  let candidate = 0;  // semitone the pitch is holding since candidateStart, while away
+  let candidateStart = -1;
+
+  smoothed.forEach((frame, i) => {
+    if (Math.abs(frame.midi - current.semitone) <= HYSTERESIS_SEMITONES) {
+      if (departure >= 0) {
+        // Came back before settling elsewhere: an ornament of this note
+        current.frames.push(...smoothed.slice(departure, i));
+        current.ornamented = true;
+        departure = -1;
+      }
+      current.frames.push(frame);
+      return;
+    }
+
+    if (departure < 0) departure = i;
+    if (candidateStart < 0 || Math.abs(frame.midi - candidate) > HYSTERESIS_SEMITONES) {
+      candidate = quantize(frame.midi);
+      candidateStart = i;
+    }
+
+    // Settled on a new note; whatever led into it (a kan, a meend) belongs to it
+    if (frame.time - smoothed[candidateStart].time >= MIN_NOTE_SECONDS) {
+      current.end = smoothed[departure].time;
+      segments.push(current);
+      current = {
+        frames: smoothed.slice(departure, i + 1),
+        semitone: candidate,
+        ornamented: candidateStart > departure,
+        end: 0,
+      };
+      departure = -1;
+      candidateStart = -1;
+    }
+  });
+  if (departure >= 0) current.frames.push(...smoothed.slice(departure));
+  current.end = smoothed[smoothed.length - 1].time + frameSeconds;
+  segments.push(current);
+
+  return segments.filter(segment => segment.frames.length > 0);
+};
+
+/**
+ * Fold glides and too-short segments into a neighbour, then join neighbours
+ * left on the same semitone
+ */
+const foldOrnaments = (segments: Segment[]): Segment[] => {
+  const isGlide = (segment: Segment) => {
+    const length = segment.end - segment.frames[0].time;
+    if (length < MIN_NOTE_SECONDS) return true;
+    const steady = segment.frames.filter(frame => Math.abs(frame.midi - segment.semitone) <= 0.5).length;
+    return length < MAX_GLIDE_SECONDS && steady / segment.frames.length < MIN_STEADY_SHARE;
+  };
+
+  const kept: Segment[] = [];
+  let pending: Segment['frames'] = []; // glide frames leading into the next note
+  for (const segment of segments) {
+    const previous = kept[kept.length - 1];
+    if (isGlide(segment)) {
+      if (previous) {
+        previous.frames.push(...segment.frames);
+        previous.end = segment.end;
+        previous.ornamented = true;
+      } else {
+        pending.push(...segment.frames);
+      }
+      continue;
+    }
+
+    const merged = { ...segment, frames: [...pending, ...segment.frames], ornamented: segment.ornamented || pending.length > 0 };
+    pending = [];
+    if (previous && previous.semitone === merged.semitone) {
+      previous.frames.push(...merged.frames);
+      previous.end = merged.end;
+      previous.ornamented = previous.ornamented || merged.ornamented;
+    } else {
+      kept.push(merged);
+    }
+  }
+  return kept;
+};
+
+/**
+ * Velocity from the loudest envelope window in the first moments of a note
+ */
+const noteVelocity = (start: number, options: TranscriptionOptions): number => {
+  const { envelope, envelopeInterval } = options;
+  if (!envelope || !envelopeInterval || envelope.length === 0) return DEFAULT_VELOCITY;
+
+  const first = Math.floor(start / envelopeInterval);
+  const last = Math.floor((start + MIN_NOTE_SECONDS) / envelopeInterval);
+  const window = envelope.slice(first, last + 1);
+  if (window.length === 0) return DEFAULT_VELOCITY;
+
+  const level = Math.max(0, Math.min(1, (Math.max(...window) - VELOCITY_FLOOR_DB) / -VELOCITY_FLOOR_DB));
+  return Math.round(MIN_VELOCITY + level * (127 - MIN_VELOCITY));
+};
+
+/**
+ * Transcribe a pitch track into notes
+ */
+export const transcribeNotes = (track: PitchFrame[], options: TranscriptionOptions = {}): TranscribedNote[] => {
+  const frameSeconds = track.length > 1 ? track[1].time - track[0].time : 0.01;
+
+  // Semitone grid through the tonic
+  const gridOffset = options.tonicHz
+    ? hzToMidi(options.tonicHz) - Math.round(hzToMidi(options.tonicHz))
+    : 0;
+  const quantize = (midi: number) => Math.round(midi - gridOffset) + gridOffset;
+
+  const segments = voicedRegions(track, frameSeconds)
+    .flatMap(region => foldOrnaments(segmentRegion(region, quantize, frameSeconds)));
+
+  const onsets = options.onsets ?? [];
+  const notes: TranscribedNote[] = [];
+  for (const segment of segments) {
+    const steady = segment.frames.filter(frame => Math.abs(frame.midi - segment.semitone) <= 0.5);
+    const cents = Math.round(median((steady.length > 0 ? steady : segment.frames)
+      .map(frame => (frame.midi - segment.semitone) * 100)));
+
+    // Onsets well inside a note re-articulate it
+    const start = segment.frames[0].time;
+    const splits = onsets.filter(time => time - start >= MIN_NOTE_SECONDS && segment.end - time >= MIN_NOTE_SECONDS);
+    const bounds = [start, ...splits, segment.end];
+
+    for (let i = 0; i < bounds.length - 1; i++) {
+      notes.push({
+        start: Math.round(bounds[i] * 100) / 100,
+        end: Math.round(bounds[i + 1] * 100) / 100,
+        midi: Math.round(segment.semitone * 100) / 100,
+        cents,
+        velocity: noteVelocity(bounds[i], options),
+        ornamented: segment.ornamented,
+      });
+    }
+  }
+
+  return notes;
+};
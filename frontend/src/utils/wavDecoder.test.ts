@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { isWav, readWavInfo, decodeWav } from './wavDecoder';
+
+interface Chunk {
+  id: string;
+  body: Uint8Array;
+}
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+/**
+ * Assemble a RIFF/WAVE file from chunks, padding odd-sized ones
+ */
+const riff = (chunks: Chunk[], sizeOverride?: Record<string, number>): Uint8Array => {
+  const parts: Uint8Array[] = [ascii('WAVE')];
+  for (const { id, body } of chunks) {
+    const header = new Uint8Array(8);
+    header.set(ascii(id));
+    new DataView(header.buffer).setUint32(4, sizeOverride?.[id] ?? body.length, true);
+    parts.push(header, body);
+    if (body.length % 2) parts.push(new Uint8Array(1));
+  }
+
+  const length = parts.reduce((acc, part) => acc + part.length, 0);
+  const bytes = new Uint8Array(8 + length);
+  bytes.set(ascii('RIFF'));
+  new DataView(bytes.buffer).setUint32(4, length, true);
+  let offset = 8;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+const fmt = (format: number, channels: number, sampleRate: number, bits: number, subFormat?: number): Chunk => {
+  const body = new Uint8Array(subFormat === undefined ? 16 : 40);
+  const view = new DataView(body.buffer);
+  view.setUint16(0, format, true);
+  view.setUint16(2, channels, true);
+  view.setUint32(4, sampleRate, true);
+  view.setUint32(8, sampleRate * channels * bits / 8, true);
+  view.setUint16(12, channels * bits / 8, true);
+  view.setUint16(14, bits, true);
+  if (subFormat !== undefined) {
+    view.setUint16(16, 22, true);
+    view.setUint16(24, subFormat, true);
+  }
+  return { id: 'fmt ', body };
+};
+
+const data = (write: (view: DataView) => void, length: number): Chunk => {
+  const body = new Uint8Array(length);
+  write(new DataView(body.buffer));
+  return { id: 'data', body };
+};
+
+describe('isWav', () => {
+  it('recognises a RIFF/WAVE header', () => {
+    expect(isWav(riff([]))).toBe(true);
+  });
+
+  it('rejects other files and short input', () => {
+    expect(isWav(ascii('OggS\0\0\0\0\0\0\0\0'))).toBe(false);
+    expect(isWav(ascii('RIFF'))).toBe(false);
+  });
+});
+
+describe('readWavInfo', () => {
+  it('reads the layout and duration without decoding', () => {
+    const bytes = riff([fmt(1, 2, 8000, 16), data(() => {}, 8000 * 4 * 3)]);
+    const info = readWavInfo(bytes);
+    expect(info).toMatchObject({ format: 1, channelCount: 2, sampleRate: 8000, bitsPerSample: 16, frameCount: 24000 });
+    expect(info.duration).toBe(3);
+  });
+
+  it('counts the same seconds in far fewer bytes for 8-bit mono', () => {
+    const bytes = riff([fmt(1, 1, 8000, 8), data(() => {}, 8000)]);
+    expect(readWavInfo(bytes).duration).toBe(1);
+  });
+
+  it('skips unknown chunks, including odd-sized ones', () => {
+    const list = { id: 'LIST', body: ascii('INFOx') };
+    const bytes = riff([fmt(1, 1, 1000, 16), list, data(view => view.setInt16(0, 1000, true), 2)]);
+    const info = readWavInfo(bytes);
+    expect(info.frameCount).toBe(1);
+    expect(bytes[info.dataOffset]).toBe(1000 & 0xff);
+  });
+
+  it('never reads past the end when the data size is unset', () => {
+    const bytes = riff([fmt(1, 1, 1000, 16), data(() => {}, 10)], { data: 0xffffffff });
+    expect(readWavInfo(bytes).frameCount).toBe(5);
+  });
+
+  it('throws without a fmt or data chunk', () => {
+    expect(() => readWavInfo(riff([data(() => {}, 4)]))).toThrow(/fmt/);
+    expect(() => readWavInfo(riff([fmt(1, 1, 1000, 16)]))).toThrow(/data chunk/);
+    expect(() => readWavInfo(riff([{ id: 'fmt ', body: new Uint8Array(8) }]))).toThrow(/too short/);
+    expect(() => readWavInfo(ascii('not a wav file'))).toThrow(/RIFF/);
+  });
+});
+
+describe('decodeWav', () => {
+  it('decodes interleaved 16-bit stereo into separate channels', () => {
+    const bytes = riff([fmt(1, 2, 1000, 16), data(view => {
+      view.setInt16(0, 16384, true);
+      view.setInt16(2, -32768, true);
+      view.setInt16(4, -16384, true);
+      view.setInt16(6, 0, true);
+    }, 8)]);
+    const buffer = decodeWav(bytes);
+    expect(buffer.numberOfChannels).toBe(2);
+    expect(buffer.length).toBe(2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, -0.5]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-1, 0]);
+  });
+
+  it('treats 8-bit samples as unsigned', () => {
+    const bytes = riff([fmt(1, 1, 1000, 8), data(view => {
+      view.setUint8(0, 0);
+      view.setUint8(1, 128);
+      view.setUint8(2, 192);
+    }, 3)]);
+    expect(Array.from(decodeWav(bytes).getChannelData(0))).toEqual([-1, 0, 0.5]);
+  });
+
+  it('sign-extends 24-bit samples', () => {
+    const bytes = riff([fmt(1, 1, 1000, 24), data(view => {
+      view.setUint8(0, 0x00); view.setUint8(1, 0x00); view.setUint8(2, 0xc0); // -0.5
+      view.setUint8(3, 0x00); view.setUint8(4, 0x00); view.setUint8(5, 0x40); // 0.5
+    }, 6)]);
+    expect(Array.from(decodeWav(bytes).getChannelData(0))).toEqual([-0.5, 0.5]);
+  });
+
+  it('decodes 32-bit float, including behind an extensible header', () => {
+    const samples = data(view => {
+      view.setFloat32(0, 0.25, true);
+      view.setFloat32(4, -0.75, true);
+    }, 8);
+    for (const header of [fmt(3, 1, 1000, 32), fmt(0xfffe, 1, 1000, 32, 3)]) {
+      expect(Array.from(decodeWav(riff([header, samples])).getChannelData(0))).toEqual([0.25, -0.75]);
+    }
+  });
+
+  it('rejects encodings it cannot read', () => {
+    expect(() => decodeWav(riff([fmt(2, 1, 1000, 4), data(() => {}, 4)]))).toThrow(/Unsupported WAV encoding/);
+  });
+
+  it('reports the sample rate and duration of the result', () => {
+    const buffer = decodeWav(riff([fmt(1, 1, 4000, 16), data(() => {}, 4000)]));
+    expect(buffer.sampleRate).toBe(4000);
+    expect(buffer.duration).toBe(0.5);
+  });
+});
@@ -0,0 +1,172 @@
+// utils/wavDecoder.ts
+/**
+ * Decoder for WAV files that doesn't need the Web Audio API
+ * The server has no AudioContext to decode with, so uploads analyzed there
+ * are read here instead. Supports integer PCM (8, 16, 24 and 32 bit) and
+ * 32/64-bit float, including WAVE_FORMAT_EXTENSIBLE headers.
+ */
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Check whether a file starts with a RIFF/WAVE header
+ */
+export const isWav = (bytes: Uint8Array): boolean => {
+  const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  return bytes.length >= 12 && tag(0) === 'RIFF' && tag(8) === 'WAVE';
+};
+
+/**
+ * Wrap decoded channel data in an object with the AudioBuffer interface,
+ * so the analysis functions can run on it unchanged
+ */
+export const createAudioBuffer = (channels: Float32Array<ArrayBuffer>[], sampleRate: number): AudioBuffer => {
+  const length = channels.length > 0 ? channels[0].length : 0;
+
+  return {
+    sampleRate,
+    length,
+    duration: length / sampleRate,
+    numberOfChannels: channels.length,
+    getChannelData: (channel: number) => channels[channel],
+    copyFromChannel: (destination: Float32Array<ArrayBuffer>, channel: number, offset = 0) => {
+      destination.set(channels[channel].subarray(offset, offset + destination.length));
+    },
+    copyToChannel: (source: Float32Array<ArrayBuffer>, channel: number, offset = 0) => {
+      channels[channel].set(source.subarray(0, length - offset), offset);
+    },
+  };
+};
+
+/**
+ * Build a function that reads one sample at a byte offset and scales it to -1..1
+ */
+const sampleReader = (view: DataView, format: number, bitsPerSample: number): ((offset: number) => number) => {
+  if (format === FORMAT_FLOAT && bitsPerSample === 32) {
+    return offset => view.getFloat32(offset, true);
+  }
+  if (format === FORMAT_FLOAT && bitsPerSample === 64) {
+    return offset => view.getFloat64(offset, true);
+  }
+  if (format === FORMAT_PCM) {
+    switch (bitsPerSample) {
+      case 8:
+        // 8-bit WAV is the one unsigned format
+        return offset => (view.getUint8(offset) - 128) / 128;
+      case 16:
+        return offset => view.getInt16(offset, true) / 32768;
+      case 24:
+        return offset => {
+          const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+          return value / 8388608;
+        };
+      case 32:
+        return offset => view.getInt32(offset, true) / 2147483648;
+    }
+  }
+
+  throw new Error(`Unsupported WAV encoding (format ${format}, ${bitsPerSample} bit)`);
+};
+
+/**
+ * Layout of a WAV file, read from its headers
+ */
+export interface WavInfo {
+  format: number;
+  channelCount: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  dataOffset: number; // byte offset of the samples
+  dataLength: number; // bytes of samples actually present
+  frameCount: number;
+  duration: number;   // seconds
+}
+
+/**
+ * Read the fmt and data chunk headers of a WAV file without decoding the samples
+ * Cheap enough to run before deciding whether a file is worth decoding.
+ * Throws when the file isn't WAV or is missing either chunk.
+ */
+export const readWavInfo = (bytes: Uint8Array): WavInfo => {
+  if (!isWav(bytes)) {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format = 0;
+  let channelCount = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk the chunks after the 12-byte RIFF header; chunks are padded to even lengths
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      if (size < 16) throw new Error('The fmt chunk is too short');
+      format = view.getUint16(body, true);
+      channelCount = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // The real format is at the start of the extensible header's sub-format GUID
+      if (format === FORMAT_EXTENSIBLE && size >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (id === 'data') {
+      dataOffset = body;
+      // Streamed files may leave the size unset, so never read past the end
+      dataLength = Math.min(size, bytes.length - body);
+      break;
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  if (!channelCount || !sampleRate || !bitsPerSample) {
+    throw new Error('The WAV file has no usable fmt chunk');
+  }
+  if (dataOffset < 0) {
+    throw new Error('The WAV file has no data chunk');
+  }
+
+  const frameCount = Math.floor(dataLength / (bitsPerSample / 8 * channelCount));
+  return {
+    format,
+    channelCount,
+    sampleRate,
+    bitsPerSample,
+    dataOffset,
+    dataLength,
+    frameCount,
+    duration: frameCount / sampleRate,
+  };
+};
+
+/**
+ * Decode a WAV file into an AudioBuffer
+ * Throws when the file is truncated or uses an encoding other than PCM or float.
+ */
+export const decodeWav = (bytes: Uint8Array): AudioBuffer => {
+  const { format, channelCount, sampleRate, bitsPerSample, dataOffset, frameCount } = readWavInfo(bytes);
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const bytesPerSample = bitsPerSample / 8;
+  const readSample = sampleReader(view, format, bitsPerSample);
+
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+  for (let frame = 0; frame < frameCount; frame++) {
+    const frameOffset = dataOffset + frame * bytesPerSample * channelCount;
+    for (let channel = 0; channel < channelCount; channel++) {
+      channels[channel][frame] = readSample(frameOffset + channel * bytesPerSample);
+    }
+  }
+
+  return createAudioBuffer(channels, sampleRate);
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './wavEncoder';
+import { createAudioBuffer, decodeWav, readWavInfo } from './wavDecoder';
+
+const encode = async (channels: number[][], sampleRate: number) => {
+  const buffer = createAudioBuffer(channels.map(samples => Float32Array.from(samples)), sampleRate);
+  return new Uint8Array(await encodeWav(buffer).arrayBuffer());
+};
+
+describe('encodeWav', () => {
+  it('writes a 44-byte header for 16-bit PCM', async () => {
+    const bytes = await encode([[0, 0, 0], [0, 0, 0]], 48000);
+    expect(bytes.length).toBe(44 + 3 * 2 * 2);
+    expect(readWavInfo(bytes)).toMatchObject({
+      format: 1,
+      channelCount: 2,
+      sampleRate: 48000,
+      bitsPerSample: 16,
+      dataOffset: 44,
+      frameCount: 3,
+    });
+  });
+
+  it('round-trips through the decoder, interleaving channels', async () => {
+    const left = [0, 0.5, -0.5, 1, -1];
+    const right = [0.25, -0.25, 0.125, 0, 0.75];
+    const decoded = decodeWav(await encode([left, right], 8000));
+    Array.from(decoded.getChannelData(0)).forEach((sample, i) => expect(sample).toBeCloseTo(left[i], 4));
+    Array.from(decoded.getChannelData(1)).forEach((sample, i) => expect(sample).toBeCloseTo(right[i], 4));
+  });
+
+  it('clips samples outside -1..1', async () => {
+    const decoded = decodeWav(await encode([[2, -3]], 8000));
+    expect(decoded.getChannelData(0)[0]).toBeCloseTo(1, 4);
+    expect(decoded.getChannelData(0)[1]).toBe(-1);
+  });
+});
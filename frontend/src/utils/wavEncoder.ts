@@ -0,0 +1,54 @@
+// utils/wavEncoder.ts
+/**
+ * Encoder for 16-bit PCM WAV files
+ * MediaRecorder takes are WebM or Ogg, which the /api/analyze route can't
+ * decode (see wavDecoder.ts), so the browser decodes them and uploads WAV
+ * instead. Every channel is kept, so clipping is still found per channel.
+ */
+
+const BITS_PER_SAMPLE = 16;
+
+// RIFF header, fmt chunk and data chunk header
+const HEADER_BYTES = 44;
+
+/**
+ * Encode an AudioBuffer as a 16-bit PCM WAV file
+ * Samples outside -1..1 are clipped.
+ */
+export const encodeWav = (audioBuffer: AudioBuffer): Blob => {
+  const { numberOfChannels, sampleRate, length } = audioBuffer;
+  const blockAlign = numberOfChannels * BITS_PER_SAMPLE / 8;
+  const dataLength = length * blockAlign;
+
+  const bytes = new ArrayBuffer(HEADER_BYTES + dataLength);
+  const view = new DataView(bytes);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, HEADER_BYTES - 8 + dataLength, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // integer PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, BITS_PER_SAMPLE, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, c) => audioBuffer.getChannelData(c));
+  let offset = HEADER_BYTES;
+  for (let i = 0; i < length; i++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[i]));
+      view.setInt16(offset, Math.round(sample < 0 ? sample * 32768 : sample * 32767), true);
+      offset += 2;
+    }
+  }
+
+  return new Blob([bytes], { type: 'audio/wav' });
+};
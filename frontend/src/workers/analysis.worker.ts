@@ -0,0 +1,28 @@
+// workers/analysis.worker.ts
+/**
+ * Web Worker that runs the analysis pipeline off the main thread
+ * Workers can't decode compressed audio (there is no AudioContext here), so
+ * the page decodes and posts the raw channel data; see analysisRunner.ts.
+ */
+
+import { analyzeAudioBuffer } from '../utils/emotionDetector';
+import { createAudioBuffer } from '../utils/wavDecoder';
+import type { AnalysisWorkerRequest, AnalysisWorkerMessage } from '../utils/analysisRunner';
+
+const post = (message: AnalysisWorkerMessage) => {
+  self.postMessage(message);
+};
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { channels, sampleRate, options } = event.data;
+
+  try {
+    const audioBuffer = createAudioBuffer(channels, sampleRate);
+    const result = analyzeAudioBuffer(audioBuffer, options, (stage, fraction) => {
+      post({ type: 'progress', stage, fraction });
+    });
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};